@@ -0,0 +1,20 @@
+CREATE TYPE "public"."migration_status" AS ENUM('pending', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "embedding_migrations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_id" text NOT NULL,
+	"source_contract_id" text NOT NULL,
+	"target_contract_id" text,
+	"embedding_model" text NOT NULL,
+	"status" "migration_status" DEFAULT 'pending' NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "keys" ADD COLUMN "active_contract_id" text;--> statement-breakpoint
+ALTER TABLE "embedding_migrations" ADD CONSTRAINT "embedding_migrations_clerk_id_users_clerk_id_fk" FOREIGN KEY ("clerk_id") REFERENCES "public"."users"("clerk_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "embedding_migrations_clerk_idx" ON "embedding_migrations" USING btree ("clerk_id");--> statement-breakpoint
+CREATE INDEX "embedding_migrations_status_idx" ON "embedding_migrations" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "expiring_contracts" (
+	"contract_id" text PRIMARY KEY NOT NULL,
+	"clerk_id" text NOT NULL,
+	"marked_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "expiring_contracts" ADD CONSTRAINT "expiring_contracts_clerk_id_users_clerk_id_fk" FOREIGN KEY ("clerk_id") REFERENCES "public"."users"("clerk_id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
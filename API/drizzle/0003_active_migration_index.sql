@@ -0,0 +1,2 @@
+UPDATE "embedding_migrations" SET "status" = 'failed', "error" = 'Another migration of the user was already in progress' WHERE "status" in ('pending', 'running') AND "id" NOT IN (SELECT DISTINCT ON ("clerk_id") "id" FROM "embedding_migrations" WHERE "status" in ('pending', 'running') ORDER BY "clerk_id", "created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "embedding_migrations_active_clerk_idx" ON "embedding_migrations" USING btree ("clerk_id") WHERE "embedding_migrations"."status" in ('pending', 'running');
\ No newline at end of file
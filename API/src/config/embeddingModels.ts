@@ -0,0 +1,119 @@
+/**
+ * Registry of the local transformer models memories can be embedded with.
+ *
+ * Embeddings of different models live in different vector spaces (and often
+ * have different sizes), so a contract's index only ever holds vectors of one
+ * model. The model is pinned when the contract is deployed, see
+ * `EizenService.pinEmbeddingModel`.
+ */
+
+export const EMBEDDING_MODEL_IDS = [
+	"all-minilm-l6-v2",
+	"bge-small-en-v1.5",
+	"e5-small-v2",
+	"multilingual-e5-small",
+] as const;
+
+export type EmbeddingModelId = (typeof EMBEDDING_MODEL_IDS)[number];
+
+/**
+ * Settings of an embedding model.
+ *
+ * @interface EmbeddingModelConfig
+ * @property {string} name - Hugging Face model loaded by `@xenova/transformers`
+ * @property {number} dimensions - Size of the produced vectors
+ * @property {"mean" | "cls"} pooling - How token embeddings are combined into one vector
+ * @property {boolean} normalize - Whether vectors are L2-normalized
+ * @property {string} queryPrefix - Prepended to search queries, as the model was trained with
+ * @property {string} passagePrefix - Prepended to stored contents
+ * @property {boolean} multilingual - Whether the model handles other languages than English
+ */
+export interface EmbeddingModelConfig {
+	name: string;
+	dimensions: number;
+	pooling: "mean" | "cls";
+	normalize: boolean;
+	queryPrefix: string;
+	passagePrefix: string;
+	multilingual: boolean;
+}
+
+export const EMBEDDING_MODELS: Record<EmbeddingModelId, EmbeddingModelConfig> =
+	{
+		/** @see https://huggingface.co/Xenova/all-MiniLM-L6-v2 */
+		"all-minilm-l6-v2": {
+			name: "Xenova/all-MiniLM-L6-v2",
+			dimensions: 384,
+			pooling: "mean",
+			normalize: true,
+			queryPrefix: "",
+			passagePrefix: "",
+			multilingual: false,
+		},
+		/** @see https://huggingface.co/Xenova/bge-small-en-v1.5 */
+		"bge-small-en-v1.5": {
+			name: "Xenova/bge-small-en-v1.5",
+			dimensions: 384,
+			pooling: "cls",
+			normalize: true,
+			queryPrefix: "Represent this sentence for searching relevant passages: ",
+			passagePrefix: "",
+			multilingual: false,
+		},
+		/** @see https://huggingface.co/Xenova/e5-small-v2 */
+		"e5-small-v2": {
+			name: "Xenova/e5-small-v2",
+			dimensions: 384,
+			pooling: "mean",
+			normalize: true,
+			queryPrefix: "query: ",
+			passagePrefix: "passage: ",
+			multilingual: false,
+		},
+		/** @see https://huggingface.co/Xenova/multilingual-e5-small */
+		"multilingual-e5-small": {
+			name: "Xenova/multilingual-e5-small",
+			dimensions: 384,
+			pooling: "mean",
+			normalize: true,
+			queryPrefix: "query: ",
+			passagePrefix: "passage: ",
+			multilingual: true,
+		},
+	};
+
+/**
+ * Model of contracts deployed before models could be chosen, which were all
+ * embedded with all-MiniLM-L6-v2.
+ */
+export const LEGACY_EMBEDDING_MODEL: EmbeddingModelId = "all-minilm-l6-v2";
+
+/**
+ * Checks whether a string names a model of the registry.
+ */
+export function isEmbeddingModel(model: unknown): model is EmbeddingModelId {
+	return (
+		typeof model === "string" &&
+		(EMBEDDING_MODEL_IDS as readonly string[]).includes(model)
+	);
+}
+
+/**
+ * Model pinned to newly deployed contracts when none is requested.
+ *
+ * Read from EMBEDDING_MODEL, defaults to all-MiniLM-L6-v2.
+ *
+ * @throws {Error} When EMBEDDING_MODEL names a model that is not in the registry
+ */
+export function getDefaultEmbeddingModel(): EmbeddingModelId {
+	const model = process.env.EMBEDDING_MODEL;
+	if (!model) {
+		return LEGACY_EMBEDDING_MODEL;
+	}
+	if (!isEmbeddingModel(model)) {
+		throw new Error(
+			`Unknown EMBEDDING_MODEL "${model}", expected one of: ${EMBEDDING_MODEL_IDS.join(", ")}`,
+		);
+	}
+	return model;
+}
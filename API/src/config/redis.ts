@@ -1,3 +1,4 @@
+import type { CacheStore } from "eizendb";
 import { Redis } from "ioredis";
 
 /**
@@ -74,3 +75,52 @@ export async function initializeRedis(): Promise<Redis | undefined> {
 		return redis;
 	}
 }
+
+/**
+ * Wraps a Redis connection as a cache store for Eizen reads
+ *
+ * Redis errors never fail the request: reads fall back to the database and
+ * failed writes are skipped. A failed eviction is logged, since the entry may
+ * then stay stale until its TTL expires.
+ *
+ * @param redis - Connected Redis instance
+ * @param ttlSeconds - How long cached entries are kept
+ * @returns CacheStore backed by Redis
+ */
+export function createRedisCacheStore(
+	redis: Redis,
+	ttlSeconds: number,
+): CacheStore {
+	return {
+		async get(keys) {
+			if (keys.length === 0) return [];
+			try {
+				return await redis.mget(...keys);
+			} catch {
+				return keys.map(() => null);
+			}
+		},
+
+		async set(entries) {
+			if (entries.length === 0) return;
+			try {
+				const pipeline = redis.pipeline();
+				for (const [key, value] of entries) {
+					pipeline.set(key, value, "EX", ttlSeconds);
+				}
+				await pipeline.exec();
+			} catch {
+				// Caching is best effort
+			}
+		},
+
+		async delete(keys) {
+			if (keys.length === 0) return;
+			try {
+				await redis.del(...keys);
+			} catch (error) {
+				console.warn("⚠️ Failed to evict Eizen cache entries from Redis", error);
+			}
+		},
+	};
+}
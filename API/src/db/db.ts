@@ -2,6 +2,8 @@ import "dotenv/config";
 
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
+import * as embeddingMigrationSchema from "./schema/embeddingMigrations.js";
+import * as expiringContractSchema from "./schema/expiringContracts.js";
 import * as keySchema from "./schema/keys.js";
 import * as subscriptionSchema from "./schema/subscriptions.js";
 import * as userSchema from "./schema/users.js";
@@ -10,6 +12,8 @@ const schema = {
 	...userSchema,
 	...subscriptionSchema,
 	...keySchema,
+	...embeddingMigrationSchema,
+	...expiringContractSchema,
 };
 
 const connectionString = process.env.DATABASE_URL;
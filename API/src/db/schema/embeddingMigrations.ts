@@ -0,0 +1,72 @@
+import { relations, sql } from "drizzle-orm";
+import {
+	index,
+	integer,
+	pgEnum,
+	pgTable,
+	text,
+	timestamp,
+	uniqueIndex,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { usersTable } from "./users";
+
+export const migrationStatusEnum = pgEnum("migration_status", [
+	"pending",
+	"running",
+	"completed",
+	"failed",
+]);
+
+/**
+ * Embedding Migrations Table Schema
+ *
+ * @Notes
+ * - One row per re-embedding job, moving a contract's memories to a new contract
+ *   pinned to another embedding model
+ * - targetContractId is set once the new contract is deployed
+ * - processed/total track progress, in vectors (deleted memories included)
+ * - Only one pending or running migration per user, enforced by a partial unique
+ *   index; writes are refused meanwhile
+ */
+export const embeddingMigrationsTable = pgTable(
+	"embedding_migrations",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		clerkId: text("clerk_id")
+			.notNull()
+			.references(() => usersTable.clerkId, { onDelete: "cascade" }),
+		sourceContractId: text("source_contract_id").notNull(),
+		targetContractId: text("target_contract_id"),
+		embeddingModel: text("embedding_model").notNull(),
+		status: migrationStatusEnum("status").notNull().default("pending"),
+		total: integer("total").notNull().default(0),
+		processed: integer("processed").notNull().default(0),
+		error: text("error"),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+	},
+	(table) => ({
+		clerkIdIdx: index("embedding_migrations_clerk_idx").on(table.clerkId),
+		statusIdx: index("embedding_migrations_status_idx").on(table.status),
+		activeClerkIdIdx: uniqueIndex("embedding_migrations_active_clerk_idx")
+			.on(table.clerkId)
+			.where(sql`${table.status} in ('pending', 'running')`),
+	}),
+);
+
+// Embedding migrations ---> User Relationship (many-to-one)
+export const embeddingMigrationRelations = relations(
+	embeddingMigrationsTable,
+	({ one }) => ({
+		user: one(usersTable, {
+			fields: [embeddingMigrationsTable.clerkId],
+			references: [usersTable.clerkId],
+		}),
+	}),
+);
@@ -0,0 +1,34 @@
+import { relations } from "drizzle-orm";
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { usersTable } from "./users";
+
+/**
+ * Expiring Contracts Table Schema
+ *
+ * @Notes
+ * - One row per contract holding memories with an expiry, swept at a regular
+ *   interval until none is left (see ExpiryService)
+ * - markedAt is bumped whenever the contract receives an expiring memory, so a
+ *   sweep only removes rows it saw every expiring memory of
+ * - Kept in the database so that sweeps carry on after a restart
+ */
+export const expiringContractsTable = pgTable("expiring_contracts", {
+	contractId: text("contract_id").primaryKey(),
+	clerkId: text("clerk_id")
+		.notNull()
+		.references(() => usersTable.clerkId, { onDelete: "cascade" }),
+	markedAt: timestamp("marked_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+});
+
+// Expiring contracts ---> User Relationship (many-to-one)
+export const expiringContractRelations = relations(
+	expiringContractsTable,
+	({ one }) => ({
+		user: one(usersTable, {
+			fields: [expiringContractsTable.clerkId],
+			references: [usersTable.clerkId],
+		}),
+	}),
+);
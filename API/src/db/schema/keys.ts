@@ -16,6 +16,8 @@ import { usersTable } from "./users";
  * - One user can have multiple API keys (1:N relationship)
  * - Each key can be independently activated/deactivated
  * - Keys link to the the Arweave wallet used to deploy its contract
+ * - activeContractId overrides the contract named in the key's token once its
+ *   memories were migrated to a new contract (see embeddingMigrations)
  */
 export const keysTable = pgTable(
 	"keys",
@@ -26,6 +28,7 @@ export const keysTable = pgTable(
 			.references(() => usersTable.clerkId, { onDelete: "cascade" }),
 		instanceKeyHash: text("instance_key_hash").notNull(),
 		arweaveWalletAddress: text("arweave_wallet_address"),
+		activeContractId: text("active_contract_id"),
 		isActive: boolean("is_active").notNull().default(false),
 		lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
 	},
@@ -52,7 +52,11 @@ export const verifyContractHashMiddleware = async (
 		return;
 	}
 
-	req.contract = payload;
+	// Keys whose memories were migrated to a new contract are served from it
+	req.contract = {
+		...payload,
+		contractId: keyRecord.activeContractId ?? payload.contractId,
+	};
 
 	// Update the last used timestamp for the key
 	await db
@@ -0,0 +1,31 @@
+import type { NextFunction, Request, Response } from "express";
+import { getActiveMigration } from "../services/MigrationService.js";
+import { errorResponse } from "../utils/responses.js";
+
+/**
+ * Middleware refusing memory writes while the user's memories are being
+ * re-embedded: the migration copies the contract as it was when it started,
+ * later writes would be lost on the switch. Reads keep working.
+ *
+ * Must run after verifyContractHashMiddleware.
+ */
+export const rejectDuringMigration = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	const userId = req.contract?.userId;
+	if (userId && (await getActiveMigration(userId))) {
+		res
+			.status(409)
+			.json(
+				errorResponse(
+					"Migration in progress",
+					"Memories can't be changed until the embedding model migration completes",
+				),
+			);
+		return;
+	}
+
+	next();
+};
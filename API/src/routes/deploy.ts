@@ -1,4 +1,8 @@
 import { type Request, type Response, Router } from "express";
+import {
+	EMBEDDING_MODEL_IDS,
+	isEmbeddingModel,
+} from "../config/embeddingModels.js";
 import { auth } from "../middlewares/auth.js";
 import { deployForUser } from "../services/DeployService.js";
 import { errorResponse, successResponse } from "../utils/responses.js";
@@ -16,11 +20,16 @@ router.use(auth); // Apply auth middleware to all routes
  * - Frontend polls this endpoint to check deployment status
  * - User receives contract ID and hash fingerprint for verification
  *
+ * The optional `embeddingModel` body field picks the model memories of the
+ * contract are embedded with (all-minilm-l6-v2, bge-small-en-v1.5, e5-small-v2
+ * or multilingual-e5-small, default: EMBEDDING_MODEL). It is pinned to the
+ * contract and can't be changed afterwards.
+ *
  * @route POST /deploy/
  *
  * @middleware auth - Validates JWT token and extracts user ID
  * @returns {201} Success with contract deployment data
- * @returns {400} Client error (invalid request, subscription issues, duplicate deployment)
+ * @returns {400} Client error (invalid request, unknown embedding model, subscription issues, duplicate deployment)
  * @returns {500} Server error (deployment failure, database issues)
  *
  * @example Success Response:
@@ -33,7 +42,8 @@ router.use(auth); // Apply auth middleware to all routes
  *     "contractHashFingerprint": "hash_fingerprint_def456",
  *     "userId": "user_clerkId789",
  *     "deployedAt": "2025-06-26T10:30:00.000Z",
- *     "keyId": "key_record_id_123"
+ *     "keyId": "key_record_id_123",
+ *     "embeddingModel": "all-minilm-l6-v2"
  *   }
  */
 router.post("/", async (req: Request, res: Response) => {
@@ -48,9 +58,17 @@ router.post("/", async (req: Request, res: Response) => {
 			return;
 		}
 
+		const { embeddingModel } = req.body ?? {};
+		if (embeddingModel !== undefined && !isEmbeddingModel(embeddingModel)) {
+			res.status(400).json({
+				message: `Unknown embedding model, expected one of: ${EMBEDDING_MODEL_IDS.join(", ")}`,
+			});
+			return;
+		}
+
 		// Delegate to the deployment service for the complete workflow
 		// This handles all validation, deployment, and post-processing steps
-		const deploymentResult = await deployForUser(userId);
+		const deploymentResult = await deployForUser(userId, embeddingModel);
 
 		if (!deploymentResult.success) {
 			res.status(400).json({
@@ -1,24 +1,66 @@
-import { type Request, type Response, Router } from "express";
+import express, { type Request, type Response, Router } from "express";
+import httpErrors from "http-errors";
 import { verifyContractHashMiddleware } from "../middlewares/contract.js";
+import { rejectDuringMigration } from "../middlewares/migration.js";
 import { validateData } from "../middlewares/validate.js";
-import { createMemorySchema, searchMemorySchema } from "../schemas/memory.js";
+import {
+	type BatchCreateMemory,
+	batchCreateMemorySchema,
+	collectionNameSchema,
+	createCollectionSchema,
+	createLinkSchema,
+	createMemorySchema,
+	linkTypeSchema,
+	listMemoriesSchema,
+	memoryGraphSchema,
+	migrateMemoriesSchema,
+	searchMemorySchema,
+	updateMemorySchema,
+} from "../schemas/memory.js";
+import { markForConsolidation } from "../services/ConsolidationService.js";
 import { EizenService } from "../services/EizenService.js";
+import { hasExpiry, markForExpirySweep } from "../services/ExpiryService.js";
 import { MemoryService } from "../services/MemoryService.js";
+import {
+	type EmbeddingMigration,
+	getMigrationStatus,
+	startMigration,
+} from "../services/MigrationService.js";
 import {
 	checkQuota,
 	incrementQuotaUsage,
+	releaseQuota,
+	reserveQuota,
 	updateLastUsedAt,
 } from "../services/SubscriptionService.js";
-import { errorResponse, successResponse } from "../utils/responses.js";
+import { MIN_SECRET_LENGTH } from "../utils/encryption.js";
+import {
+	errorResponse,
+	successResponse,
+	validationErrorResponse,
+} from "../utils/responses.js";
 
 //  User-facing semantic memory API
 
 const router = Router();
 
+// Largest snapshot accepted by POST /memories/import
+const SNAPSHOT_SIZE_LIMIT = "100mb";
+
+// Name of the contract's main collection, its memories live in the unprefixed index
+const DEFAULT_COLLECTION = "default";
+
+// Header carrying the secret the memory metadata key is derived from, never stored
+const MEMORY_SECRET_HEADER = "x-memory-secret";
+
 // TODO: Replace this with actual user lookup from SQL database
 // This will be implemented when payment gateway integration is added
+// Throws 400 for an invalid collection name and 404 for a collection that was never created
+// Requests sending X-Memory-Secret get a service reading and writing encrypted metadata,
+// 400 for a secret too short and 403 for one the contract's metadata isn't encrypted with
 async function getUserMemoryService(
 	req: Request,
+	collection?: unknown,
 ): Promise<MemoryService | undefined> {
 	// TODO: Extract API key from request headers
 	// const apiKey = req.headers['x-api-key'] as string;
@@ -36,14 +78,75 @@ async function getUserMemoryService(
 		return;
 	}
 
-	const eizenService = await EizenService.forContract(contractId);
+	if (collection === undefined || collection === DEFAULT_COLLECTION) {
+		const eizenService = await EizenService.forContract(contractId);
+		await unlockMetadata(req, eizenService);
+		return new MemoryService(eizenService);
+	}
+
+	const name = collectionNameSchema.safeParse(collection);
+	if (!name.success) {
+		throw new httpErrors.BadRequest(
+			name.error.issues[0]?.message ?? "Invalid collection name",
+		);
+	}
+	const contractService = await EizenService.forContract(contractId);
+	if (!(await contractService.listCollections()).includes(name.data)) {
+		throw new httpErrors.NotFound(`No collection named "${name.data}"`);
+	}
+
+	const eizenService = await EizenService.forContract(contractId, name.data);
+	await unlockMetadata(req, eizenService);
 	return new MemoryService(eizenService);
 }
 
+// Unlocks the service with the secret of the request, if it sent one
+async function unlockMetadata(
+	req: Request,
+	eizenService: EizenService,
+): Promise<void> {
+	const secret = req.headers[MEMORY_SECRET_HEADER];
+	if (secret === undefined) return;
+
+	if (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH) {
+		throw new httpErrors.BadRequest(
+			`${MEMORY_SECRET_HEADER} must be at least ${MIN_SECRET_LENGTH} characters`,
+		);
+	}
+	if (!(await eizenService.unlock(secret))) {
+		throw new httpErrors.Forbidden(
+			"The memories of this contract are encrypted with another secret",
+		);
+	}
+}
+
+// Public view of a migration, without the internal user and contract IDs
+function toMigrationStatus(migration: EmbeddingMigration) {
+	return {
+		id: migration.id,
+		embeddingModel: migration.embeddingModel,
+		status: migration.status,
+		processed: migration.processed,
+		total: migration.total,
+		error: migration.error,
+		startedAt: migration.createdAt,
+		completedAt: migration.completedAt,
+	};
+}
+
 /**
  * POST /memories/insert
  * Create a new memory from text content
  * This endpoint converts text to embeddings and stores in Eizen
+ * Content is embedded with the model pinned to the contract, an optional
+ * "model" field naming another one is refused with 409
+ * Memories go to the "default" collection unless "collection" names one
+ * created with POST /memories/collections (404 otherwise)
+ * A near-identical memory (cosine similarity above "dedupeThreshold") is handled
+ * per "dedupe": reject (409), merge into it (200), link as duplicateOf or off (201)
+ * Stored memories it likely contradicts are listed in "contradictions" of the
+ * response, and per "contradictions": flag (linked as contradicts), supersede
+ * (hidden from search behind the new memory) or off (not checked)
  *
  * Request body:
  * {
@@ -54,12 +157,14 @@ async function getUserMemoryService(
  *     "tags": ["preference", "color"],
  *     "timestamp": "2025-06-06T14:30:00Z",
  *     "client": "cursor"
- *   }
+ *   },
+ *   "collection": "work"
  * }
  */
 router.post(
 	"/insert",
 	verifyContractHashMiddleware,
+	rejectDuringMigration,
 	validateData(createMemorySchema),
 	async (req, res) => {
 		try {
@@ -88,7 +193,10 @@ router.post(
 				return;
 			}
 
-			const memoryService = await getUserMemoryService(req);
+			const memoryService = await getUserMemoryService(
+				req,
+				req.body.collection,
+			);
 			if (!memoryService) {
 				res
 					.status(500)
@@ -105,6 +213,18 @@ router.post(
 			const result = await memoryService.createMemory(req.body);
 			await updateLastUsedAt(clerkId);
 
+			// Rejected and merged duplicates store nothing, so they use no quota
+			if (result.duplicate?.action === "rejected") {
+				res.status(409).json(errorResponse("Duplicate memory", result.message));
+				return;
+			}
+			if (result.duplicate?.action === "merged") {
+				res
+					.status(200)
+					.json(successResponse(result, "Memory merged into a duplicate"));
+				return;
+			}
+
 			// Update quota usage after successful memory creation
 			const quotaUpdate = await incrementQuotaUsage(clerkId, 1);
 			if (!quotaUpdate.success) {
@@ -115,12 +235,24 @@ router.post(
 				// Note: We don't fail the request since the memory was created successfully
 				// but we log the error for monitoring
 			}
+			if (req.contract) {
+				markForConsolidation(req.contract.contractId, clerkId);
+				if (hasExpiry(req.body.metadata)) {
+					await markForExpirySweep(req.contract.contractId, clerkId);
+				}
+			}
 
 			res
 				.status(201)
 				.json(successResponse(result, "Memory created successfully"));
 		} catch (error) {
 			console.error("Memory creation error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to create memory", error.message));
+				return;
+			}
 			res
 				.status(500)
 				.json(
@@ -133,6 +265,127 @@ router.post(
 	},
 );
 
+/**
+ * POST /memories/batch
+ * Create many memories in one request
+ * Contents are embedded in one pass and stored in Eizen with grouped writes.
+ * Each memory is checked for near-duplicates by its own `dedupe` mode.
+ * Quota for the whole batch is reserved up front and refunded for the items
+ * that stored nothing: failed ones, and rejected or merged duplicates.
+ *
+ * Request body:
+ * {
+ *   "memories": [
+ *     { "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] } },
+ *     { "content": "User works remotely on Fridays", "dedupe": "merge" }
+ *   ],
+ *   "collection": "work"
+ * }
+ */
+router.post(
+	"/batch",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	validateData(batchCreateMemorySchema),
+	async (req, res) => {
+		const clerkId = req.contract?.userId;
+		if (!clerkId) {
+			res
+				.status(401)
+				.json(
+					errorResponse("Authentication failed", "Unable to identify user"),
+				);
+			return;
+		}
+
+		// Reserve quota for the whole batch in one atomic update
+		const count = req.body.memories.length;
+		const reservation = await reserveQuota(clerkId, count);
+		if (!reservation.success) {
+			res
+				.status(429)
+				.json(
+					errorResponse(
+						"Quota exceeded",
+						reservation.error || "You have reached your memory insertion limit",
+					),
+				);
+			return;
+		}
+
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.body.collection,
+			);
+			if (!memoryService) {
+				await releaseQuota(clerkId, count);
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+
+			const result = await memoryService.createMemories(req.body);
+			await updateLastUsedAt(clerkId);
+
+			if (result.created > 0 && req.contract) {
+				markForConsolidation(req.contract.contractId, clerkId);
+				if (
+					req.body.memories.some(
+						(memory: BatchCreateMemory["memories"][number]) =>
+							hasExpiry(memory.metadata),
+					)
+				) {
+					await markForExpirySweep(req.contract.contractId, clerkId);
+				}
+			}
+
+			// Refund the quota of memories that were not stored
+			if (result.created < count) {
+				const refund = await releaseQuota(clerkId, count - result.created);
+				if (!refund.success) {
+					console.error(
+						"Failed to refund quota after batch creation:",
+						refund.error,
+					);
+				}
+			}
+
+			res
+				.status(result.success ? 201 : 207)
+				.json(
+					successResponse(
+						result,
+						`Created ${result.created} of ${count} memories`,
+					),
+				);
+		} catch (error) {
+			console.error("Batch memory creation error:", error);
+			await releaseQuota(clerkId, count);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to create memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to create memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
 /**
  * GET /memories/search
  * Search for memories using natural language query
@@ -141,14 +394,30 @@ router.post(
  * Query parameters:
  * - query: The search text
  * - k: Number of results (optional, default 10)
+ * - mode: semantic, keyword or hybrid (optional, default semantic)
+ * - rerank: "true" to rerank results with a cross-encoder (optional)
  * - filters: Optional JSON string with search filters
+ * - ranking: Optional JSON string with ranking weights (similarity, recency, importance, halfLifeDays)
+ * - expand: Hops of links followed from the results, 0 to 3 (optional, default 0)
+ * - model: Embedding model the caller expects, 409 if the contract is pinned to another (optional)
+ * - collection: Collection to search, 404 if it was never created (optional, default "default")
  */
 router.get(
 	"/search",
 	verifyContractHashMiddleware,
 	async (req: Request, res: Response): Promise<void> => {
 		try {
-			const { query, k, filters } = req.query;
+			const {
+				query,
+				k,
+				mode,
+				rerank,
+				filters,
+				ranking,
+				expand,
+				model,
+				collection,
+			} = req.query;
 
 			if (!query || typeof query !== "string") {
 				res
@@ -166,13 +435,22 @@ router.get(
 			const searchRequest = {
 				query,
 				k: k ? Number.parseInt(k as string, 10) : 10,
+				mode: mode || undefined,
+				rerank: rerank === "true",
 				filters: filters ? JSON.parse(filters as string) : undefined,
+				ranking: ranking ? JSON.parse(ranking as string) : undefined,
+				expand: expand ? Number.parseInt(expand as string, 10) : undefined,
+				model: model || undefined,
+				collection: collection || undefined,
 			};
 
 			// Validate the search request
 			const validatedRequest = searchMemorySchema.parse(searchRequest);
 
-			const memoryService = await getUserMemoryService(req);
+			const memoryService = await getUserMemoryService(
+				req,
+				validatedRequest.collection,
+			);
 			if (!memoryService) {
 				res
 					.status(500)
@@ -204,6 +482,13 @@ router.get(
 				return;
 			}
 
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to search memories", error.message));
+				return;
+			}
+
 			res
 				.status(500)
 				.json(
@@ -225,10 +510,15 @@ router.get(
  * {
  *   "query": "favorite color preference",
  *   "k": 5,
+ *   "mode": "hybrid",
+ *   "rerank": true,
  *   "filters": {
  *     "tags": ["preference", "color"],
  *     "importance_min": 5
- *   }
+ *   },
+ *   "ranking": { "similarity": 0.6, "recency": 0.2, "importance": 0.2, "halfLifeDays": 30 },
+ *   "expand": 1,
+ *   "collection": "work"
  * }
  */
 router.post(
@@ -237,7 +527,10 @@ router.post(
 	validateData(searchMemorySchema),
 	async (req, res) => {
 		try {
-			const memoryService = await getUserMemoryService(req);
+			const memoryService = await getUserMemoryService(
+				req,
+				req.body.collection,
+			);
 			if (!memoryService) {
 				res
 					.status(500)
@@ -256,6 +549,12 @@ router.post(
 			);
 		} catch (error) {
 			console.error("Memory search error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to search memories", error.message));
+				return;
+			}
 			res
 				.status(500)
 				.json(
@@ -271,13 +570,17 @@ router.post(
 /**
  * GET /memories/search/:id
  * Get a specific memory by its vector ID
+ * IDs are per collection, pass ?collection= for memories outside "default"
  */
 router.get(
 	"/search/:id",
 	verifyContractHashMiddleware,
 	async (req: Request, res: Response): Promise<void> => {
 		try {
-			const memoryService = await getUserMemoryService(req);
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
 			if (!memoryService) {
 				res
 					.status(500)
@@ -328,6 +631,12 @@ router.get(
 			res.json(successResponse(memory, "Memory retrieved successfully"));
 		} catch (error) {
 			console.error("Memory get error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to retrieve memory", error.message));
+				return;
+			}
 			res
 				.status(500)
 				.json(
@@ -341,28 +650,1115 @@ router.get(
 );
 
 /**
- * GET /memories
- * Get memory statistics and database info
+ * PATCH /memories/:id
+ * Update a specific memory in place
+ * Changed content is re-embedded and metadata is merged into the existing one
+ * IDs are per collection, pass ?collection= for memories outside "default"
+ *
+ * Request body:
+ * {
+ *   "content": "User's favorite color is green",
+ *   "metadata": {
+ *     "importance": 8
+ *   }
+ * }
  */
-router.get("/", verifyContractHashMiddleware, async (req, res) => {
-	try {
-		const memoryService = await getUserMemoryService(req);
-		if (!memoryService) {
+router.patch(
+	"/:id",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	validateData(updateMemorySchema),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const result = await memoryService.updateMemory(memoryId, req.body);
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			const clerkId = req.contract?.userId;
+			if (clerkId) {
+				await updateLastUsedAt(clerkId);
+				if (req.contract && hasExpiry(req.body.metadata)) {
+					await markForExpirySweep(req.contract.contractId, clerkId);
+				}
+			}
+
+			res.json(successResponse(result, "Memory updated successfully"));
+		} catch (error) {
+			console.error("Memory update error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to update memory", error.message));
+				return;
+			}
 			res
 				.status(500)
 				.json(
 					errorResponse(
-						"Memory service not available",
-						"Unable to initialize memory service",
+						"Failed to update memory",
+						error instanceof Error ? error.message : "Unknown error",
 					),
 				);
-			return;
 		}
-		const stats = await memoryService.getStats();
+	},
+);
 
-		res.json(successResponse(stats, "Memory statistics retrieved"));
-	} catch (error) {
-		console.error("Memory stats error:", error);
+/**
+ * DELETE /memories/:id
+ * Delete a specific memory by its vector ID
+ *
+ * Query parameters:
+ * - hard: "true" to also remove the memory from the vector graph, works on
+ *   memories already soft deleted (optional)
+ * - collection: Collection holding the memory (optional, default "default")
+ */
+router.delete(
+	"/:id",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const hard = req.query.hard === "true";
+			const result = await memoryService.deleteMemory(memoryId, hard);
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(result, "Memory deleted successfully"));
+		} catch (error) {
+			console.error("Memory delete error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to delete memory", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to delete memory",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/compact
+ * Remove every deleted memory of a collection from the vector graph
+ * Soft-deleted memories stay in the graph until compacted or hard deleted
+ *
+ * Query parameters:
+ * - collection: Collection to compact (optional, default "default")
+ */
+router.post(
+	"/compact",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+
+			const result = await memoryService.compactMemories();
+			res.json(successResponse(result, "Memories compacted successfully"));
+		} catch (error) {
+			console.error("Memory compaction error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to compact memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to compact memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/:id/links
+ * Link a memory to another memory of the same collection
+ * The link is stored on both memories and followed in both directions
+ *
+ * Request body:
+ * {
+ *   "target": 98,
+ *   "type": "derived_from"
+ * }
+ *
+ * Query parameters:
+ * - collection: Collection holding both memories (optional, default "default")
+ */
+router.post(
+	"/:id/links",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	validateData(createLinkSchema),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const result = await memoryService.linkMemories(memoryId, req.body);
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memories found with IDs: ${memoryId} and ${req.body.target}`,
+						),
+					);
+				return;
+			}
+
+			res.status(201).json(successResponse(result, "Memories linked"));
+		} catch (error) {
+			console.error("Memory link error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to link memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to link memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/:id/links
+ * Get the memories linked to a memory, each with how it was reached in "link"
+ *
+ * Query parameters:
+ * - depth: Hops of links to follow, 1 to 3 (optional, default 1)
+ * - collection: Collection holding the memory (optional, default "default")
+ */
+router.get(
+	"/:id/links",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+			const depth = req.query.depth
+				? Number.parseInt(req.query.depth as string, 10)
+				: 1;
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+			if (Number.isNaN(depth) || depth < 1 || depth > 3) {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid depth",
+							"Depth must be a number from 1 to 3",
+						),
+					);
+				return;
+			}
+
+			const linked = await memoryService.getLinkedMemories(memoryId, depth);
+			if (!linked) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(
+					{ memoryId, memories: linked },
+					`Found ${linked.length} linked memories`,
+				),
+			);
+		} catch (error) {
+			console.error("Memory links error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to get linked memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to get linked memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * DELETE /memories/:id/links/:target
+ * Remove the links from a memory to another one
+ *
+ * Query parameters:
+ * - type: Only remove links of this type (optional, default every type)
+ * - collection: Collection holding both memories (optional, default "default")
+ */
+router.delete(
+	"/:id/links/:target",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+			const target = Number.parseInt(req.params.target as string, 10);
+
+			if (Number.isNaN(memoryId) || Number.isNaN(target)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory IDs must be numbers"),
+					);
+				return;
+			}
+
+			const type = linkTypeSchema.optional().safeParse(req.query.type);
+			if (!type.success) {
+				res.status(400).json(validationErrorResponse(type.error.errors));
+				return;
+			}
+
+			const removed = await memoryService.unlinkMemories(
+				memoryId,
+				target,
+				type.data,
+			);
+			if (removed === 0) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Link not found",
+							`Memory ${memoryId} has no link to memory ${target}`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(
+					{ memoryId, target, removed },
+					`Removed ${removed} links`,
+				),
+			);
+		} catch (error) {
+			console.error("Memory unlink error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to unlink memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to unlink memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/graph
+ * Get the most recent memories having links, and the links between them
+ * Used by the dashboard graph view
+ *
+ * Query parameters:
+ * - limit: Maximum number of memories, 1 to 500 (optional, default 200)
+ * - collection: Collection to read (optional, default "default")
+ *
+ * Response:
+ * ```json
+ * {
+ *   "success": true,
+ *   "message": "Graph of 2 memories and 1 links",
+ *   "data": {
+ *     "nodes": [{ "id": 98, "content": "...", "metadata": { ... } }, { "id": 123, ... }],
+ *     "edges": [{ "source": 123, "target": 98, "type": "derived_from" }]
+ *   }
+ * }
+ * ```
+ */
+router.get(
+	"/graph",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { limit, collection } = req.query;
+
+			const graphRequest = memoryGraphSchema.safeParse({
+				limit: limit ? Number.parseInt(limit as string, 10) : undefined,
+				collection: collection || undefined,
+			});
+			if (!graphRequest.success) {
+				res
+					.status(400)
+					.json(validationErrorResponse(graphRequest.error.errors));
+				return;
+			}
+
+			const memoryService = await getUserMemoryService(
+				req,
+				graphRequest.data.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const graph = await memoryService.getMemoryGraph(graphRequest.data);
+
+			res.json(
+				successResponse(
+					graph,
+					`Graph of ${graph.nodes.length} memories and ${graph.edges.length} links`,
+				),
+			);
+		} catch (error) {
+			console.error("Memory graph error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to get memory graph", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to get memory graph",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/export
+ * Download every memory of the user as a portable Eizen snapshot
+ * The binary file holds embeddings, metadata and the search graph, and can be
+ * restored with POST /memories/import into another contract
+ * Only the "default" collection is exported unless ?collection= names another
+ */
+router.get(
+	"/export",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(
+				req,
+				req.query.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+
+			const snapshot = await memoryService.exportMemories();
+			const date = new Date().toISOString().slice(0, 10);
+
+			res
+				.status(200)
+				.type("application/octet-stream")
+				.attachment(`context0-memories-${date}.eizen`)
+				.send(Buffer.from(snapshot));
+		} catch (error) {
+			console.error("Memory export error:", error);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to export memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to export memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/import
+ * Restore a snapshot downloaded from GET /memories/export
+ * Only works on a collection without memories: "default" unless ?collection=
+ * names another. Quota is reserved for the memories of the snapshot that are
+ * not deleted. Snapshots made with another embedding model or secret than the
+ * contract's are refused with 409.
+ *
+ * Request body: the snapshot file, sent as application/octet-stream
+ */
+router.post(
+	"/import",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	express.raw({ type: "application/octet-stream", limit: SNAPSHOT_SIZE_LIMIT }),
+	async (req: Request, res: Response): Promise<void> => {
+		const clerkId = req.contract?.userId;
+		if (!clerkId) {
+			res
+				.status(401)
+				.json(
+					errorResponse("Authentication failed", "Unable to identify user"),
+				);
+			return;
+		}
+
+		if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+			res
+				.status(400)
+				.json(
+					errorResponse(
+						"Invalid snapshot",
+						"Send the snapshot file as application/octet-stream",
+					),
+				);
+			return;
+		}
+
+		let memories: number;
+		try {
+			memories = EizenService.snapshotInfo(req.body).visible;
+		} catch (error) {
+			res
+				.status(400)
+				.json(
+					errorResponse(
+						"Invalid snapshot",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+			return;
+		}
+
+		let memoryService: MemoryService | undefined;
+		try {
+			memoryService = await getUserMemoryService(req, req.query.collection);
+		} catch (error) {
+			if (!httpErrors.isHttpError(error)) throw error;
+			res
+				.status(error.statusCode)
+				.json(errorResponse("Failed to import memories", error.message));
+			return;
+		}
+		if (!memoryService) {
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Memory service not available",
+						"Unable to initialize memory service",
+					),
+				);
+			return;
+		}
+
+		const stats = await memoryService.getStats();
+		if (stats.totalMemories > 0) {
+			res
+				.status(409)
+				.json(
+					errorResponse(
+						"Contract not empty",
+						"Snapshots can only be imported into a contract without memories",
+					),
+				);
+			return;
+		}
+
+		const reservation = await reserveQuota(clerkId, memories);
+		if (!reservation.success) {
+			res
+				.status(429)
+				.json(
+					errorResponse(
+						"Quota exceeded",
+						reservation.error || "You have reached your memory insertion limit",
+					),
+				);
+			return;
+		}
+
+		try {
+			const result = await memoryService.importMemories(req.body);
+			await updateLastUsedAt(clerkId);
+
+			res.status(201).json(successResponse(result, result.message));
+		} catch (error) {
+			console.error("Memory import error:", error);
+			await releaseQuota(clerkId, memories);
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to import memories", error.message));
+				return;
+			}
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to import memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/collections
+ * Create a named collection of memories, e.g. "work" or one per project
+ * Each collection has its own search index within the user's contract, so its
+ * memories never compete with the others in searches. Pass its name as
+ * "collection" when inserting or searching.
+ *
+ * Request body:
+ * {
+ *   "name": "work"
+ * }
+ */
+router.post(
+	"/collections",
+	verifyContractHashMiddleware,
+	rejectDuringMigration,
+	validateData(createCollectionSchema),
+	async (req, res) => {
+		try {
+			const contractId = req.contract?.contractId;
+			if (!contractId) {
+				res
+					.status(401)
+					.json(
+						errorResponse("Authentication failed", "Unable to identify user"),
+					);
+				return;
+			}
+
+			const { name } = req.body;
+			const eizenService = await EizenService.forContract(contractId);
+			const created =
+				name !== DEFAULT_COLLECTION &&
+				(await eizenService.createCollection(name));
+			if (!created) {
+				res
+					.status(409)
+					.json(
+						errorResponse(
+							"Collection not created",
+							`A collection named "${name}" already exists`,
+						),
+					);
+				return;
+			}
+
+			res
+				.status(201)
+				.json(successResponse({ name }, "Collection created successfully"));
+		} catch (error) {
+			console.error("Collection creation error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to create collection",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/collections
+ * List the collections of the user's contract, "default" first
+ */
+router.get(
+	"/collections",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const contractId = req.contract?.contractId;
+			if (!contractId) {
+				res
+					.status(401)
+					.json(
+						errorResponse("Authentication failed", "Unable to identify user"),
+					);
+				return;
+			}
+
+			const eizenService = await EizenService.forContract(contractId);
+			const collections = [
+				DEFAULT_COLLECTION,
+				...(await eizenService.listCollections()),
+			];
+
+			res.json(
+				successResponse(collections, `Found ${collections.length} collections`),
+			);
+		} catch (error) {
+			console.error("Collection list error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to list collections",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/migrations
+ * Re-embed every memory with another embedding model
+ * The job runs in the background: memories are copied with the same IDs into a
+ * new contract pinned to the new model, then the API key switches to it. Searches
+ * keep using the current contract until then, writes are refused with 409.
+ * Progress is reported by GET /memories/migrations/status
+ *
+ * Request body:
+ * {
+ *   "embeddingModel": "bge-small-en-v1.5"
+ * }
+ */
+router.post(
+	"/migrations",
+	verifyContractHashMiddleware,
+	validateData(migrateMemoriesSchema),
+	async (req, res) => {
+		try {
+			const contract = req.contract;
+			if (!contract) {
+				res
+					.status(401)
+					.json(
+						errorResponse("Authentication failed", "Unable to identify user"),
+					);
+				return;
+			}
+
+			const result = await startMigration(
+				contract.userId,
+				contract.contractId,
+				req.body.embeddingModel,
+			);
+			if (!result.success || !result.migration) {
+				res
+					.status(409)
+					.json(
+						errorResponse(
+							"Migration not started",
+							result.error || "Failed to start migration",
+						),
+					);
+				return;
+			}
+
+			res
+				.status(202)
+				.json(
+					successResponse(
+						toMigrationStatus(result.migration),
+						"Migration started",
+					),
+				);
+		} catch (error) {
+			console.error("Migration start error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to start migration",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/migrations/status
+ * Check the progress of the latest embedding model migration
+ *
+ * @example Response - Migration running:
+ * ```json
+ * {
+ *   "success": true,
+ *   "message": "Migration status retrieved",
+ *   "data": {
+ *     "hasMigration": true,
+ *     "id": "0b7c...",
+ *     "embeddingModel": "bge-small-en-v1.5",
+ *     "status": "running",
+ *     "processed": 150,
+ *     "total": 420,
+ *     "startedAt": "2025-06-26T10:30:00.000Z"
+ *   }
+ * }
+ * ```
+ */
+router.get(
+	"/migrations/status",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.contract?.userId;
+			if (!userId) {
+				res
+					.status(401)
+					.json(
+						errorResponse("Authentication failed", "Unable to identify user"),
+					);
+				return;
+			}
+
+			const status = await getMigrationStatus(userId);
+			if (status.hasMigration && status.migration) {
+				res.status(200).json(
+					successResponse(
+						{
+							hasMigration: true,
+							...toMigrationStatus(status.migration),
+						},
+						"Migration status retrieved",
+					),
+				);
+			} else {
+				res
+					.status(200)
+					.json(successResponse({ hasMigration: false }, "No migration found"));
+			}
+		} catch (error) {
+			console.error("Error checking migration status:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to check migration status",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories
+ * Browse stored memories page by page, deleted memories are skipped
+ *
+ * Query parameters:
+ * - cursor: nextCursor of the previous page (optional, first page if omitted)
+ * - limit: Memories per page (optional, default 20, max 100)
+ * - sort: created (newest first) or importance (optional, default created)
+ * - filters: Optional JSON string with the same filters as search
+ * - collection: Collection to list (optional, default "default")
+ *
+ * @example Response:
+ * ```json
+ * {
+ *   "success": true,
+ *   "message": "Listed 20 memories",
+ *   "data": {
+ *     "memories": [{ "id": 41, "content": "User's favorite color is blue", "metadata": { ... } }],
+ *     "nextCursor": "22"
+ *   }
+ * }
+ * ```
+ */
+router.get(
+	"/",
+	verifyContractHashMiddleware,
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { cursor, limit, sort, filters, collection } = req.query;
+
+			const listRequest = listMemoriesSchema.safeParse({
+				cursor: cursor || undefined,
+				limit: limit ? Number.parseInt(limit as string, 10) : undefined,
+				sort: sort || undefined,
+				filters: filters ? JSON.parse(filters as string) : undefined,
+				collection: collection || undefined,
+			});
+			if (!listRequest.success) {
+				res.status(400).json(validationErrorResponse(listRequest.error.errors));
+				return;
+			}
+
+			const memoryService = await getUserMemoryService(
+				req,
+				listRequest.data.collection,
+			);
+			if (!memoryService) {
+				res
+					.status(500)
+					.json(
+						errorResponse(
+							"Memory service not available",
+							"Unable to initialize memory service",
+						),
+					);
+				return;
+			}
+			const page = await memoryService.listMemories(listRequest.data);
+
+			res.json(
+				successResponse(page, `Listed ${page.memories.length} memories`),
+			);
+		} catch (error) {
+			console.error("Memory list error:", error);
+
+			if (error instanceof SyntaxError) {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid filters parameter",
+							"Filters must be valid JSON",
+						),
+					);
+				return;
+			}
+
+			if (httpErrors.isHttpError(error)) {
+				res
+					.status(error.statusCode)
+					.json(errorResponse("Failed to list memories", error.message));
+				return;
+			}
+
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to list memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/stats
+ * Get memory statistics and database info
+ * Pass ?collection= for the statistics of a collection other than "default"
+ */
+router.get("/stats", verifyContractHashMiddleware, async (req, res) => {
+	try {
+		const memoryService = await getUserMemoryService(req, req.query.collection);
+		if (!memoryService) {
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Memory service not available",
+						"Unable to initialize memory service",
+					),
+				);
+			return;
+		}
+		const stats = await memoryService.getStats();
+
+		res.json(successResponse(stats, "Memory statistics retrieved"));
+	} catch (error) {
+		console.error("Memory stats error:", error);
+		if (httpErrors.isHttpError(error)) {
+			res
+				.status(error.statusCode)
+				.json(errorResponse("Failed to get memory statistics", error.message));
+			return;
+		}
 		res
 			.status(500)
 			.json(
@@ -13,6 +13,8 @@ export const memoryMetadataSchema = z
     importance: z.number().int().min(1).max(10).optional(), // 1-10 importance score
     tags: z.array(z.string()).optional(), // ["preference", "color", "personal" etc....]
     timestamp: z.string().datetime().optional(), // ISO 8601 timestamp
+    expiresAt: z.string().datetime().optional(), // ISO 8601 time after which the memory is forgotten
+    ttl: z.number().int().positive().optional(), // Seconds the memory lives, converted to expiresAt
     client: z.string().optional().default("unknown"), // Conversation identifier
   })
   .describe("Structured metadata for AI memory storage that Api will received");
@@ -1,8 +1,37 @@
 import { z } from "zod";
+import { EMBEDDING_MODEL_IDS } from "../config/embeddingModels.js";
 import { memoryMetadataSchema, searchFiltersSchema } from "./common.js";
 
 // This schemas are what context0 api expects
 
+export const embeddingModelSchema = z
+	.enum(EMBEDDING_MODEL_IDS)
+	.describe(
+		"Embedding model the caller expects - requests are refused when it isn't the model pinned to the contract at deploy time",
+	);
+
+export const collectionNameSchema = z
+	.string()
+	.regex(
+		/^[a-z0-9][a-z0-9_-]{0,63}$/,
+		"Collection names are 1-64 lowercase letters, digits, dashes or underscores",
+	)
+	.describe(
+		"Named collection of memories within the contract - each one is searched on its own, 'default' is the contract's main collection",
+	);
+
+export const dedupeModeSchema = z
+	.enum(["off", "reject", "merge", "link"])
+	.describe(
+		"What happens when a near-identical memory exists - reject: nothing is stored, merge: its metadata absorbs the new one, link: stored with duplicateOf, off: stored as is",
+	);
+
+export const contradictionModeSchema = z
+	.enum(["off", "flag", "supersede"])
+	.describe(
+		"What happens when the memory likely contradicts stored ones - flag: they are listed and linked as contradicted, supersede: they are also hidden behind the new one, off: no check",
+	);
+
 /** Memory creation request - what MCP server sends to API
 POST https://api.context0.com/memories
 Authorization: Bearer ak_1234567890abcdef (API key)
@@ -16,20 +45,59 @@ Content-Type: application/json
     "tags": ["preference", "color", "personal"],
     "timestamp": "2025-06-06T14:30:00Z",
     "client": "cursor"
-  }
+  },
+  "collection": "work",
+  "dedupe": "merge",
+  "contradictions": "flag"
 }
 */
 
 export const createMemorySchema = z
-  .object({
-    content: z.string().min(1).max(10000), // Text content to convert to embeddings
-    metadata: memoryMetadataSchema.optional(), // Rich metadata from MCP server
-  })
-  .describe(
-    "API request to create new memory - content will be converted to embeddings and stored via Eizen",
-  );
-
-/** Memory search request - for semantic search through user's memories
+	.object({
+		content: z.string().min(1).max(10000), // Text content to convert to embeddings
+		metadata: memoryMetadataSchema.optional(), // Rich metadata from MCP server
+		model: embeddingModelSchema.optional(), // Checked against the contract's pinned model
+		collection: collectionNameSchema.optional(), // Collection to store into (default: "default")
+		dedupe: dedupeModeSchema.optional(), // Near-duplicate handling (default: DEDUPE_MODE, off)
+		dedupeThreshold: z.number().min(0).max(1).optional(), // Cosine similarity of near-duplicates (default: DEDUPE_THRESHOLD, 0.95)
+		contradictions: contradictionModeSchema.optional(), // Contradiction handling (default: CONTRADICTION_MODE, flag)
+	})
+	.describe(
+		"API request to create new memory - content will be converted to embeddings and stored via Eizen",
+	);
+
+/** Batch memory creation request - import many memories in one call
+POST https://api.context0.com/memories/batch
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "memories": [
+    { "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] } },
+    { "content": "User works remotely on Fridays", "dedupe": "merge" }
+  ]
+}
+*/
+export const batchCreateMemorySchema = z
+	.object({
+		memories: z
+			.array(
+				createMemorySchema.omit({
+					model: true,
+					collection: true,
+					contradictions: true, // Not looked for in batches
+				}),
+			)
+			.min(1)
+			.max(500), // Embedded in one pass, stored in grouped writes
+		model: embeddingModelSchema.optional(), // Checked against the contract's pinned model
+		collection: collectionNameSchema.optional(), // Collection to store into (default: "default")
+	})
+	.describe(
+		"API request to create many memories at once - contents are embedded together and stored via Eizen in grouped writes",
+	);
+
+/** Memory search request - for semantic and/or keyword search through user's memories
 GET https://api.context0.com/memories/search
 Authorization: Bearer ak_1234567890abcdef (API key)
 Content-Type: application/json
@@ -37,21 +105,192 @@ Content-Type: application/json
 {
   "query": "favorite color preference",
   "k"(limit): 5,
+  "mode": "hybrid",
+  "rerank": true,
   "filters": {
     "tags": ["preference", "color"],
     "importance_min": 5
-  }
+  },
+  "ranking": { "similarity": 0.6, "recency": 0.2, "importance": 0.2, "halfLifeDays": 30 },
+  "expand": 1,
+  "collection": "work"
 }
 */
+export const searchModeSchema = z
+	.enum(["semantic", "keyword", "hybrid"])
+	.describe(
+		"semantic: embedding similarity, keyword: BM25 over exact tokens, hybrid: both fused with reciprocal-rank fusion",
+	);
+
+export const rankingSchema = z
+	.object({
+		similarity: z.number().min(0).max(1).default(0.6), // Weight of the relevance to the query
+		recency: z.number().min(0).max(1).default(0.2), // Weight of how recently the memory was saved
+		importance: z.number().min(0).max(1).default(0.2), // Weight of the memory's importance
+		halfLifeDays: z.number().positive().max(36500).default(30), // Age at which recency is halved
+	})
+	.refine((data) => data.similarity + data.recency + data.importance > 0, {
+		message: "At least one ranking weight must be positive",
+	})
+	.describe(
+		"Ranking weights - results are sorted by the weighted average of similarity, recency decay and importance",
+	);
+
 export const searchMemorySchema = z
-  .object({
-    query: z.string().min(1).max(1000), // General text
-    k: z.number().int().min(1).max(100).default(10), // number of results Agent will received
-    filters: searchFiltersSchema.optional(), // Optional search filters
-  })
-  .describe(
-    "Semantic search request - query gets converted to embeddings for Eizen.knn_search()",
-  );
+	.object({
+		query: z.string().min(1).max(1000), // General text
+		k: z.number().int().min(1).max(100).default(10), // number of results Agent will received
+		mode: searchModeSchema.default("semantic"), // How memories are matched against the query
+		rerank: z.boolean().default(false), // Rescore the top candidates with a cross-encoder (slower, better top-1)
+		filters: searchFiltersSchema.optional(), // Optional search filters
+		ranking: rankingSchema.optional(), // Weigh in recency and importance (default: similarity only)
+		expand: z.number().int().min(0).max(3).default(0), // Also return memories linked to the results, up to this many hops away
+		model: embeddingModelSchema.optional(), // Checked against the contract's pinned model
+		collection: collectionNameSchema.optional(), // Collection to search (default: "default")
+	})
+	.describe(
+		"Search request - query gets converted to embeddings for Eizen.knn_search() and/or matched against the keyword index",
+	);
+
+/** Memory listing request - browse stored memories page by page
+GET https://api.context0.com/memories?limit=20&sort=importance&filters={"tags":["work"]}
+Authorization: Bearer ak_1234567890abcdef (API key)
+
+The next page is requested with the "nextCursor" of the previous one:
+GET https://api.context0.com/memories?limit=20&sort=importance&cursor=7:123
+*/
+export const listSortSchema = z
+	.enum(["created", "importance"])
+	.describe(
+		"created: newest memories first, importance: most important first (newest first on ties)",
+	);
+
+export const listMemoriesSchema = z
+	.object({
+		cursor: z
+			.string()
+			.regex(/^\d+(:\d+)?$/, "Invalid cursor")
+			.optional(), // Opaque, the nextCursor of the previous page
+		limit: z.number().int().min(1).max(100).default(20), // Memories per page
+		sort: listSortSchema.default("created"), // Order of the pages
+		filters: searchFiltersSchema.optional(), // Same filters as search
+		collection: collectionNameSchema.optional(), // Collection to list (default: "default")
+	})
+	.describe(
+		"Listing request - walks stored memories page by page, skipping deleted ones",
+	);
+
+/** Memory update request - edit the content and/or metadata of an existing memory
+PATCH https://api.context0.com/memories/123
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "content": "User's favorite color is green",
+  "metadata": {
+    "importance": 8
+  }
+}
+*/
+export const updateMemorySchema = z
+	.object({
+		content: z.string().min(1).max(10000).optional(), // New content, re-embedded if changed
+		metadata: memoryMetadataSchema.partial().optional(), // Merged into the existing metadata
+	})
+	.refine((data) => data.content !== undefined || data.metadata !== undefined, {
+		message: "At least one of content or metadata must be provided",
+	})
+	.describe(
+		"API request to update a memory - changed content is re-embedded and swapped in place in Eizen",
+	);
+
+/** Embedding model migration request - re-embed every memory with another model
+POST https://api.context0.com/memories/migrations
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "embeddingModel": "bge-small-en-v1.5"
+}
+*/
+export const migrateMemoriesSchema = z
+	.object({
+		embeddingModel: embeddingModelSchema.describe(
+			"Model every memory is re-embedded with, pinned to the new contract",
+		),
+	})
+	.describe(
+		"API request to move memories to a new contract embedded with another model - runs in the background",
+	);
+
+/** Collection creation request - add a named collection to the contract
+POST https://api.context0.com/memories/collections
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "name": "work"
+}
+*/
+export const createCollectionSchema = z
+	.object({
+		name: collectionNameSchema,
+	})
+	.describe(
+		"API request to create a collection - memories stored in it get a search index of their own, in the same contract",
+	);
+
+/** Memory link request - connect a memory to another one of the same collection
+POST https://api.context0.com/memories/123/links?collection=work
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/json
+
+{
+  "target": 98,
+  "type": "derived_from"
+}
+*/
+export const linkTypeSchema = z
+	.enum(["relates_to", "contradicts", "supersedes", "derived_from"])
+	.describe(
+		"How the source memory relates to the target - e.g. a decision derived_from the conversation it was made in",
+	);
+
+export const createLinkSchema = z
+	.object({
+		target: z.number().int().min(0), // ID of the memory linked to
+		type: linkTypeSchema,
+	})
+	.describe(
+		"API request to link two memories - the link is stored on both of them and followed in both directions",
+	);
+
+/** Memory graph request - memories that have links, with their links
+GET https://api.context0.com/memories/graph?limit=200&collection=work
+Authorization: Bearer ak_1234567890abcdef (API key)
+*/
+export const memoryGraphSchema = z
+	.object({
+		limit: z.number().int().min(1).max(500).default(200), // Most recent linked memories returned
+		collection: collectionNameSchema.optional(), // Collection to read (default: "default")
+	})
+	.describe(
+		"Graph request - the most recent memories having links, and the links between them",
+	);
 
+export type EmbeddingModel = z.infer<typeof embeddingModelSchema>;
+export type DedupeMode = z.infer<typeof dedupeModeSchema>;
+export type ContradictionMode = z.infer<typeof contradictionModeSchema>;
 export type CreateMemory = z.infer<typeof createMemorySchema>;
+export type BatchCreateMemory = z.infer<typeof batchCreateMemorySchema>;
+export type SearchMode = z.infer<typeof searchModeSchema>;
+export type Ranking = z.infer<typeof rankingSchema>;
 export type SearchMemory = z.infer<typeof searchMemorySchema>;
+export type ListSort = z.infer<typeof listSortSchema>;
+export type ListMemories = z.infer<typeof listMemoriesSchema>;
+export type UpdateMemory = z.infer<typeof updateMemorySchema>;
+export type MigrateMemories = z.infer<typeof migrateMemoriesSchema>;
+export type CreateCollection = z.infer<typeof createCollectionSchema>;
+export type LinkType = z.infer<typeof linkTypeSchema>;
+export type CreateLink = z.infer<typeof createLinkSchema>;
+export type MemoryGraph = z.infer<typeof memoryGraphSchema>;
@@ -16,8 +16,11 @@ import express from "express";
 import helmet from "helmet";
 import { arLocalService } from "./config/arlocal.js";
 import { errorHandler } from "./middlewares/errorHandler.js";
+import { startConsolidationSchedule } from "./services/ConsolidationService.js";
 import { EizenService } from "./services/EizenService.js";
 import { embeddingService } from "./services/EmbeddingService.js";
+import { startExpirySweep } from "./services/ExpiryService.js";
+import { failInterruptedMigrations } from "./services/MigrationService.js";
 
 dotenv.config();
 
@@ -39,6 +42,12 @@ async function initializeServices() {
   await embeddingService.ensureInitialized();
   // Initialize semantic search configuration
   await EizenService.initEizenConfig();
+  // Jobs of a previous process can't resume, release their write locks
+  await failInterruptedMigrations();
+  // Merge overlapping memories of recently written contracts in the background
+  startConsolidationSchedule();
+  // Tombstone expired memories of contracts holding some
+  startExpirySweep();
   console.log("Context0 is ready to handle user requests");
 }
 
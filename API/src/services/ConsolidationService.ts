@@ -0,0 +1,115 @@
+import { EizenService } from "./EizenService.js";
+import { MemoryService } from "./MemoryService.js";
+import { getActiveMigration } from "./MigrationService.js";
+
+// Hours between two scheduled consolidation runs
+const DEFAULT_INTERVAL_HOURS = 24;
+
+// Contracts that received memories since their last consolidation, with their user
+const pendingContracts = new Map<string, string>();
+
+// Set while a run is in progress, a slow run makes the next one skip its turn
+let running = false;
+
+/**
+ * Queues a contract for the next scheduled consolidation
+ *
+ * Called whenever memories are created, so contracts nobody wrote to since
+ * their last consolidation aren't read again. The queue lives in the API
+ * process: contracts queued before a restart wait for their next write.
+ *
+ * @param {string} contractId - Contract that received memories
+ * @param {string} userId - Clerk user ID owning the contract
+ */
+export function markForConsolidation(contractId: string, userId: string): void {
+	pendingContracts.set(contractId, userId);
+}
+
+/**
+ * Consolidates the memories of a contract, the default index then each collection
+ *
+ * Collections are consolidated separately, memories never move between them.
+ * See `MemoryService.consolidateMemories` for how memories are clustered.
+ *
+ * @param {string} contractId - Contract whose memories are consolidated
+ * @returns {Promise<number>} Number of consolidated memories created
+ * @throws {Error} When a collection can't be read
+ */
+export async function consolidateContract(contractId: string): Promise<number> {
+	const contract = await EizenService.forContract(contractId);
+	const collections = [undefined, ...(await contract.listCollections())];
+
+	let created = 0;
+	for (const collection of collections) {
+		const eizenService = await EizenService.forContract(contractId, collection);
+		const result = await new MemoryService(eizenService).consolidateMemories();
+		created += result.consolidated.length;
+
+		if (result.clusters > 0) {
+			console.log(
+				`Consolidated ${contractId}/${collection ?? "default"}: ${result.consolidated.length} memories created, ${result.failed} clusters failed`,
+			);
+		}
+	}
+
+	return created;
+}
+
+/**
+ * Consolidates every contract queued since the previous run
+ *
+ * Contracts of users with a migration in progress stay queued: their memories
+ * are being copied and must not change until the switch.
+ *
+ * @returns {Promise<number>} Number of contracts consolidated
+ */
+export async function runScheduledConsolidation(): Promise<number> {
+	if (running) {
+		console.warn("Previous consolidation still running, skipping this one");
+		return 0;
+	}
+	running = true;
+
+	let consolidated = 0;
+	try {
+		for (const [contractId, userId] of [...pendingContracts]) {
+			if (await getActiveMigration(userId)) continue;
+
+			// Memories written during the run queue the contract again
+			pendingContracts.delete(contractId);
+			try {
+				await consolidateContract(contractId);
+				consolidated++;
+			} catch (error) {
+				console.error(`Failed to consolidate contract ${contractId}:`, error);
+			}
+		}
+	} catch (error) {
+		console.error("Scheduled consolidation failed:", error);
+	} finally {
+		running = false;
+	}
+
+	return consolidated;
+}
+
+/**
+ * Starts consolidating queued contracts at a regular interval
+ *
+ * Schedule parameters (configured via environment variables):
+ * - CONSOLIDATION_INTERVAL_HOURS: Hours between two runs, 0 disables them (default: 24)
+ *
+ * The timer doesn't keep the process alive on shutdown.
+ */
+export function startConsolidationSchedule(): void {
+	const hours = Number(
+		process.env.CONSOLIDATION_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS,
+	);
+	if (!Number.isFinite(hours) || hours <= 0) {
+		console.log("Memory consolidation is disabled");
+		return;
+	}
+
+	setInterval(runScheduledConsolidation, hours * 60 * 60 * 1000).unref();
+	console.log(`Memory consolidation scheduled every ${hours} hours`);
+}
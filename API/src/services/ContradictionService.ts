@@ -0,0 +1,166 @@
+import {
+	AutoModelForSequenceClassification,
+	AutoTokenizer,
+	type PreTrainedModel,
+	type PreTrainedTokenizer,
+} from "@xenova/transformers";
+
+/**
+ * A stored statement paired with a new one, checked for contradiction
+ */
+export interface StatementPair {
+	premise: string; // Content of the stored memory
+	hypothesis: string; // Content of the memory being created
+}
+
+/**
+ * Tells whether new memories contradict stored ones.
+ *
+ * Implementations score every pair on its own, in input order.
+ */
+export interface ContradictionClassifier {
+	readonly name: string; // Logged with the contradictions it flags
+	classify(pairs: StatementPair[]): Promise<number[]>; // Probability in [0, 1] that each hypothesis contradicts its premise
+}
+
+/**
+ * nli-deberta-v3-xsmall is a cross-encoder trained on SNLI and MultiNLI, labelling
+ * pairs as contradiction, entailment or neutral.
+ *  @see https://huggingface.co/Xenova/nli-deberta-v3-xsmall
+ */
+const DEFAULT_NLI_MODEL = "Xenova/nli-deberta-v3-xsmall";
+
+/**
+ * Local classifier running a natural language inference (NLI) model
+ *
+ * The model reads each (premise, hypothesis) pair at once and its
+ * "contradiction" label, softmaxed against the others, is the score. The
+ * model is loaded on first use (and downloaded if not cached), nothing
+ * leaves the server.
+ *
+ * @example
+ * ```typescript
+ * const [probability] = await new NliClassifier().classify([
+ *   { premise: "User lives in Paris", hypothesis: "User lives in Berlin" },
+ * ]);
+ * // probability > 0.9
+ * ```
+ */
+export class NliClassifier implements ContradictionClassifier {
+	readonly name: string;
+	private modelName: string;
+	private nli: {
+		tokenizer: PreTrainedTokenizer;
+		model: PreTrainedModel;
+		contradictionLabel: number; // Index of the "contradiction" logit
+	} | null = null;
+	private loadingPromise: Promise<void> | null = null;
+
+	/**
+	 * @param modelName - transformers.js sequence classification model trained for NLI
+	 */
+	constructor(modelName: string = DEFAULT_NLI_MODEL) {
+		this.name = `nli:${modelName}`;
+		this.modelName = modelName;
+	}
+
+	/**
+	 * @throws {Error} When the model fails to load or scoring fails
+	 */
+	async classify(pairs: StatementPair[]): Promise<number[]> {
+		if (pairs.length === 0) return [];
+
+		if (!this.nli) {
+			// Concurrent first calls share the same loading
+			if (!this.loadingPromise) {
+				this.loadingPromise = this.initialize();
+			}
+			try {
+				await this.loadingPromise;
+			} finally {
+				this.loadingPromise = null;
+			}
+		}
+
+		if (!this.nli) {
+			throw new Error("NLI model not initialized");
+		}
+
+		try {
+			const { tokenizer, model, contradictionLabel } = this.nli;
+			const inputs = tokenizer(
+				pairs.map((pair) => pair.premise),
+				{
+					text_pair: pairs.map((pair) => pair.hypothesis),
+					padding: true,
+					truncation: true,
+				},
+			);
+			const { logits } = await model(inputs);
+
+			// One row of label logits per pair
+			const data = logits.data as Float32Array;
+			const labels = data.length / pairs.length;
+			return pairs.map((_, i) => {
+				const row = Array.from(data.subarray(i * labels, (i + 1) * labels));
+				const max = Math.max(...row);
+				const exps = row.map((logit) => Math.exp(logit - max));
+				const total = exps.reduce((sum, exp) => sum + exp, 0);
+				return exps[contradictionLabel] / total;
+			});
+		} catch (error) {
+			console.error("Failed to classify contradictions:", error);
+			throw new Error(
+				`Failed to classify contradictions: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Loads the tokenizer and model, and finds which label means contradiction
+	 *
+	 * @throws {Error} If model loading fails or the model has no contradiction label
+	 */
+	private async initialize(): Promise<void> {
+		try {
+			console.log(`Loading NLI model: ${this.modelName}`);
+
+			const [tokenizer, model] = await Promise.all([
+				AutoTokenizer.from_pretrained(this.modelName),
+				AutoModelForSequenceClassification.from_pretrained(this.modelName),
+			]);
+
+			const id2label = (model.config?.id2label ?? {}) as Record<string, string>;
+			const label = Object.keys(id2label).find((id) =>
+				id2label[id].toLowerCase().startsWith("contradict"),
+			);
+			if (label === undefined) {
+				throw new Error(`${this.modelName} has no contradiction label`);
+			}
+			this.nli = { tokenizer, model, contradictionLabel: Number(label) };
+
+			console.log("NLI model loaded successfully");
+		} catch (error) {
+			console.error("NLI model initialization failed:", error);
+			throw error;
+		}
+	}
+}
+
+// Classifier shared by every request, so its model is loaded once
+let classifier: ContradictionClassifier | null = null;
+
+/**
+ * Get the classifier configured for contradiction detection
+ *
+ * Classifier parameters (configured via environment variables):
+ * - CONTRADICTION_MODEL: transformers.js NLI model (default: Xenova/nli-deberta-v3-xsmall)
+ */
+export function getContradictionClassifier(): ContradictionClassifier {
+	if (!classifier) {
+		classifier = new NliClassifier(
+			process.env.CONTRADICTION_MODEL || DEFAULT_NLI_MODEL,
+		);
+	}
+	return classifier;
+}
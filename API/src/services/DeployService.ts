@@ -1,5 +1,9 @@
 import type { InferSelectModel } from "drizzle-orm";
 import { eq } from "drizzle-orm";
+import {
+	type EmbeddingModelId,
+	getDefaultEmbeddingModel,
+} from "../config/embeddingModels.js";
 import { db } from "../db/db.js";
 import { keysTable } from "../db/schema/keys.js";
 import { subscriptionsTable } from "../db/schema/subscriptions.js";
@@ -16,6 +20,7 @@ export interface DeploymentResult {
 		userId: string;
 		deployedAt: string;
 		keyId: string;
+		embeddingModel: EmbeddingModelId;
 	};
 	error?: string;
 }
@@ -124,6 +129,32 @@ export async function deployContract(): Promise<{
 	}
 }
 
+/**
+ * Pins the embedding model of a freshly deployed contract
+ *
+ * Memories of the contract are then always embedded with this model, see
+ * `MemoryService`, so that its index never mixes vector spaces.
+ *
+ * @param {string} contractId - Arweave transaction ID of the deployed contract
+ * @param {EmbeddingModelId} embeddingModel - Registry ID of the model to pin
+ * @returns {Promise<{success: boolean, error?: string}>} Pinning result
+ */
+export async function pinContractEmbeddingModel(
+	contractId: string,
+	embeddingModel: EmbeddingModelId,
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const eizenService = await EizenService.forContract(contractId);
+		await eizenService.pinEmbeddingModel(embeddingModel);
+
+		console.log(`Contract ${contractId} pinned to ${embeddingModel}`);
+		return { success: true };
+	} catch (error) {
+		console.error("Error pinning embedding model:", error);
+		return { success: false, error: "Failed to pin embedding model" };
+	}
+}
+
 /**
  * Generates contract hash and updates user's key record in the database
  *
@@ -207,20 +238,22 @@ export async function processContractHash(
  * 1. Validates user subscription status and plan
  * 2. Checks user key record and prevents duplicate deployments
  * 3. Deploys the contract to Arweave blockchain
- * 4. Generates and stores contract hash in database
- * 5. Returns comprehensive deployment information
+ * 4. Pins the embedding model of the contract
+ * 5. Generates and stores contract hash in database
+ * 6. Returns comprehensive deployment information
  *
  * The function follows a fail-fast approach, returning early on any validation failure
  * to prevent unnecessary operations.
  *
  * @param {string} userId - Clerk user ID requesting contract deployment
+ * @param {EmbeddingModelId} [embeddingModel] - Model to embed memories with (default: EMBEDDING_MODEL)
  * @returns {Promise<DeploymentResult>} Complete deployment result with all relevant data
  *
  * @throws {Error} When unexpected errors occur during the deployment process
  *
  * @example
  * ```typescript
- * const deployment = await deployForUser("user_clerkId123");
+ * const deployment = await deployForUser("user_clerkId123", "bge-small-en-v1.5");
  * if (deployment.success) {
  *   const { contractTxId, contractHashFingerprint } = deployment.data;
  *   // Notify user of successful deployment
@@ -231,7 +264,10 @@ export async function processContractHash(
  * }
  * ```
  */
-export async function deployForUser(userId: string): Promise<DeploymentResult> {
+export async function deployForUser(
+	userId: string,
+	embeddingModel: EmbeddingModelId = getDefaultEmbeddingModel(),
+): Promise<DeploymentResult> {
 	try {
 		// Step 1: Validate user subscription
 		// Ensures user has paid and has an active subscription
@@ -254,7 +290,16 @@ export async function deployForUser(userId: string): Promise<DeploymentResult> {
 			return { success: false, error: deployment.error };
 		}
 
-		// Step 4: Process contract hash and update database
+		// Step 4: Pin the embedding model before any memory is stored
+		const pinning = await pinContractEmbeddingModel(
+			deployment.contractId as string,
+			embeddingModel,
+		);
+		if (!pinning.success) {
+			return { success: false, error: pinning.error };
+		}
+
+		// Step 5: Process contract hash and update database
 		// Finalizes the deployment by storing contract information
 		const hashProcessing = await processContractHash(
 			deployment.contractId as string,
@@ -265,7 +310,7 @@ export async function deployForUser(userId: string): Promise<DeploymentResult> {
 			return { success: false, error: hashProcessing.error };
 		}
 
-		// Step 5: Prepare deployment result data
+		// Step 6: Prepare deployment result data
 		const deploymentData = {
 			contractId: deployment.contractId as string,
 			contractHashFingerprint: (hashProcessing.hashData as ContractHashData)
@@ -273,12 +318,13 @@ export async function deployForUser(userId: string): Promise<DeploymentResult> {
 			userId,
 			deployedAt: new Date().toISOString(),
 			keyId: (hashProcessing.updatedKey as UserKey).id,
+			embeddingModel,
 		};
 
-		// Step 6: Send email notification (non-blocking)
+		// Step 7: Send email notification (non-blocking)
 		sendDeploymentNotification(userId, deploymentData);
 
-		// Step 7: Return success with comprehensive deployment data
+		// Step 8: Return success with comprehensive deployment data
 		return {
 			success: true,
 			data: deploymentData,
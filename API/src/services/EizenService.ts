@@ -1,14 +1,36 @@
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
-import { EizenDbVector } from "eizendb";
+import {
+	type DistanceMetric,
+	EizenDbVector,
+	KeywordIndex,
+	LRUCache,
+	type MetadataFilter,
+	type Quantization,
+	type SnapshotInfo,
+} from "eizendb";
 import { SetSDK } from "hollowdb";
 import { type ArweaveConfig, initializeArweave } from "../config/arweave.js";
+import {
+	type EmbeddingModelId,
+	isEmbeddingModel,
+	LEGACY_EMBEDDING_MODEL,
+} from "../config/embeddingModels.js";
+import { createRedisCacheStore } from "../config/redis.js";
 import type {
 	InsertVector,
 	SearchVector,
 	VectorEmbedding,
 	VectorMetadata,
 } from "../schemas/eizen.js";
+import type { LinkType } from "../schemas/memory.js";
+import {
+	createKeySalt,
+	decryptMetadata,
+	deriveMetadataKey,
+	encryptMetadata,
+	keyCheckValue,
+} from "../utils/encryption.js";
 import {
 	checkWalletBalance,
 	getWalletRechargeInstructions,
@@ -21,6 +43,48 @@ export interface EizenSearchResult {
 	metadata?: VectorMetadata;
 }
 
+export interface EizenKeywordResult {
+	id: number;
+	score: number; // BM25 relevance score (higher value == more relevant)
+	metadata?: VectorMetadata;
+}
+
+// Number of keyword matches whose visibility and metadata are read at once
+const KEYWORD_CHUNK_SIZE = 50;
+
+// Contract key holding the embedding model pinned at deploy time
+const EMBEDDING_MODEL_KEY = "embedding_model";
+
+// Contract key holding the names of the collections created in the contract
+const COLLECTIONS_KEY = "collections";
+
+// Contract key recognizing the secret its encrypted metadata is read with
+const KEY_CHECK_KEY = "metadata_key_check";
+
+// Contract key holding the salt its metadata key is derived with
+const KEY_SALT_KEY = "metadata_key_salt";
+
+// Prefix of the keys holding the links of each memory
+const LINKS_PREFIX = "ln:";
+
+// Number of memories whose links are read or written at once in snapshots
+const SNAPSHOT_LINKS_CHUNK_SIZE = 50;
+
+export interface MemoryLink {
+	id: number; // The other end of the link
+	type: LinkType;
+	direction: "out" | "in"; // "out" when this memory is the source of the link
+}
+
+export interface EizenScanResult {
+	size: number; // Number of vectors ever inserted, deleted ones included
+	vectors: {
+		id: number;
+		visible: boolean; // False once the vector is deleted
+		metadata?: VectorMetadata;
+	}[];
+}
+
 export interface EizenInsertResult {
 	success: boolean;
 	vectorId: number;
@@ -39,6 +103,12 @@ export interface EizenInsertResult {
  * The service uses Arweave for decentralized storage and HollowDB as the underlying data layer.
  * Each user gets their own contract instance for isolated vector storage.
  *
+ * A contract holds a default index and any number of named collections, each an
+ * index of its own under a key prefix. An instance serves one of them.
+ *
+ * An instance unlocked with the caller's secret encrypts the metadata it writes
+ * and decrypts the metadata it reads, see `unlock`.
+ *
  * @see https://github.com/Itz-Agasta/Eizendb/blob/main/docs/DEVELOPER_GUIDE.md --> Official Eizen Docs
  *
  * @example
@@ -64,23 +134,32 @@ export interface EizenInsertResult {
  */
 export class EizenService {
 	private vectorDb: EizenDbVector<VectorMetadata> | null = null; // The Eizen vector database instance with generic metadata type
+	private keywordIndex: KeywordIndex | null = null; // BM25 index of memory contents, stored next to the vectors
 	private sdk: SetSDK<string> | null = null; // HollowDB SDK instance for Arweave interactions
 	private contractId: string; // The contract ID for this specific instance
+	private collection: string | undefined; // Collection served by this instance, undefined for the default index
+	private metadataKey: Buffer | null = null; // Key of encrypted metadata, only held by unlocked instances
+	private pendingKeyPin: [salt: string, keyCheck: string] | null = null; // Stored with the first encrypted write, when the contract has no secret yet
 	private isInitialized = false;
 
 	// Shared Arweave configuration across all instances
 	private static sharedArweaveConfig: ArweaveConfig | null = null;
 	private static arweaveInitPromise: Promise<ArweaveConfig> | null = null;
 
+	// In-process read cache shared by all contracts (keys are prefixed per contract)
+	private static sharedCache: LRUCache | null = null;
+
 	/**
 	 * Creates a new EizenService instance for a specific contract
 	 *
 	 * Note: Use the static factory methods instead of calling constructor directly.
 	 *
 	 * @param contractId - The Arweave contract ID for this user's vector database
+	 * @param collection - Optional collection within the contract
 	 */
-	private constructor(contractId: string) {
+	private constructor(contractId: string, collection?: string) {
 		this.contractId = contractId;
+		this.collection = collection;
 	}
 
 	/**
@@ -90,6 +169,8 @@ export class EizenService {
 	 * contract ID. Each user should have their own contract for data isolation.
 	 *
 	 * @param contractId - The Arweave contract ID for the user's vector database
+	 * @param collection - Optional collection to serve instead of the default index,
+	 *   see `createCollection`
 	 * @returns Promise resolving to an initialized EizenService instance
 	 *
 	 * @example
@@ -102,10 +183,16 @@ export class EizenService {
 	 *   vector: [0.1, 0.2, 0.3],
 	 *   metadata: { content: "user data" }
 	 * });
+	 *
+	 * // Or one of its collections
+	 * const workService = await EizenService.forContract("user123_contract_id", "work");
 	 * ```
 	 */
-	static async forContract(contractId: string): Promise<EizenService> {
-		const service = new EizenService(contractId);
+	static async forContract(
+		contractId: string,
+		collection?: string,
+	): Promise<EizenService> {
+		const service = new EizenService(contractId, collection);
 		await service.initialize();
 		return service;
 	}
@@ -260,20 +347,67 @@ Command: ${rechargeInfo.instructions}`,
 			m: Number(process.env.EIZEN_M) || 16, // Maximum number of bi-directional links for each element
 			efConstruction: Number(process.env.EIZEN_EF_CONSTRUCTION) || 200, // Dynamic candidate list size during index construction (higher == better quality == slower build)
 			efSearch: Number(process.env.EIZEN_EF_SEARCH) || 50, // Dynamic candidate list size during search (higher == better accuracy == slower search)
+			metric: (process.env.EIZEN_METRIC as DistanceMetric) || "cosine", // Distance metric: cosine, l2 or ip (must match the one existing contracts were built with)
+			quantization: (process.env.EIZEN_QUANTIZATION as Quantization) || "none", // Stored vector compression: none, int8 or uint8 (must match the one existing contracts were built with)
 		};
 	}
+
+	/**
+	 * Get the read-through cache options for a contract
+	 *
+	 * Eizen reads (points, graph nodes, metadata) are cached in an in-process LRU
+	 * shared by all contracts, and in Redis when it is configured.
+	 *
+	 * Cache parameters (configured via environment variables):
+	 * - EIZEN_CACHE_SIZE: Max entries of the in-process cache, 0 disables it (default: 10000).
+	 *   Disable it when several API instances write to the same contracts, so that
+	 *   only the shared Redis cache is used
+	 * - EIZEN_CACHE_TTL: Seconds entries are kept in Redis (default: 3600)
+	 *
+	 * @private
+	 * @param contractId - The contract whose reads are cached
+	 * @param collection - The collection whose reads are cached, undefined for the default index
+	 * @param arweaveConfig - Shared configuration holding the optional Redis connection
+	 * @returns Cache options for EizenDbVector, or undefined if caching is disabled
+	 */
+	private static getCacheOptions(
+		contractId: string,
+		collection: string | undefined,
+		arweaveConfig: ArweaveConfig,
+	) {
+		const size = Number(process.env.EIZEN_CACHE_SIZE ?? 10000);
+		if (size > 0 && !EizenService.sharedCache) {
+			EizenService.sharedCache = new LRUCache(size);
+		}
+
+		const lru = size > 0 ? (EizenService.sharedCache ?? undefined) : undefined;
+		const remote = arweaveConfig.redis
+			? createRedisCacheStore(
+					arweaveConfig.redis,
+					Number(process.env.EIZEN_CACHE_TTL) || 3600,
+				)
+			: undefined;
+
+		if (!lru && !remote) return undefined;
+		const namespace = collection ? `${collection}/` : "";
+		return { lru, remote, prefix: `eizen:${contractId}:${namespace}` };
+	}
+
 	/**
 	 * Initialize the service instance for a specific contract
 	 *
 	 * This method:
 	 * 1. Gets the shared Arweave configuration
 	 * 2. Creates HollowDB SDK with the contract ID
-	 * 3. Initializes EizenDbVector with HNSW parameters
+	 * 3. Initializes EizenDbVector with HNSW parameters and read caches, under the
+	 *    key prefix of the collection if there is one
+	 * 4. Opens the keyword index stored next to it
 	 *
 	 * HNSW Parameters (configured via environment variables):
 	 * - m: Number of bi-directional links for each new element (default: 16)
 	 * - efConstruction: Size of dynamic candidate list during construction (default: 200)
 	 * - efSearch: Size of dynamic candidate list during search (default: 50)
+	 * - metric: Distance metric, cosine, l2 or ip (default: cosine)
 	 *
 	 * @private
 	 * @throws {Error} When initialization fails
@@ -295,15 +429,27 @@ Command: ${rechargeInfo.instructions}`,
 			// Step 3: Configure HNSW algorithm parameters from environment or use defaults
 			const options = EizenService.getHnswParams();
 
-			// Step 4: Create the Eizen vector database instance with configured parameters
-			this.vectorDb = new EizenDbVector<VectorMetadata>(this.sdk, options);
+			// Step 4: Create the Eizen vector database instance with configured parameters,
+			// reading through the shared caches
+			this.vectorDb = new EizenDbVector<VectorMetadata>(this.sdk, {
+				...options,
+				namespace: this.collection,
+				cache: EizenService.getCacheOptions(
+					this.contractId,
+					this.collection,
+					arweaveConfig,
+				),
+			});
+
+			// Step 5: Open the keyword index, whose keys live next to the vector index
+			this.keywordIndex = new KeywordIndex(this.sdk, this.collection);
 
 			this.isInitialized = true;
 			console.log(
-				`EizenService initialized successfully for contract: ${this.contractId}`,
+				`EizenService initialized successfully for contract: ${this.contractId}${this.collection ? ` (collection ${this.collection})` : ""}`,
 			);
 			console.log(
-				`HNSW Parameters: m=${options.m}, efConstruction=${options.efConstruction}, efSearch=${options.efSearch}`,
+				`HNSW Parameters: m=${options.m}, efConstruction=${options.efConstruction}, efSearch=${options.efSearch}, metric=${options.metric}, quantization=${options.quantization}`,
 			);
 		} catch (error) {
 			console.error(
@@ -380,7 +526,7 @@ Command: ${rechargeInfo.instructions}`,
 			const vectorId = await this.vectorDb.db.get_datasize();
 
 			// Insert vector into the HNSW index with associated metadata
-			await this.vectorDb.insert(data.vector, data.metadata);
+			await this.vectorDb.insert(data.vector, await this.seal(data.metadata));
 
 			console.log(`Vector inserted successfully with ID: ${vectorId}`);
 
@@ -405,6 +551,101 @@ Command: ${rechargeInfo.instructions}`,
 		}
 	}
 
+	/**
+	 * Insert several vectors at once with grouped writes
+	 *
+	 * The vectors are added to the HNSW index one after the other, but all
+	 * database writes are held back and sent together at the end. Either every
+	 * vector is stored or, if one insertion fails, none of them.
+	 *
+	 * @param data - The vectors and metadata to insert
+	 * @returns Promise resolving to the assigned vector IDs, in the same order as the input
+	 *
+	 * @example
+	 * ```typescript
+	 * const ids = await eizenService.insertVectors([
+	 *   { vector: [0.1, 0.2, 0.3], metadata: { content: "first" } },
+	 *   { vector: [0.4, 0.5, 0.6], metadata: { content: "second" } },
+	 * ]);
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or insertion fails
+	 */
+	async insertVectors(data: InsertVector[]): Promise<number[]> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(`Inserting ${data.length} vectors in a batch`);
+
+			const metadatas: VectorMetadata[] = [];
+			for (const item of data) {
+				metadatas.push(await this.seal(item.metadata));
+			}
+			const vectorIds = await this.vectorDb.insert_many(
+				data.map((item) => item.vector),
+				metadatas,
+			);
+
+			console.log(
+				`Vectors inserted successfully with IDs ${vectorIds[0]}..${vectorIds[vectorIds.length - 1]}`,
+			);
+
+			// Check wallet balance after successful insert
+			const arweaveConfig = await EizenService.getSharedArweaveConfig();
+			await logWalletBalanceAfterOperation(
+				arweaveConfig.warp,
+				arweaveConfig.wallet,
+				"batch insert",
+			);
+
+			return vectorIds;
+		} catch (error) {
+			console.error("Failed to insert vectors:", error);
+			throw new Error(
+				`Failed to insert vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Run several operations with their writes grouped together
+	 *
+	 * Inserts, updates and deletes made inside `fn` are held back and written
+	 * together once it resolves; reads inside `fn` already see them. If `fn`
+	 * throws, nothing is written.
+	 *
+	 * The writes go out in one contract interaction when they fit in it, in
+	 * several otherwise: if one of those fails, the earlier ones stay stored.
+	 *
+	 * @param fn - Operations to run, calling methods of this service
+	 * @returns Promise resolving to the result of `fn`
+	 *
+	 * @example
+	 * ```typescript
+	 * const id = await eizenService.batch(async () => {
+	 *   const [id] = await eizenService.insertVectors([parent]);
+	 *   await eizenService.updateVector(id, { metadata: { ...parent.metadata, linked: true } });
+	 *   return id;
+	 * });
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized, an operation fails or
+	 *   the writes fail (some of them may be stored)
+	 */
+	async batch<T>(fn: () => Promise<T>): Promise<T> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		return this.vectorDb.db.batch(fn);
+	}
+
 	/**
 	 * Search for the k most similar vectors using the HNSW algorithm
 	 *
@@ -415,6 +656,8 @@ Command: ${rechargeInfo.instructions}`,
 	 * @param data - Search parameters
 	 * @param data.query - The query vector to find similar vectors for
 	 * @param data.k - Number of nearest neighbors to return (must be > 0)
+	 * @param filter - Optional metadata predicate, applied during the graph traversal so
+	 * that up to k matching vectors are returned
 	 * @returns Promise resolving to array of similar vectors with distances and metadata
 	 *
 	 *@Note This operation doesn't cost any AR tokens
@@ -437,7 +680,10 @@ Command: ${rechargeInfo.instructions}`,
 	 *
 	 * @throws {Error} When the service is not initialized or search fails
 	 */
-	async searchVectors(data: SearchVector): Promise<EizenSearchResult[]> {
+	async searchVectors(
+		data: SearchVector,
+		filter?: MetadataFilter<VectorMetadata>,
+	): Promise<EizenSearchResult[]> {
 		await this.ensureInitialized();
 
 		if (!this.vectorDb) {
@@ -448,7 +694,11 @@ Command: ${rechargeInfo.instructions}`,
 			console.log(`Searching for ${data.k} nearest neighbors`);
 
 			// Perform k-nearest neighbor search using HNSW algorithm
-			const results = await this.vectorDb.knn_search(data.query, data.k);
+			const results = await this.vectorDb.knn_search(
+				data.query,
+				data.k,
+				filter && ((metadata) => filter(this.open(metadata))),
+			);
 
 			console.log(`Found ${results.length} similar vectors`);
 
@@ -456,7 +706,7 @@ Command: ${rechargeInfo.instructions}`,
 			return results.map((result) => ({
 				id: result.id,
 				distance: result.distance,
-				metadata: result.metadata || undefined,
+				metadata: this.open(result.metadata) || undefined,
 			}));
 		} catch (error) {
 			console.error("Failed to search vectors:", error);
@@ -466,6 +716,35 @@ Command: ${rechargeInfo.instructions}`,
 		}
 	}
 
+	/**
+	 * Convert a distance returned by searches into a cosine similarity
+	 *
+	 * Embeddings are L2-normalized, so each metric's distance maps to the same
+	 * similarity: cosine distances are 1 - similarity, inner product distances
+	 * are -similarity and L2 distances are sqrt(2 - 2 * similarity). Thresholds
+	 * on similarities then hold whatever the index metric.
+	 *
+	 * @param distance - Distance of a search result or graph neighbor
+	 * @returns The cosine similarity, from -1 (opposite) to 1 (identical)
+	 *
+	 * @example
+	 * ```typescript
+	 * const [closest] = await eizenService.searchVectors({ query, k: 1 });
+	 * const similarity = eizenService.toSimilarity(closest.distance);
+	 * ```
+	 */
+	toSimilarity(distance: number): number {
+		const metric = this.vectorDb?.metric ?? EizenService.getHnswParams().metric;
+		switch (metric) {
+			case "ip":
+				return -distance;
+			case "l2":
+				return 1 - distance ** 2 / 2;
+			default:
+				return 1 - distance;
+		}
+	}
+
 	/**
 	 * Retrieve a specific vector by its unique ID (Experimental)
 	 *
@@ -501,6 +780,13 @@ Command: ${rechargeInfo.instructions}`,
 		try {
 			console.log(`Retrieving vector with ID: ${vectorId}`);
 
+			// Deleted (tombstoned) vectors are treated as missing
+			const [visible] = await this.vectorDb.db.get_visibles([vectorId]);
+			if (!visible) {
+				console.log(`Vector ${vectorId} not found`);
+				return null;
+			}
+
 			// Fetch vector data by ID from the database
 			const result = await this.vectorDb.get_vector(vectorId);
 
@@ -508,7 +794,7 @@ Command: ${rechargeInfo.instructions}`,
 				console.log(`Vector ${vectorId} retrieved successfully`);
 				return {
 					point: result.point,
-					metadata: result.metadata || undefined,
+					metadata: this.open(result.metadata) || undefined,
 				};
 			}
 
@@ -522,6 +808,978 @@ Command: ${rechargeInfo.instructions}`,
 		}
 	}
 
+	/**
+	 * Update a vector and/or its metadata in place
+	 *
+	 * When a new vector is given, it replaces the old one under the same ID and
+	 * the point is re-linked in the HNSW graph. Otherwise only the metadata is
+	 * overwritten, which doesn't touch the graph.
+	 *
+	 * @param vectorId - The unique identifier of the vector to update
+	 * @param data - The new vector and/or metadata (metadata is replaced, not merged)
+	 * @returns Promise resolving to false if the vector doesn't exist or was deleted
+	 *
+	 * @example
+	 * ```typescript
+	 * const updated = await eizenService.updateVector(123, {
+	 *   vector: [0.1, 0.2, 0.3, 0.4, 0.5],
+	 *   metadata: { content: "User's favorite color is green" },
+	 * });
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or the update fails
+	 */
+	async updateVector(
+		vectorId: number,
+		data: { vector?: VectorEmbedding; metadata?: VectorMetadata },
+	): Promise<boolean> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(`Updating vector with ID: ${vectorId}`);
+
+			const [visible] = await this.vectorDb.db.get_visibles([vectorId]);
+			if (!visible) {
+				console.log(`Vector ${vectorId} not found`);
+				return false;
+			}
+
+			if (data.vector) {
+				await this.vectorDb.update(
+					vectorId,
+					data.vector,
+					await this.seal(data.metadata),
+				);
+			} else if (data.metadata) {
+				await this.vectorDb.db.set_metadata(
+					vectorId,
+					await this.seal(data.metadata),
+				);
+			}
+
+			console.log(`Vector ${vectorId} updated successfully`);
+
+			// Check wallet balance after successful update
+			const arweaveConfig = await EizenService.getSharedArweaveConfig();
+			await logWalletBalanceAfterOperation(
+				arweaveConfig.warp,
+				arweaveConfig.wallet,
+				"update",
+			);
+
+			return true;
+		} catch (error) {
+			console.error(`Failed to update vector ${vectorId}:`, error);
+			throw new Error(
+				`Failed to update vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Delete a vector by its unique ID
+	 *
+	 * By default the vector is only tombstoned: it disappears from searches and
+	 * lookups but stays in the HNSW graph to keep it navigable. A hard delete also
+	 * removes it from the graph and reconnects its neighbors, which costs more writes.
+	 * A vector already tombstoned can still be hard deleted.
+	 *
+	 * @param vectorId - The unique identifier of the vector to delete
+	 * @param hard - Whether to also remove the vector from the graph (default: false)
+	 * @returns Promise resolving to false if the vector doesn't exist, or was already deleted for a soft delete
+	 *
+	 * @example
+	 * ```typescript
+	 * const deleted = await eizenService.deleteVector(123);
+	 * if (!deleted) {
+	 *   console.log('Vector not found');
+	 * }
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or deletion fails
+	 */
+	async deleteVector(vectorId: number, hard = false): Promise<boolean> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(
+				`Deleting vector with ID: ${vectorId} (${hard ? "hard" : "soft"})`,
+			);
+
+			if (hard) {
+				// Tombstoned vectors are still in the graph and can be removed from it
+				const size = await this.vectorDb.db.get_datasize();
+				if (vectorId < 0 || vectorId >= size) {
+					console.log(`Vector ${vectorId} not found`);
+					return false;
+				}
+				await this.vectorDb.hard_delete(vectorId);
+			} else {
+				const [visible] = await this.vectorDb.db.get_visibles([vectorId]);
+				if (!visible) {
+					console.log(`Vector ${vectorId} not found`);
+					return false;
+				}
+				await this.vectorDb.delete(vectorId);
+			}
+
+			console.log(`Vector ${vectorId} deleted successfully`);
+
+			// Check wallet balance after successful delete
+			const arweaveConfig = await EizenService.getSharedArweaveConfig();
+			await logWalletBalanceAfterOperation(
+				arweaveConfig.warp,
+				arweaveConfig.wallet,
+				"delete",
+			);
+
+			return true;
+		} catch (error) {
+			console.error(`Failed to delete vector ${vectorId}:`, error);
+			throw new Error(
+				`Failed to delete vector: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove every tombstoned vector from the HNSW graph
+	 *
+	 * Soft deletes leave vectors in the graph, so searches keep walking through
+	 * them. Compacting hard deletes them all and drops the connections still
+	 * pointing at them.
+	 *
+	 * @returns Promise resolving to the number of vectors removed from the graph
+	 *
+	 * @example
+	 * ```typescript
+	 * const removed = await eizenService.compactVectors();
+	 * console.log(`${removed} deleted vectors removed from the graph`);
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or compaction fails
+	 */
+	async compactVectors(): Promise<number> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log("Compacting vector index");
+
+			const removed = await this.vectorDb.compact();
+
+			console.log(`Removed ${removed} deleted vectors from the graph`);
+
+			if (removed > 0) {
+				// Check wallet balance after successful compaction
+				const arweaveConfig = await EizenService.getSharedArweaveConfig();
+				await logWalletBalanceAfterOperation(
+					arweaveConfig.warp,
+					arweaveConfig.wallet,
+					"compact",
+				);
+			}
+
+			return removed;
+		} catch (error) {
+			console.error("Failed to compact vectors:", error);
+			throw new Error(
+				`Failed to compact vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Index the text of vectors for keyword search
+	 *
+	 * The keyword index is a BM25 inverted index stored in the same contract as
+	 * the vectors, under its own keys. Vectors indexed again replace their
+	 * previous text. Unlocked instances index nothing: the index stores the
+	 * tokens of the text in the clear.
+	 *
+	 * @param docs - The vector IDs and the text to index for each
+	 *
+	 * @example
+	 * ```typescript
+	 * await eizenService.indexKeywords([{ id: 123, text: "Deploy of ORION failed" }]);
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or indexing fails
+	 */
+	async indexKeywords(docs: { id: number; text: string }[]): Promise<void> {
+		await this.ensureInitialized();
+
+		if (!this.keywordIndex) {
+			throw new Error("Keyword index not initialized");
+		}
+
+		if (this.metadataKey) {
+			console.log("Keywords of encrypted metadata are not indexed");
+			return;
+		}
+
+		try {
+			console.log(`Indexing keywords of ${docs.length} vectors`);
+			await this.keywordIndex.add_many(docs);
+		} catch (error) {
+			console.error("Failed to index keywords:", error);
+			throw new Error(
+				`Failed to index keywords: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove a vector from the keyword index
+	 *
+	 * @param vectorId - The unique identifier of the vector to remove
+	 *
+	 * @throws {Error} When the service is not initialized or removal fails
+	 */
+	async removeKeywords(vectorId: number): Promise<void> {
+		await this.ensureInitialized();
+
+		if (!this.keywordIndex) {
+			throw new Error("Keyword index not initialized");
+		}
+
+		try {
+			console.log(`Removing keywords of vector ${vectorId}`);
+			await this.keywordIndex.remove(vectorId);
+		} catch (error) {
+			console.error(`Failed to remove keywords of vector ${vectorId}:`, error);
+			throw new Error(
+				`Failed to remove keywords: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Search for the k vectors whose text best matches a query, ranked with BM25
+	 *
+	 * Unlike `searchVectors`, only exact tokens match (words, emails, codes...).
+	 * Deleted vectors and vectors rejected by the filter are skipped, so up to k
+	 * matching vectors are returned.
+	 *
+	 * @param query - The text to search for
+	 * @param k - Number of results to return
+	 * @param filter - Optional metadata predicate
+	 * @returns Promise resolving to the matching vectors, most relevant first
+	 *
+	 *@Note This operation doesn't cost any AR tokens
+	 *
+	 * @throws {Error} When the service is not initialized or search fails
+	 */
+	async searchKeywords(
+		query: string,
+		k: number,
+		filter?: MetadataFilter<VectorMetadata>,
+	): Promise<EizenKeywordResult[]> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb || !this.keywordIndex) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(`Searching for ${k} keyword matches`);
+
+			const matches = await this.keywordIndex.search(query);
+			const results: EizenKeywordResult[] = [];
+
+			// Walk the ranking chunk by chunk until k matches pass the checks
+			for (
+				let start = 0;
+				start < matches.length && results.length < k;
+				start += KEYWORD_CHUNK_SIZE
+			) {
+				const chunk = matches.slice(start, start + KEYWORD_CHUNK_SIZE);
+				const ids = chunk.map((match) => match.id);
+				const visible = await this.vectorDb.db.get_visibles(ids);
+				const metadatas = (await this.vectorDb.db.get_metadatas(ids)).map(
+					(metadata) => this.open(metadata),
+				);
+
+				chunk.forEach((match, i) => {
+					if (results.length >= k || !visible[i]) return;
+					if (filter && !filter(metadatas[i])) return;
+					results.push({
+						id: match.id,
+						score: match.score,
+						metadata: metadatas[i] || undefined,
+					});
+				});
+			}
+
+			console.log(`Found ${results.length} keyword matches`);
+			return results;
+		} catch (error) {
+			console.error("Failed to search keywords:", error);
+			throw new Error(
+				`Failed to search keywords: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Index the `content` of every visible vector (chunks excepted) for keyword search
+	 *
+	 * Used after importing a snapshot, which only holds the vector index.
+	 * Every touched key of the keyword index is written in one call.
+	 *
+	 * @returns Promise resolving to the number of indexed vectors
+	 *
+	 * @throws {Error} When the service is not initialized or indexing fails
+	 */
+	async rebuildKeywordIndex(): Promise<number> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb || !this.keywordIndex) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			const size = await this.vectorDb.db.get_datasize();
+			const docs: { id: number; text: string }[] = [];
+
+			for (let start = 0; start < size; start += KEYWORD_CHUNK_SIZE) {
+				const ids = Array.from(
+					{ length: Math.min(KEYWORD_CHUNK_SIZE, size - start) },
+					(_, i) => start + i,
+				);
+				const visible = await this.vectorDb.db.get_visibles(ids);
+				const metadatas = await this.vectorDb.db.get_metadatas(ids);
+				ids.forEach((id, i) => {
+					const content = metadatas[i]?.content;
+					// Chunks of long contents are searched through their parent
+					if (metadatas[i]?.parentId !== undefined) return;
+					if (visible[i] && typeof content === "string") {
+						docs.push({ id, text: content });
+					}
+				});
+			}
+
+			console.log(`Rebuilding keyword index with ${docs.length} vectors`);
+			await this.keywordIndex.add_many(docs);
+			return docs.length;
+		} catch (error) {
+			console.error("Failed to rebuild keyword index:", error);
+			throw new Error(
+				`Failed to rebuild keyword index: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Read the metadata of a range of vectors, deleted ones included
+	 *
+	 * Vector IDs are consecutive from 0, so walking `start` from 0 to `size`
+	 * visits every vector ever inserted, in insertion order.
+	 *
+	 * @param start - First vector ID to read
+	 * @param count - Maximum number of vectors to read
+	 * @returns Promise resolving to the current size of the index and the read vectors
+	 *
+	 * @example
+	 * ```typescript
+	 * const { size, vectors } = await eizenService.scanVectors(0, 50);
+	 * const live = vectors.filter((vector) => vector.visible);
+	 * ```
+	 *
+	 *@Note This operation doesn't cost any AR tokens
+	 *
+	 * @throws {Error} When the service is not initialized or reading fails
+	 */
+	async scanVectors(start: number, count: number): Promise<EizenScanResult> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			const size = await this.vectorDb.db.get_datasize();
+			const ids = Array.from(
+				{ length: Math.max(0, Math.min(count, size - start)) },
+				(_, i) => start + i,
+			);
+			if (ids.length === 0) {
+				return { size, vectors: [] };
+			}
+
+			const visible = await this.vectorDb.db.get_visibles(ids);
+			const metadatas = (await this.vectorDb.db.get_metadatas(ids)).map(
+				(metadata) => this.open(metadata),
+			);
+
+			return {
+				size,
+				vectors: ids.map((id, i) => ({
+					id,
+					visible: visible[i],
+					metadata: metadatas[i] || undefined,
+				})),
+			};
+		} catch (error) {
+			console.error("Failed to scan vectors:", error);
+			throw new Error(
+				`Failed to scan vectors: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Read the closest neighbors of vectors in the HNSW graph
+	 *
+	 * Neighbors come from the bottom layer of the graph, where every vector is
+	 * linked to its closest ones, so no search is needed. Deleted neighbors are
+	 * included, check their visibility if it matters.
+	 *
+	 * @param ids - IDs of stored vectors
+	 * @returns Promise resolving to the neighbors of each vector, closest first
+	 *
+	 * @throws {Error} When a vector isn't in the graph or the read fails
+	 */
+	async getNeighbors(
+		ids: number[],
+	): Promise<Map<number, { id: number; distance: number }[]>> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			const graph = await this.vectorDb.db.get_neighbors(0, ids);
+			return new Map(
+				ids.map((id) => [
+					id,
+					Object.entries(graph[id] ?? {})
+						.map(([neighbor, distance]) => ({
+							id: Number(neighbor),
+							distance,
+						}))
+						.sort((a, b) => a.distance - b.distance),
+				]),
+			);
+		} catch (error) {
+			console.error("Failed to read neighbors:", error);
+			throw new Error(
+				`Failed to read neighbors: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Export the whole index of the contract as a portable snapshot
+	 *
+	 * The snapshot holds vectors, graph, metadata and HNSW parameters in Eizen's
+	 * versioned binary format, and can be imported into another contract. The
+	 * links of the memories, the pinned embedding model and the salt and key
+	 * check of encrypted metadata are carried along in its extras.
+	 *
+	 * @returns Promise resolving to the encoded snapshot
+	 *
+	 * @throws {Error} When the service is not initialized or the export fails
+	 */
+	async exportSnapshot(): Promise<Uint8Array> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(`Exporting snapshot of contract ${this.contractId}`);
+
+			const extras: Record<string, string> = {
+				[EMBEDDING_MODEL_KEY]: await this.getEmbeddingModel(),
+			};
+			const [salt, keyCheck] = (await this.sdk?.getMany([
+				KEY_SALT_KEY,
+				KEY_CHECK_KEY,
+			])) ?? [null, null];
+			if (salt && keyCheck) {
+				extras[KEY_SALT_KEY] = salt;
+				extras[KEY_CHECK_KEY] = keyCheck;
+			}
+			const size = await this.vectorDb.db.get_datasize();
+			for (let start = 0; start < size; start += SNAPSHOT_LINKS_CHUNK_SIZE) {
+				const ids = Array.from(
+					{ length: Math.min(SNAPSHOT_LINKS_CHUNK_SIZE, size - start) },
+					(_, i) => start + i,
+				);
+				for (const [id, links] of await this.getLinks(ids)) {
+					if (links.length > 0) {
+						extras[`${LINKS_PREFIX}${id}`] = JSON.stringify(links);
+					}
+				}
+			}
+
+			const snapshot = await this.vectorDb.exportSnapshot(extras);
+			console.log(`Snapshot exported (${snapshot.byteLength} bytes)`);
+			return snapshot;
+		} catch (error) {
+			console.error("Failed to export snapshot:", error);
+			throw new Error(
+				`Failed to export snapshot: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Check whether a snapshot can be imported into this contract
+	 *
+	 * Its vectors must be made with the embedding model pinned to the contract,
+	 * and its encrypted metadata, if any, with the key the contract's is (same
+	 * secret and salt, so one of them must come from the other's snapshot).
+	 * Snapshots exported before they carried these are not checked.
+	 *
+	 * @param data - Snapshot produced by `exportSnapshot`
+	 * @returns Promise resolving to why the snapshot can't be imported, or null if it can
+	 *
+	 * @throws {Error} When the snapshot is invalid or the contract can't be read
+	 */
+	async getSnapshotConflict(data: Uint8Array): Promise<string | null> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const { extras } = EizenService.snapshotInfo(data);
+
+		const model = extras[EMBEDDING_MODEL_KEY];
+		const pinnedModel = await this.getEmbeddingModel();
+		if (model && model !== pinnedModel) {
+			return `Snapshot memories are embedded with ${model}, but this contract uses ${pinnedModel}`;
+		}
+
+		// Keys derived with different salts differ, even from the same secret
+		const [salt, keyCheck] = await this.sdk.getMany([
+			KEY_SALT_KEY,
+			KEY_CHECK_KEY,
+		]);
+		if (
+			extras[KEY_CHECK_KEY] &&
+			keyCheck &&
+			(extras[KEY_SALT_KEY] !== salt || extras[KEY_CHECK_KEY] !== keyCheck)
+		) {
+			return "Snapshot memories are encrypted with another key than this contract's";
+		}
+
+		return null;
+	}
+
+	/**
+	 * Import a snapshot into the (empty) index of the contract
+	 *
+	 * Vectors keep their IDs, so nothing is re-embedded. The links of the
+	 * memories and the salt and key check of encrypted metadata are restored
+	 * from the snapshot's extras once the index is written, so the secret of
+	 * the exporting contract reads them.
+	 *
+	 * Nothing is written if the snapshot can't be imported. Large snapshots
+	 * are written in several transactions, so a failing write can leave one
+	 * partly imported.
+	 *
+	 * @param data - Snapshot produced by `exportSnapshot`
+	 * @returns Promise resolving to the number of imported vectors, including deleted ones
+	 *
+	 * @throws {Error} When the contract is not empty, or the snapshot is incompatible
+	 */
+	async importSnapshot(data: Uint8Array): Promise<number> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		try {
+			console.log(`Importing snapshot into contract ${this.contractId}`);
+
+			const conflict = await this.getSnapshotConflict(data);
+			if (conflict) {
+				throw new Error(conflict);
+			}
+
+			const imported = await this.vectorDb.importSnapshot(data);
+
+			const { extras } = EizenService.snapshotInfo(data);
+			if (
+				extras[KEY_SALT_KEY] &&
+				extras[KEY_CHECK_KEY] &&
+				!(await this.sdk?.get(KEY_CHECK_KEY))
+			) {
+				await this.sdk?.setMany(
+					[KEY_SALT_KEY, KEY_CHECK_KEY],
+					[extras[KEY_SALT_KEY], extras[KEY_CHECK_KEY]],
+				);
+				// The key of this instance was derived with a salt the snapshot replaced
+				if (this.pendingKeyPin) {
+					this.metadataKey = null;
+					this.pendingKeyPin = null;
+				}
+			}
+			const links = Object.entries(extras).filter(([key]) =>
+				key.startsWith(LINKS_PREFIX),
+			);
+			for (let i = 0; i < links.length; i += SNAPSHOT_LINKS_CHUNK_SIZE) {
+				await this.setLinks(
+					new Map(
+						links
+							.slice(i, i + SNAPSHOT_LINKS_CHUNK_SIZE)
+							.map(([key, value]) => [
+								Number(key.slice(LINKS_PREFIX.length)),
+								JSON.parse(value) as MemoryLink[],
+							]),
+					),
+				);
+			}
+
+			console.log(`Snapshot imported (${imported} vectors)`);
+
+			// Check wallet balance after successful import
+			const arweaveConfig = await EizenService.getSharedArweaveConfig();
+			await logWalletBalanceAfterOperation(
+				arweaveConfig.warp,
+				arweaveConfig.wallet,
+				"import",
+			);
+
+			return imported;
+		} catch (error) {
+			console.error("Failed to import snapshot:", error);
+			throw new Error(
+				`Failed to import snapshot: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Read the parameters and memory counts of a snapshot without importing it
+	 *
+	 * @param data - Snapshot produced by `exportSnapshot`
+	 * @returns The snapshot summary
+	 *
+	 * @throws {Error} When the data is not a supported Eizen snapshot
+	 */
+	static snapshotInfo(data: Uint8Array): SnapshotInfo {
+		return EizenDbVector.snapshotInfo(data);
+	}
+
+	/**
+	 * Get the embedding model the vectors of this contract are made with
+	 *
+	 * Contracts deployed before models could be chosen have no pinned model,
+	 * all their vectors were made with all-MiniLM-L6-v2.
+	 *
+	 * @returns Promise resolving to the registry ID of the pinned model
+	 *
+	 * @throws {Error} When the service is not initialized or the pinned model is unknown
+	 */
+	async getEmbeddingModel(): Promise<EmbeddingModelId> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const model = await this.sdk.get(EMBEDDING_MODEL_KEY);
+		if (!model) {
+			return LEGACY_EMBEDDING_MODEL;
+		}
+		if (!isEmbeddingModel(model)) {
+			throw new Error(
+				`Contract ${this.contractId} is pinned to unknown embedding model "${model}"`,
+			);
+		}
+		return model;
+	}
+
+	/**
+	 * Pin the embedding model the vectors of this contract are made with
+	 *
+	 * Called once at deploy time, before any vector is stored: vectors of
+	 * different models can't be compared, so the model can't change afterwards.
+	 *
+	 * @param model - Registry ID of the model to pin
+	 *
+	 * @throws {Error} When the contract already holds vectors or the write fails
+	 */
+	async pinEmbeddingModel(model: EmbeddingModelId): Promise<void> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		if ((await this.getVectorCount()) > 0) {
+			throw new Error(
+				"The embedding model can only be pinned on a contract without vectors",
+			);
+		}
+
+		try {
+			console.log(
+				`Pinning embedding model ${model} to contract ${this.contractId}`,
+			);
+			await this.sdk.set(EMBEDDING_MODEL_KEY, model);
+		} catch (error) {
+			console.error("Failed to pin embedding model:", error);
+			throw new Error(
+				`Failed to pin embedding model: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Unlock the instance with the caller's secret, to read and write encrypted metadata
+	 *
+	 * The key is derived from the secret and the salt of the contract, see
+	 * `deriveMetadataKey`, and only kept by this instance. The first encrypted
+	 * write stores a random salt and a check value of the key in the contract,
+	 * unless another secret was stored since this instance was unlocked: secrets
+	 * whose key doesn't match are refused from then on. One secret serves the
+	 * whole contract, collections included.
+	 *
+	 * Once unlocked, metadata written is encrypted and encrypted metadata read
+	 * is decrypted. Without unlocking, encrypted metadata is read as stored.
+	 *
+	 * @param secret - The caller's secret
+	 * @returns Promise resolving to false if the contract's metadata is encrypted with another secret
+	 *
+	 * @throws {Error} When the read fails
+	 */
+	async unlock(secret: string): Promise<boolean> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const [salt, keyCheck] = await this.sdk.getMany([
+			KEY_SALT_KEY,
+			KEY_CHECK_KEY,
+		]);
+		if (salt && keyCheck) {
+			const key = deriveMetadataKey(secret, salt);
+			if (keyCheck !== keyCheckValue(key)) {
+				return false;
+			}
+			this.metadataKey = key;
+			this.pendingKeyPin = null;
+			return true;
+		}
+
+		// No secret was used with the contract yet, pick its salt
+		const newSalt = createKeySalt();
+		this.metadataKey = deriveMetadataKey(secret, newSalt);
+		this.pendingKeyPin = [newSalt, keyCheckValue(this.metadataKey)];
+		return true;
+	}
+
+	/**
+	 * Check whether metadata of the contract was ever written encrypted
+	 *
+	 * @returns Promise resolving to true once an unlocked instance wrote to the contract
+	 *
+	 * @throws {Error} When the read fails
+	 */
+	async hasEncryptedMetadata(): Promise<boolean> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		return Boolean(await this.sdk.get(KEY_CHECK_KEY));
+	}
+
+	/**
+	 * Encrypts metadata about to be written, when the instance is unlocked
+	 *
+	 * @private
+	 * @throws {Error} When another secret was stored since the instance was unlocked
+	 */
+	private async seal(metadata: VectorMetadata): Promise<VectorMetadata> {
+		if (!this.metadataKey || !metadata) {
+			return metadata;
+		}
+
+		if (this.pendingKeyPin && this.sdk) {
+			const [, keyCheck] = this.pendingKeyPin;
+			// Checked before and after, a secret stored in between wins over this one
+			if (!(await this.sdk.get(KEY_CHECK_KEY))) {
+				await this.sdk.setMany(
+					[KEY_SALT_KEY, KEY_CHECK_KEY],
+					this.pendingKeyPin,
+				);
+			}
+			if ((await this.sdk.get(KEY_CHECK_KEY)) !== keyCheck) {
+				this.metadataKey = null;
+				this.pendingKeyPin = null;
+				throw new Error(
+					"The memories of this contract are encrypted with another secret",
+				);
+			}
+			this.pendingKeyPin = null;
+		}
+		return encryptMetadata(metadata, this.metadataKey);
+	}
+
+	/**
+	 * Decrypts metadata just read, when the instance is unlocked
+	 *
+	 * @private
+	 */
+	private open(
+		metadata: VectorMetadata | null | undefined,
+	): VectorMetadata | null | undefined {
+		if (!this.metadataKey || !metadata) {
+			return metadata;
+		}
+		return decryptMetadata(metadata, this.metadataKey);
+	}
+
+	/**
+	 * List the collections created in the contract
+	 *
+	 * The default index is not a collection and is not listed.
+	 *
+	 * @returns Promise resolving to the collection names, in creation order
+	 *
+	 * @throws {Error} When the read fails
+	 */
+	async listCollections(): Promise<string[]> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const collections = await this.sdk.get(COLLECTIONS_KEY);
+		return collections ? (JSON.parse(collections) as string[]) : [];
+	}
+
+	/**
+	 * Create a named collection in the contract
+	 *
+	 * A collection is an index of its own, with its own entry point, layers and
+	 * keyword index, stored under a key prefix of the same contract. Serve it with
+	 * `EizenService.forContract(contractId, name)`.
+	 *
+	 * @param name - Name of the collection, a valid key prefix (no slash)
+	 * @returns Promise resolving to false if the collection already exists
+	 *
+	 * @throws {Error} When the write fails
+	 */
+	async createCollection(name: string): Promise<boolean> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		const collections = await this.listCollections();
+		if (collections.includes(name)) {
+			return false;
+		}
+
+		try {
+			console.log(`Creating collection ${name} in contract ${this.contractId}`);
+			await this.sdk.set(
+				COLLECTIONS_KEY,
+				JSON.stringify([...collections, name]),
+			);
+			return true;
+		} catch (error) {
+			console.error("Failed to create collection:", error);
+			throw new Error(
+				`Failed to create collection: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Read the links of memories to other memories
+	 *
+	 * Links are stored on both of their ends, under keys next to the vectors of
+	 * the index, so both directions are read at once.
+	 *
+	 * @param ids - IDs of stored vectors
+	 * @returns Promise resolving to the links of each vector, empty when it has none
+	 *
+	 * @throws {Error} When the read fails
+	 */
+	async getLinks(ids: number[]): Promise<Map<number, MemoryLink[]>> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		try {
+			const values = await this.sdk.getMany(ids.map((id) => this.linksKey(id)));
+			return new Map(
+				ids.map((id, i) => [
+					id,
+					values[i] ? (JSON.parse(values[i]) as MemoryLink[]) : [],
+				]),
+			);
+		} catch (error) {
+			console.error("Failed to read links:", error);
+			throw new Error(
+				`Failed to read links: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Replace the links of memories, each end of a link must be written
+	 *
+	 * @param links - Every link of each memory to write
+	 *
+	 * @throws {Error} When the write fails
+	 */
+	async setLinks(links: Map<number, MemoryLink[]>): Promise<void> {
+		await this.ensureInitialized();
+
+		if (!this.sdk) {
+			throw new Error("HollowDB SDK not initialized");
+		}
+
+		try {
+			await this.sdk.setMany(
+				[...links.keys()].map((id) => this.linksKey(id)),
+				[...links.values()].map((memoryLinks) => JSON.stringify(memoryLinks)),
+			);
+		} catch (error) {
+			console.error("Failed to write links:", error);
+			throw new Error(
+				`Failed to write links: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Key holding the links of a memory, in the namespace of the collection
+	 */
+	private linksKey(id: number): string {
+		return `${this.collection ? `${this.collection}/` : ""}${LINKS_PREFIX}${id}`;
+	}
+
 	// ============================================================================
 	// Support Functions
 	// These functions are not part of the core Eizen logic,
@@ -594,6 +1852,7 @@ Command: ${rechargeInfo.instructions}`,
 			// Reset initialization state for this instance
 			this.isInitialized = false;
 			this.vectorDb = null;
+			this.keywordIndex = null;
 			this.sdk = null;
 
 			console.log(
@@ -655,7 +1914,7 @@ Command: ${rechargeInfo.instructions}`,
 
 		console.log("Shared Arweave configuration initialized");
 		console.log(
-			`HNSW Parameters: m=${hnswParams.m}, efConstruction=${hnswParams.efConstruction}, efSearch=${hnswParams.efSearch}`,
+			`HNSW Parameters: m=${hnswParams.m}, efConstruction=${hnswParams.efConstruction}, efSearch=${hnswParams.efSearch}, metric=${hnswParams.metric}, quantization=${hnswParams.quantization}`,
 		);
 	}
 }
@@ -1,4 +1,16 @@
-import { pipeline } from "@xenova/transformers";
+import {
+	AutoModelForSequenceClassification,
+	AutoTokenizer,
+	type PreTrainedModel,
+	type PreTrainedTokenizer,
+	pipeline,
+} from "@xenova/transformers";
+import {
+	EMBEDDING_MODELS,
+	type EmbeddingModelConfig,
+	type EmbeddingModelId,
+	getDefaultEmbeddingModel,
+} from "../config/embeddingModels.js";
 import type { VectorEmbedding } from "../schemas/eizen.js";
 
 type EmbeddingPipeline = (
@@ -15,6 +27,16 @@ export interface EmbeddingResult {
 	model: string;
 }
 
+/**
+ * @property model - Registry model to embed with (default: EMBEDDING_MODEL)
+ * @property type - Whether the texts are search queries or stored contents,
+ *   models trained with prefixes embed both differently (default: passage)
+ */
+export interface EmbeddingOptions {
+	model?: EmbeddingModelId;
+	type?: "query" | "passage";
+}
+
 /**
  * Service class for converting text to vector embeddings using transformer language models.
  *
@@ -23,22 +45,38 @@ export interface EmbeddingResult {
  * provides both single and batch processing capabilities.
  *
  * Technical Details:
- * - Uses the "all-MiniLM-L6-v2" model (384-dimensional embeddings)
- * - Employs mean pooling to combine token-level embeddings
+ * - Uses the models of the registry in config/embeddingModels.ts, "all-MiniLM-L6-v2"
+ *   (384-dimensional embeddings) unless EMBEDDING_MODEL says otherwise
+ * - Each model is loaded on first use and kept in memory, with its own pooling
+ *   (mean or CLS) and query/passage prefixes
  * - Outputs are L2-normalized for consistent similarity calculations
+ * - Optionally scores (query, text) pairs with the "ms-marco-MiniLM-L-6-v2"
+ *   cross-encoder to rerank search results, loaded on first use
  */
 export class EmbeddingService {
-	private extractor: EmbeddingPipeline | null = null;
-	private isInitialized = false;
-	private initializationPromise: Promise<void> | null = null;
+	// Loaded feature-extraction pipelines, one per model
+	private extractors = new Map<EmbeddingModelId, EmbeddingPipeline>();
+	private initializationPromises = new Map<EmbeddingModelId, Promise<void>>();
 	/**
-	 * all-MiniLM-L6-v2 is a lightweight, fast model that produces `384-dimensional` embeddings.
-	 *  @see https://huggingface.co/Xenova/all-MiniLM-L6-v2
+	 * Model used when callers don't pick one, all-MiniLM-L6-v2 by default: a
+	 * lightweight, fast model that produces `384-dimensional` embeddings.
 	 */
-	private readonly modelName = "Xenova/all-MiniLM-L6-v2";
+	private readonly defaultModel = getDefaultEmbeddingModel();
+
+	// Cross-encoder reading the query and a text together, more precise than comparing embeddings
+	private reranker: {
+		tokenizer: PreTrainedTokenizer;
+		model: PreTrainedModel;
+	} | null = null;
+	private rerankerPromise: Promise<void> | null = null;
+	/**
+	 * ms-marco-MiniLM-L-6-v2 is a cross-encoder trained on MS MARCO passage ranking.
+	 *  @see https://huggingface.co/Xenova/ms-marco-MiniLM-L-6-v2
+	 */
+	private readonly rerankModelName = "Xenova/ms-marco-MiniLM-L-6-v2";
 
 	/**
-	 * Loads the transformer model and prepares the feature-extraction pipeline.
+	 * Loads a transformer model and prepares its feature-extraction pipeline.
 	 *
 	 * This method handles the heavy lifting of downloading and initializing the
 	 * transformer model. The model files are cached locally after first download.
@@ -49,19 +87,21 @@ export class EmbeddingService {
 	 * 3. Marks service as ready for use
 	 *
 	 * @private
+	 * @param model - The registry model to load
 	 * @throws {Error} If model loading or pipeline initialization fails
 	 */
-	private async initialize(): Promise<void> {
+	private async initialize(model: EmbeddingModelId): Promise<void> {
 		try {
+			const { name } = EMBEDDING_MODELS[model];
 			console.log("Initializing EmbeddingService...");
-			console.log(`Loading model: ${this.modelName}`);
+			console.log(`Loading model: ${name}`);
 
-			this.extractor = (await pipeline(
+			const extractor = (await pipeline(
 				"feature-extraction",
-				this.modelName,
+				name,
 			)) as EmbeddingPipeline; // This may take time on first run as it downloads model files
 
-			this.isInitialized = true;
+			this.extractors.set(model, extractor);
 			console.log("EmbeddingService initialized successfully");
 		} catch (error) {
 			console.error("EmbeddingService initialization failed:", error);
@@ -70,35 +110,42 @@ export class EmbeddingService {
 	}
 
 	/**
-	 * Ensure the service is initialized before operations
+	 * Ensure a model is loaded before operations
 	 * Public method to allow controlled initialization during server startup
-	 * Prevents multiple concurrent initialization attempts
+	 * Prevents multiple concurrent initialization attempts of the same model
+	 *
+	 * @param model - The registry model to load (default: EMBEDDING_MODEL)
+	 * @returns The loaded pipeline of the model
 	 */
-	async ensureInitialized(): Promise<void> {
+	async ensureInitialized(
+		model: EmbeddingModelId = this.defaultModel,
+	): Promise<EmbeddingPipeline> {
 		// If already initialized, return immediately
-		if (this.isInitialized && this.extractor) {
-			return;
+		const loaded = this.extractors.get(model);
+		if (loaded) {
+			return loaded;
 		}
 
 		// If initialization is already in progress, wait for it
-		if (this.initializationPromise) {
-			await this.initializationPromise;
-			return;
+		let initialization = this.initializationPromises.get(model);
+		if (!initialization) {
+			// Start new initialization
+			initialization = this.initialize(model);
+			this.initializationPromises.set(model, initialization);
 		}
 
-		// Start new initialization
-		this.initializationPromise = this.initialize();
-
 		try {
-			await this.initializationPromise;
+			await initialization;
 		} finally {
 			// Clear the promise once initialization is complete
-			this.initializationPromise = null;
+			this.initializationPromises.delete(model);
 		}
 
-		if (!this.extractor) {
+		const extractor = this.extractors.get(model);
+		if (!extractor) {
 			throw new Error("EmbeddingService is not properly initialized");
 		}
+		return extractor;
 	}
 
 	/**
@@ -109,28 +156,34 @@ export class EmbeddingService {
 	 * vector representation suitable for similarity calculations.
 	 *
 	 * Processing steps:
-	 * 1. Tokenize the input text
-	 * 2. Generate token-level embeddings
-	 * 3. Apply mean pooling to create sentence-level embedding
-	 * 4. L2-normalize the final vector
+	 * 1. Prefix the text as the model expects for queries or passages
+	 * 2. Tokenize the input text
+	 * 3. Generate token-level embeddings
+	 * 4. Apply the model's pooling (mean or CLS) to create sentence-level embedding
+	 * 5. L2-normalize the final vector
 	 *
 	 * @param text - The input string to convert to a vector embedding
+	 * @param options - Model to use and whether the text is a query or a passage
 	 * @returns Promise resolving to an EmbeddingResult with the vector and metadata
 	 * @throws {Error} If the service is not initialized or embedding generation fails
 	 *
 	 * @example
 	 * ```typescript
-	 * const result = await embeddingService.textToEmbeddings("machine learning");
+	 * const result = await embeddingService.textToEmbeddings("machine learning", {
+	 *   model: "e5-small-v2",
+	 *   type: "query",
+	 * });
 	 * console.log(`Generated ${result.dimensions}D embedding for text`);
 	 * console.log(`First few values: ${result.embeddings.slice(0, 5)}`);
 	 * ```
 	 */
-	async textToEmbeddings(text: string): Promise<EmbeddingResult> {
-		await this.ensureInitialized();
-
-		if (!this.extractor) {
-			throw new Error("Extractor not initialized");
-		}
+	async textToEmbeddings(
+		text: string,
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResult> {
+		const model = options.model ?? this.defaultModel;
+		const config = EMBEDDING_MODELS[model];
+		const extractor = await this.ensureInitialized(model);
 
 		try {
 			console.log(
@@ -138,9 +191,9 @@ export class EmbeddingService {
 			);
 
 			// The pipeline returns a Float32Array (or number[]) and dims describing its shape.
-			const response = await this.extractor([text], {
-				pooling: "mean", // Mean-pool token embeddings to get sentence embedding
-				normalize: true, // L2-normalize for consistent similarity calculations
+			const response = await extractor([this.prefix(text, config, options)], {
+				pooling: config.pooling, // Pool token embeddings to get sentence embedding
+				normalize: config.normalize, // L2-normalize for consistent similarity calculations
 			});
 
 			// Convert to plain number[] for easier downstream use & JSON serialization
@@ -152,7 +205,7 @@ export class EmbeddingService {
 			return {
 				embeddings,
 				dimensions: embeddings.length,
-				model: this.modelName,
+				model: config.name,
 			};
 		} catch (error) {
 			console.error("Failed to generate embeddings:", error);
@@ -176,26 +229,31 @@ export class EmbeddingService {
 	 * - Lower memory allocation overhead
 	 *
 	 * @param texts - Array of strings to convert to embeddings
+	 * @param options - Model to use and whether the texts are queries or passages
 	 * @returns Promise resolving to array of EmbeddingResult objects in the same order as input
 	 * @throws {Error} If the service is not initialized or batch processing fails
 	 *
 	 * @TODO Need further work and tests
 	 */
-	async batchTextToEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
-		await this.ensureInitialized();
-
-		if (!this.extractor) {
-			throw new Error("Extractor not initialized");
-		}
+	async batchTextToEmbeddings(
+		texts: string[],
+		options: EmbeddingOptions = {},
+	): Promise<EmbeddingResult[]> {
+		const model = options.model ?? this.defaultModel;
+		const config = EMBEDDING_MODELS[model];
+		const extractor = await this.ensureInitialized(model);
 
 		try {
 			console.log(`Converting ${texts.length} texts to embeddings (batch)`);
 
 			// Process all texts in a single pipeline call for efficiency
-			const response = await this.extractor(texts, {
-				pooling: "mean",
-				normalize: true,
-			});
+			const response = await extractor(
+				texts.map((text) => this.prefix(text, config, options)),
+				{
+					pooling: config.pooling,
+					normalize: config.normalize,
+				},
+			);
 
 			// Extract embedding dimension as the last axis of the tensor
 			// This works correctly for tensors of any dimensionality (1D, 2D, 3D, etc.)
@@ -230,7 +288,7 @@ export class EmbeddingService {
 				results.push({
 					embeddings,
 					dimensions: embeddings.length,
-					model: this.modelName,
+					model: config.name,
 				});
 			} else if (response.dims.length === 2) {
 				// 2D case: [batch_size, embedding_dim] - most common case
@@ -256,7 +314,7 @@ export class EmbeddingService {
 					results.push({
 						embeddings,
 						dimensions: embeddings.length,
-						model: this.modelName,
+						model: config.name,
 					});
 				}
 			} else {
@@ -278,15 +336,126 @@ export class EmbeddingService {
 		}
 	}
 
+	/**
+	 * Scores how well each text answers a query with the cross-encoder.
+	 *
+	 * Unlike embeddings, which are computed for the query and the texts separately,
+	 * the cross-encoder reads each (query, text) pair at once, which ranks the best
+	 * match more reliably but has to run once per text. Meant for reranking a few
+	 * search candidates, not for searching a whole index.
+	 *
+	 * The model is loaded on first call (and downloaded if not cached).
+	 *
+	 * @param query - The search query
+	 * @param texts - The candidate texts to score against the query
+	 * @returns Promise resolving to one relevance score in [0, 1] per text, in input order
+	 * @throws {Error} If the model fails to load or scoring fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const scores = await embeddingService.rerank("favorite color", [
+	 *   "User's favorite color is blue",
+	 *   "User works remotely on Fridays",
+	 * ]);
+	 * // scores[0] > scores[1]
+	 * ```
+	 */
+	async rerank(query: string, texts: string[]): Promise<number[]> {
+		if (texts.length === 0) return [];
+
+		if (!this.reranker) {
+			// Concurrent first calls share the same loading
+			if (!this.rerankerPromise) {
+				this.rerankerPromise = this.initializeReranker();
+			}
+			try {
+				await this.rerankerPromise;
+			} finally {
+				this.rerankerPromise = null;
+			}
+		}
+
+		if (!this.reranker) {
+			throw new Error("Reranker not initialized");
+		}
+
+		try {
+			console.log(`Reranking ${texts.length} texts with the cross-encoder`);
+
+			const { tokenizer, model } = this.reranker;
+			const inputs = tokenizer(new Array(texts.length).fill(query), {
+				text_pair: texts,
+				padding: true,
+				truncation: true,
+			});
+			const { logits } = await model(inputs);
+
+			// One relevance logit per pair, squashed into [0, 1]
+			return Array.from(
+				logits.data as Float32Array,
+				(logit) => 1 / (1 + Math.exp(-logit)),
+			);
+		} catch (error) {
+			console.error("Failed to rerank texts:", error);
+			throw new Error(
+				`Failed to rerank texts: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Loads the cross-encoder tokenizer and model used by `rerank`.
+	 *
+	 * @private
+	 * @throws {Error} If model loading fails
+	 */
+	private async initializeReranker(): Promise<void> {
+		try {
+			console.log(`Loading reranking model: ${this.rerankModelName}`);
+
+			const [tokenizer, model] = await Promise.all([
+				AutoTokenizer.from_pretrained(this.rerankModelName),
+				AutoModelForSequenceClassification.from_pretrained(
+					this.rerankModelName,
+				),
+			]);
+			this.reranker = { tokenizer, model };
+
+			console.log("Reranking model loaded successfully");
+		} catch (error) {
+			console.error("Reranking model initialization failed:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Prepends the prefix the model was trained with for queries or passages.
+	 *
+	 * @private
+	 */
+	private prefix(
+		text: string,
+		config: EmbeddingModelConfig,
+		options: EmbeddingOptions,
+	): string {
+		return options.type === "query"
+			? `${config.queryPrefix}${text}`
+			: `${config.passagePrefix}${text}`;
+	}
+
 	/**
 	 * Returns metadata about the service's current state and configuration.
 	 *
-	 * @returns Object containing model name and initialization status
+	 * @returns Object containing the default model name, whether it is loaded,
+	 *   and the names of every loaded model
 	 */
-	getInfo(): { model: string; isInitialized: boolean } {
+	getInfo(): { model: string; isInitialized: boolean; loadedModels: string[] } {
 		return {
-			model: this.modelName,
-			isInitialized: this.isInitialized,
+			model: EMBEDDING_MODELS[this.defaultModel].name,
+			isInitialized: this.extractors.has(this.defaultModel),
+			loadedModels: [...this.extractors.keys()].map(
+				(model) => EMBEDDING_MODELS[model].name,
+			),
 		};
 	}
 }
@@ -295,7 +464,7 @@ export class EmbeddingService {
  * Singleton instance of EmbeddingService for application-wide use.
  *
  * This singleton pattern ensures that:
- * - Only one model is loaded in memory at a time
+ * - Each model is loaded in memory at most once
  * - Initialization overhead is minimized
  * - Consistent behavior across the application
  */
@@ -0,0 +1,155 @@
+import { and, eq, lte } from "drizzle-orm";
+import { db } from "../db/db.js";
+import { expiringContractsTable } from "../db/schema/expiringContracts.js";
+import type { MemoryMetadata } from "../schemas/common.js";
+import { EizenService } from "./EizenService.js";
+import { MemoryService } from "./MemoryService.js";
+import { getActiveMigration } from "./MigrationService.js";
+
+// Minutes between two sweeps of expired memories
+const DEFAULT_SWEEP_INTERVAL_MINUTES = 60;
+
+// Set while a sweep is in progress, a slow sweep makes the next one skip its turn
+let sweeping = false;
+
+/**
+ * Checks whether memory metadata sets an expiry, as `ttl` or `expiresAt`
+ *
+ * @param {Partial<MemoryMetadata>} [metadata] - Metadata of a created or updated memory
+ * @returns {boolean} True when the memory will expire
+ */
+export function hasExpiry(metadata?: Partial<MemoryMetadata>): boolean {
+	return metadata?.ttl !== undefined || metadata?.expiresAt !== undefined;
+}
+
+/**
+ * Queues a contract for the expiry sweeps, until it holds no expiring memory
+ *
+ * Expired memories are left out of searches as soon as they expire, sweeps
+ * only tombstone them. The queue is kept in the database, so contracts stay
+ * queued across restarts. Failures are logged, not thrown: the memory is
+ * stored either way.
+ *
+ * @param {string} contractId - Contract that received an expiring memory
+ * @param {string} userId - Clerk user ID owning the contract
+ */
+export async function markForExpirySweep(
+	contractId: string,
+	userId: string,
+): Promise<void> {
+	try {
+		await db
+			.insert(expiringContractsTable)
+			.values({ contractId, clerkId: userId })
+			.onConflictDoUpdate({
+				target: expiringContractsTable.contractId,
+				set: { markedAt: new Date() },
+			});
+	} catch (error) {
+		console.error(`Error queueing contract ${contractId} for expiry:`, error);
+	}
+}
+
+/**
+ * Deletes the expired memories of a contract, the default index then each collection
+ *
+ * @param {string} contractId - Contract to sweep
+ * @returns {Promise<{deleted: number, pending: number}>} Memories deleted, and
+ *          memories left that expire later
+ * @throws {Error} When a collection can't be read
+ */
+export async function sweepContract(
+	contractId: string,
+): Promise<{ deleted: number; pending: number }> {
+	const contract = await EizenService.forContract(contractId);
+	const collections = [undefined, ...(await contract.listCollections())];
+
+	let deleted = 0;
+	let pending = 0;
+	for (const collection of collections) {
+		const eizenService = await EizenService.forContract(contractId, collection);
+		const result = await new MemoryService(
+			eizenService,
+		).deleteExpiredMemories();
+		deleted += result.deleted.length;
+		pending += result.pending;
+
+		if (result.deleted.length > 0) {
+			console.log(
+				`Deleted ${result.deleted.length} expired memories of ${contractId}/${collection ?? "default"}`,
+			);
+		}
+	}
+
+	return { deleted, pending };
+}
+
+/**
+ * Sweeps every contract holding expiring memories
+ *
+ * Contracts of users with a migration in progress are swept once it ends:
+ * their memories are being copied and must not change until the switch.
+ * Contracts left without expiring memories leave the queue, unless they
+ * received one while being swept.
+ *
+ * @returns {Promise<number>} Number of expired memories deleted
+ */
+export async function runExpirySweep(): Promise<number> {
+	if (sweeping) {
+		console.warn("Previous expiry sweep still running, skipping this one");
+		return 0;
+	}
+	sweeping = true;
+
+	let deleted = 0;
+	try {
+		const contracts = await db.select().from(expiringContractsTable);
+		for (const { contractId, clerkId, markedAt } of contracts) {
+			if (await getActiveMigration(clerkId)) continue;
+
+			try {
+				const result = await sweepContract(contractId);
+				deleted += result.deleted;
+				if (result.pending === 0) {
+					await db
+						.delete(expiringContractsTable)
+						.where(
+							and(
+								eq(expiringContractsTable.contractId, contractId),
+								lte(expiringContractsTable.markedAt, markedAt),
+							),
+						);
+				}
+			} catch (error) {
+				console.error(`Failed to sweep contract ${contractId}:`, error);
+			}
+		}
+	} catch (error) {
+		console.error("Expiry sweep failed:", error);
+	} finally {
+		sweeping = false;
+	}
+
+	return deleted;
+}
+
+/**
+ * Starts sweeping expired memories at a regular interval
+ *
+ * Sweep parameters (configured via environment variables):
+ * - EXPIRY_SWEEP_INTERVAL_MINUTES: Minutes between two sweeps, 0 disables them (default: 60)
+ *
+ * The timer doesn't keep the process alive on shutdown.
+ */
+export function startExpirySweep(): void {
+	const minutes = Number(
+		process.env.EXPIRY_SWEEP_INTERVAL_MINUTES ?? DEFAULT_SWEEP_INTERVAL_MINUTES,
+	);
+	if (!Number.isFinite(minutes) || minutes <= 0) {
+		console.log("Expired memory sweeps are disabled");
+		return;
+	}
+
+	setInterval(runExpirySweep, minutes * 60 * 1000).unref();
+	console.log(`Expired memories swept every ${minutes} minutes`);
+}
@@ -0,0 +1,539 @@
+import { beforeEach, expect, test, vi } from "vitest";
+import type { VectorMetadata } from "../schemas/eizen.js";
+import {
+	batchCreateMemorySchema,
+	createMemorySchema,
+	searchMemorySchema,
+} from "../schemas/memory.js";
+import type { EizenService, MemoryLink } from "./EizenService.js";
+import { MemoryService } from "./MemoryService.js";
+
+const { embed, classify } = vi.hoisted(() => ({
+	// Letter frequencies, so that texts spelled alike embed alike
+	embed: (text: string) => {
+		const counts = Array.from(
+			{ length: 26 },
+			(_, i) =>
+				text.toLowerCase().split(String.fromCharCode(97 + i)).length - 1,
+		);
+		const norm = Math.hypot(...counts) || 1;
+		return counts.map((count) => count / norm);
+	},
+	classify: vi.fn(),
+}));
+
+vi.mock("./EmbeddingService.js", () => ({
+	embeddingService: {
+		textToEmbeddings: async (text: string) => ({ embeddings: embed(text) }),
+		batchTextToEmbeddings: async (texts: string[]) =>
+			texts.map((text) => ({ embeddings: embed(text) })),
+	},
+}));
+
+vi.mock("./ContradictionService.js", () => ({
+	getContradictionClassifier: () => ({ name: "test", classify }),
+}));
+
+/**
+ * In-memory stand-in for a contract's Eizen index, searched exhaustively
+ * by cosine distance
+ */
+class MemoryEizen {
+	vectors: { point: number[]; metadata?: VectorMetadata; visible: boolean }[] =
+		[];
+	links = new Map<number, MemoryLink[]>();
+	keywords = new Map<number, string>();
+
+	async getEmbeddingModel() {
+		return "all-minilm-l6-v2" as const;
+	}
+
+	async batch<T>(fn: () => Promise<T>) {
+		return fn();
+	}
+
+	async insertVectors(data: { vector: number[]; metadata?: VectorMetadata }[]) {
+		return data.map(
+			({ vector, metadata }) =>
+				this.vectors.push({ point: vector, metadata, visible: true }) - 1,
+		);
+	}
+
+	async searchVectors(
+		{ query, k }: { query: number[]; k: number },
+		filter?: (metadata?: VectorMetadata | null) => boolean,
+	) {
+		return this.vectors
+			.map(({ point, metadata, visible }, id) => ({
+				id,
+				metadata,
+				visible,
+				distance: 1 - point.reduce((sum, v, i) => sum + v * query[i], 0),
+			}))
+			.filter(
+				({ metadata, visible }) => visible && (!filter || filter(metadata)),
+			)
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, k)
+			.map(({ id, distance, metadata }) => ({ id, distance, metadata }));
+	}
+
+	toSimilarity(distance: number) {
+		return 1 - distance;
+	}
+
+	async getVector(id: number) {
+		const vector = this.vectors[id];
+		return vector?.visible
+			? { point: vector.point, metadata: vector.metadata }
+			: null;
+	}
+
+	async updateVector(
+		id: number,
+		data: { vector?: number[]; metadata?: VectorMetadata },
+	) {
+		const vector = this.vectors[id];
+		if (!vector?.visible) return false;
+		this.vectors[id] = {
+			...vector,
+			point: data.vector ?? vector.point,
+			metadata: data.metadata ?? vector.metadata,
+		};
+		return true;
+	}
+
+	async deleteVector(id: number) {
+		const vector = this.vectors[id];
+		if (!vector?.visible) return false;
+		vector.visible = false;
+		return true;
+	}
+
+	async scanVectors(start: number, count: number) {
+		return {
+			size: this.vectors.length,
+			vectors: this.vectors
+				.slice(start, start + count)
+				.map(({ metadata, visible }, i) => ({
+					id: start + i,
+					visible,
+					metadata,
+				})),
+		};
+	}
+
+	async indexKeywords(docs: { id: number; text: string }[]) {
+		for (const { id, text } of docs) {
+			this.keywords.set(id, text.toLowerCase());
+		}
+	}
+
+	async removeKeywords(id: number) {
+		this.keywords.delete(id);
+	}
+
+	// Scores the number of query words a memory contains
+	async searchKeywords(
+		query: string,
+		k: number,
+		filter?: (metadata?: VectorMetadata | null) => boolean,
+	) {
+		const words = query.toLowerCase().split(/\s+/);
+		return [...this.keywords]
+			.map(([id, text]) => ({
+				id,
+				score: words.filter((word) => text.split(/\s+/).includes(word)).length,
+				metadata: this.vectors[id].metadata,
+			}))
+			.filter(
+				({ id, score, metadata }) =>
+					score > 0 &&
+					this.vectors[id].visible &&
+					(!filter || filter(metadata)),
+			)
+			.sort((a, b) => b.score - a.score || a.id - b.id)
+			.slice(0, k);
+	}
+
+	async getLinks(ids: number[]) {
+		return new Map(ids.map((id) => [id, [...(this.links.get(id) ?? [])]]));
+	}
+
+	async setLinks(links: Map<number, MemoryLink[]>) {
+		for (const [id, memoryLinks] of links) {
+			this.links.set(id, memoryLinks);
+		}
+	}
+}
+
+let eizen: MemoryEizen;
+let memoryService: MemoryService;
+
+beforeEach(() => {
+	eizen = new MemoryEizen();
+	memoryService = new MemoryService(eizen as unknown as EizenService);
+	classify.mockImplementation(async (pairs: unknown[]) => pairs.map(() => 0));
+});
+
+const create = (data: Record<string, unknown>) =>
+	memoryService.createMemory(createMemorySchema.parse(data));
+
+const search = (data: Record<string, unknown>) =>
+	memoryService.searchMemories(searchMemorySchema.parse(data));
+
+test("near-duplicates are rejected, merged or linked by the dedupe mode", async () => {
+	await create({
+		content: "User prefers dark mode",
+		metadata: { importance: 4, tags: ["ui"] },
+	});
+
+	const rejected = await create({
+		content: "User prefers dark mode!",
+		dedupe: "reject",
+	});
+	expect(rejected).toMatchObject({
+		success: false,
+		memoryId: 0,
+		duplicate: { action: "rejected", duplicateOf: 0 },
+	});
+
+	const merged = await create({
+		content: "user prefers DARK mode",
+		metadata: { tags: ["preference"] },
+		dedupe: "merge",
+	});
+	expect(merged).toMatchObject({
+		success: true,
+		memoryId: 0,
+		duplicate: { action: "merged", duplicateOf: 0 },
+	});
+	expect(eizen.vectors[0].metadata).toMatchObject({
+		content: "User prefers dark mode",
+		importance: 5,
+		tags: ["ui", "preference"],
+		duplicates: 1,
+		version: 2,
+	});
+
+	const linked = await create({
+		content: "User prefers dark mode.",
+		dedupe: "link",
+	});
+	expect(linked).toMatchObject({
+		success: true,
+		memoryId: 1,
+		duplicate: { action: "linked", duplicateOf: 0 },
+	});
+	expect(eizen.vectors[1].metadata?.duplicateOf).toBe(0);
+
+	// Without a mode, nothing is looked for
+	expect((await create({ content: "User prefers dark mode" })).memoryId).toBe(
+		2,
+	);
+	expect(eizen.vectors).toHaveLength(3);
+});
+
+test("batch inserts apply the dedupe mode of each memory", async () => {
+	await create({
+		content: "User prefers dark mode",
+		metadata: { tags: ["ui"] },
+	});
+
+	const result = await memoryService.createMemories(
+		batchCreateMemorySchema.parse({
+			memories: [
+				{ content: "User prefers dark mode!", dedupe: "reject" },
+				{ content: "Meeting with Bob on Tuesday" },
+				{
+					content: "user prefers dark mode",
+					metadata: { tags: ["a"] },
+					dedupe: "merge",
+				},
+				{
+					content: "User prefers DARK mode",
+					metadata: { tags: ["b"] },
+					dedupe: "merge",
+				},
+				{ content: "User prefers dark mode.", dedupe: "link" },
+			],
+		}),
+	);
+
+	expect(result).toMatchObject({
+		success: false,
+		created: 2,
+		duplicates: 3,
+		failed: 0,
+	});
+	expect(result.results.map(({ index }) => index)).toEqual([0, 1, 2, 3, 4]);
+	expect(result.results[0]).toMatchObject({
+		success: false,
+		memoryId: 0,
+		duplicate: { action: "rejected" },
+	});
+	expect(result.results[2].duplicate?.action).toBe("merged");
+	expect(result.results[4]).toMatchObject({
+		success: true,
+		duplicate: { action: "linked", duplicateOf: 0 },
+	});
+
+	// Both merges count, the second one building on the first
+	expect(eizen.vectors[0].metadata).toMatchObject({
+		tags: ["ui", "a", "b"],
+		duplicates: 2,
+		version: 3,
+	});
+	expect(eizen.vectors.map(({ metadata }) => metadata?.content)).toEqual([
+		"User prefers dark mode",
+		"Meeting with Bob on Tuesday",
+		"User prefers dark mode.",
+	]);
+});
+
+test("hybrid search fuses the semantic and keyword rankings by reciprocal rank", async () => {
+	for (const content of [
+		"deploy of orion failed with e_conn_reset",
+		"orion kickoff is due in may",
+		"e_conn_reset seen on the staging proxy",
+		"lunch with the team",
+	]) {
+		await create({ content });
+	}
+	const query = "orion e_conn_reset";
+
+	const keyword = await search({ query, mode: "keyword" });
+	expect(keyword.map(({ id }) => id)).toEqual([0, 1, 2]);
+	expect(keyword[0]).toMatchObject({
+		content: "deploy of orion failed with e_conn_reset",
+		score: 2,
+	});
+
+	// Each memory scores 1 / (60 + rank) in every ranking it appears in
+	const semantic = await search({ query, k: 50 });
+	const expected = new Map<number, number>();
+	for (const ranking of [semantic, keyword]) {
+		ranking.forEach(({ id }, rank) => {
+			expected.set(id, (expected.get(id) ?? 0) + 1 / (60 + rank + 1));
+		});
+	}
+
+	const hybrid = await search({ query, mode: "hybrid" });
+	expect(hybrid.map(({ id }) => id)).toEqual(
+		[...expected].sort((a, b) => b[1] - a[1]).map(([id]) => id),
+	);
+	for (const memory of hybrid) {
+		expect(memory.score).toBeCloseTo(expected.get(memory.id) ?? 0);
+		expect(memory.distance).toBe(
+			semantic.find(({ id }) => id === memory.id)?.distance,
+		);
+	}
+
+	// Found by neither, keyword search returns nothing
+	expect(await search({ query: "budget", mode: "keyword" })).toEqual([]);
+});
+
+test("ranking weighs similarity, recency and importance", async () => {
+	const daysAgo = (days: number) =>
+		new Date(Date.now() - days * 86_400_000).toISOString();
+	await create({
+		content: "User prefers dark mode",
+		metadata: { timestamp: daysAgo(60), importance: 2 },
+	});
+	await create({
+		content: "Quarterly budget review",
+		metadata: { timestamp: daysAgo(0), importance: 9 },
+	});
+	await create({ content: "Undated note" });
+
+	const query = "User prefers dark mode";
+	const [closest] = await search({ query, k: 1 });
+	expect(closest.id).toBe(0);
+	expect(closest.ranking).toBeUndefined();
+
+	const ranked = await search({
+		query,
+		ranking: {
+			similarity: 0.2,
+			recency: 0.4,
+			importance: 0.4,
+			halfLifeDays: 30,
+		},
+	});
+	expect(ranked.map(({ id }) => id)).toEqual([1, 0, 2]);
+
+	// Two half-lives old, recency is a quarter
+	expect(ranked[1].ranking).toEqual({
+		similarity: expect.closeTo(1),
+		recency: expect.closeTo(0.25),
+		importance: 0.2,
+		score: expect.closeTo(0.2 * 1 + 0.4 * 0.25 + 0.4 * 0.2),
+	});
+	expect(ranked[0].ranking?.recency).toBeCloseTo(1);
+	expect(ranked[2].ranking).toMatchObject({ recency: 0, importance: 0 });
+
+	// Relevance alone keeps the semantic order
+	const relevance = await search({
+		query,
+		ranking: { similarity: 1, recency: 0, importance: 0 },
+	});
+	expect(relevance[0].id).toBe(0);
+});
+
+test("expired memories are left out of searches, then deleted by the sweep", async () => {
+	vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+	try {
+		await create({ content: "Door code is 4521", metadata: { ttl: 60 } });
+		await create({
+			content: "Door code changes in spring",
+			metadata: { expiresAt: "2026-06-01T00:00:00Z" },
+		});
+		await create({ content: "Door code is kept by the concierge" });
+		expect(eizen.vectors[0].metadata).toMatchObject({
+			expiresAt: "2026-01-01T00:01:00.000Z",
+		});
+		expect(eizen.vectors[0].metadata).not.toHaveProperty("ttl");
+		expect(await search({ query: "door code", mode: "keyword" })).toHaveLength(
+			3,
+		);
+
+		vi.setSystemTime(new Date("2026-01-01T00:02:00Z"));
+		const ids = async (mode: string) =>
+			(await search({ query: "door code", mode })).map(({ id }) => id).sort();
+		expect(await ids("semantic")).toEqual([1, 2]);
+		expect(await ids("keyword")).toEqual([1, 2]);
+
+		expect(await memoryService.deleteExpiredMemories()).toEqual({
+			deleted: [0],
+			pending: 1,
+		});
+		expect(eizen.vectors[0].visible).toBe(false);
+		expect(eizen.keywords.has(0)).toBe(false);
+		expect(await memoryService.deleteExpiredMemories()).toEqual({
+			deleted: [],
+			pending: 1,
+		});
+	} finally {
+		vi.useRealTimers();
+	}
+});
+
+test("links are stored on both memories and followed by searches", async () => {
+	for (const content of [
+		"Decision to ship orion in may",
+		"Call with the client about orion",
+		"Client budget is tight",
+		"Lunch with the team",
+	]) {
+		await create({ content });
+	}
+
+	expect(
+		await memoryService.linkMemories(0, { target: 1, type: "derived_from" }),
+	).toMatchObject({ success: true, source: 0, target: 1 });
+	await memoryService.linkMemories(1, { target: 2, type: "relates_to" });
+	expect(eizen.links.get(1)).toEqual([
+		{ id: 0, type: "derived_from", direction: "in" },
+		{ id: 2, type: "relates_to", direction: "out" },
+	]);
+
+	const again = await memoryService.linkMemories(0, {
+		target: 1,
+		type: "derived_from",
+	});
+	expect(again?.message).toBe(
+		"Memory 0 was already linked to memory 1 as derived_from",
+	);
+	expect(
+		await memoryService.linkMemories(0, { target: 9, type: "relates_to" }),
+	).toBeNull();
+	await expect(
+		memoryService.linkMemories(0, { target: 0, type: "relates_to" }),
+	).rejects.toThrow("A memory can't be linked to itself");
+
+	// Linked memories come after the results, nearest hops first
+	const expanded = await search({
+		query: "decision",
+		mode: "keyword",
+		expand: 2,
+	});
+	expect(expanded.map(({ id, link }) => [id, link])).toEqual([
+		[0, undefined],
+		[1, { from: 0, type: "derived_from", direction: "out", hops: 1 }],
+		[2, { from: 1, type: "relates_to", direction: "out", hops: 2 }],
+	]);
+	const [, reached] = await search({
+		query: "budget",
+		mode: "keyword",
+		expand: 1,
+	});
+	expect(reached.link).toEqual({
+		from: 2,
+		type: "relates_to",
+		direction: "in",
+		hops: 1,
+	});
+
+	// Deleted memories are neither returned nor followed
+	await memoryService.deleteMemory(1);
+	expect(
+		await search({ query: "decision", mode: "keyword", expand: 2 }),
+	).toHaveLength(1);
+
+	expect(await memoryService.unlinkMemories(0, 1)).toBe(1);
+	expect(eizen.links.get(0)).toEqual([]);
+	expect(eizen.links.get(1)).toEqual([
+		{ id: 2, type: "relates_to", direction: "out" },
+	]);
+});
+
+test("contradicted memories are flagged, or superseded by the new one", async () => {
+	classify.mockImplementation(async (pairs: { premise: string }[]) =>
+		pairs.map(({ premise }) => (premise.includes("Paris") ? 0.95 : 0.1)),
+	);
+	await create({ content: "User lives in Paris" });
+	await create({ content: "User likes green tea" });
+
+	const flagged = await create({ content: "User lives in Berlin" });
+	expect(flagged.contradictions).toEqual([
+		{
+			action: "flagged",
+			memoryId: 0,
+			content: "User lives in Paris",
+			similarity: expect.any(Number),
+			probability: 0.95,
+		},
+	]);
+	expect(eizen.links.get(2)).toEqual([
+		{ id: 0, type: "contradicts", direction: "out" },
+	]);
+	expect(eizen.vectors[0].metadata?.supersededBy).toBeUndefined();
+
+	// Memories the service can't decrypt are never candidates, even the closest ones
+	const content = "User lives in Berlin now";
+	for (let i = 0; i < 5; i++) {
+		eizen.vectors.push({
+			point: embed(content),
+			metadata: { encrypted: "ciphertext" },
+			visible: true,
+		});
+	}
+
+	const superseding = await create({ content, contradictions: "supersede" });
+	expect(superseding).toMatchObject({
+		memoryId: 8,
+		contradictions: [{ action: "superseded", memoryId: 0 }],
+	});
+	expect(eizen.vectors[0].metadata?.supersededBy).toBe(8);
+	expect(eizen.vectors[3].metadata).toEqual({ encrypted: "ciphertext" });
+
+	// Superseded memories are left out of searches
+	const results = await search({ query: "User lives in Paris", k: 10 });
+	expect(results.map(({ id }) => id)).not.toContain(0);
+
+	// A failing classifier doesn't prevent the memory from being stored
+	classify.mockRejectedValueOnce(new Error("Model download failed"));
+	const stored = await create({ content: "User lives in Paris again" });
+	expect(stored).toMatchObject({ success: true, memoryId: 9 });
+	expect(stored.contradictions).toBeUndefined();
+});
@@ -1,28 +1,204 @@
-import type { SearchFilters } from "../schemas/common.js";
+import type { MetadataFilter } from "eizendb";
+import httpErrors from "http-errors";
+import type { EmbeddingModelId } from "../config/embeddingModels.js";
+import type { MemoryMetadata, SearchFilters } from "../schemas/common.js";
 import type { VectorMetadata } from "../schemas/eizen.js";
-import type { CreateMemory, SearchMemory } from "../schemas/memory.js";
-import type { EizenService } from "./EizenService.js";
+import {
+	type BatchCreateMemory,
+	type ContradictionMode,
+	type CreateLink,
+	type CreateMemory,
+	contradictionModeSchema,
+	type DedupeMode,
+	dedupeModeSchema,
+	type LinkType,
+	type ListMemories,
+	type MemoryGraph,
+	type Ranking,
+	type SearchMemory,
+	type SearchMode,
+	type UpdateMemory,
+} from "../schemas/memory.js";
+import { chunkText } from "../utils/chunking.js";
+import { isEncrypted } from "../utils/encryption.js";
+import {
+	type ContradictionClassifier,
+	getContradictionClassifier,
+} from "./ContradictionService.js";
+import type {
+	EizenSearchResult,
+	EizenService,
+	MemoryLink,
+} from "./EizenService.js";
 import { embeddingService } from "./EmbeddingService.js";
+import { getSummarizer, type Summarizer } from "./SummarizerService.js";
+
+export interface ScoreBreakdown {
+	similarity: number; // Relevance to the query in [0, 1]
+	recency: number; // 1 for a memory saved now, halved every half-life, 0 when undated
+	importance: number; // Importance over 10, 0 when unset
+	score: number; // Weighted average of the three, what results are sorted by
+}
+
+export interface LinkResult {
+	from: number; // Memory the link was followed from
+	type: LinkType;
+	direction: "out" | "in"; // "out" when `from` is the source of the link
+	hops: number; // Links followed to reach the memory
+}
 
 export interface MemoryResult {
 	id: number;
 	content?: string;
 	metadata?: VectorMetadata;
 	distance?: number;
+	score?: number; // Keyword (BM25) or fused rank score in keyword and hybrid searches, higher is better
+	rerankScore?: number; // Cross-encoder relevance in [0, 1] when reranked, higher is better
+	ranking?: ScoreBreakdown; // How the result was ranked, when ranking weights were given
+	link?: LinkResult; // How the memory was reached, when pulled in by following links
+	matchedChunk?: string; // Part of a long memory that matched, when it isn't the beginning
+}
+
+export interface DuplicateResult {
+	action: "rejected" | "merged" | "linked";
+	duplicateOf: number; // ID of the near-identical memory already stored
+	similarity: number; // Cosine similarity of the two contents, in [0, 1]
+}
+
+export interface ContradictionResult {
+	action: "flagged" | "superseded";
+	memoryId: number; // ID of the stored memory the new one contradicts
+	content?: string;
+	similarity: number; // Cosine similarity of the two contents, in [0, 1]
+	probability: number; // Classifier confidence that they contradict, in [0, 1]
 }
 
 export interface CreateMemoryResult {
+	success: boolean;
+	memoryId: number; // ID of the existing memory when rejected or merged
+	message: string;
+	duplicate?: DuplicateResult; // Set when a near-identical memory was found
+	contradictions?: ContradictionResult[]; // Set when stored memories likely contradict the new one
+}
+
+export interface BatchMemoryItemResult {
+	index: number; // Position of the memory in the request
+	success: boolean;
+	memoryId?: number; // ID of the existing memory when rejected or merged
+	error?: string;
+	duplicate?: DuplicateResult; // Set when a near-identical memory was found
+}
+
+export interface BatchCreateMemoryResult {
+	success: boolean;
+	created: number;
+	duplicates: number; // Rejected or merged into a near-duplicate, nothing stored
+	failed: number;
+	results: BatchMemoryItemResult[];
+}
+
+export interface ListMemoriesResult {
+	memories: MemoryResult[];
+	nextCursor?: string; // Cursor of the next page, absent on the last one
+}
+
+export interface LinkMemoriesResult {
+	success: boolean;
+	source: number;
+	target: number;
+	type: LinkType;
+	message: string;
+}
+
+export interface MemoryGraphResult {
+	nodes: MemoryResult[]; // Linked memories, newest first
+	edges: { source: number; target: number; type: LinkType }[]; // Links between the nodes
+}
+
+export interface UpdateMemoryResult {
+	success: boolean;
+	memoryId: number;
+	version: number;
+	message: string;
+}
+
+export interface DeleteMemoryResult {
 	success: boolean;
 	memoryId: number;
 	message: string;
 }
 
+export interface CompactMemoriesResult {
+	removed: number; // Deleted memories and chunks removed from the vector graph
+}
+
+export interface ImportMemoriesResult {
+	success: boolean;
+	imported: number; // Vectors written, including deleted memories kept as tombstones
+	message: string;
+}
+
+export interface ExpiredMemoriesResult {
+	deleted: number[]; // IDs of the expired memories deleted
+	pending: number; // Memories left that expire later
+}
+
+export interface ConsolidatedMemory {
+	memoryId: number; // ID of the consolidated memory
+	sources: number[]; // IDs of the memories it supersedes
+}
+
+export interface ConsolidationResult {
+	clusters: number; // Groups of overlapping memories found
+	consolidated: ConsolidatedMemory[];
+	failed: number; // Clusters left as they were because summarizing or storing failed
+}
+
 export interface MemoryStats {
 	totalMemories: number;
 	embeddingService: "xenova" | "unavailable";
+	embeddingModel?: EmbeddingModelId; // Model pinned to the contract
 	isInitialized: boolean;
 }
 
+// Closest stored memory to a new content, found by `findDuplicate`
+interface Duplicate {
+	id: number;
+	metadata?: VectorMetadata;
+	similarity: number;
+}
+
+// Number of memories written to Eizen in one batch during batch creation
+const BATCH_GROUP_SIZE = 50;
+
+// Results fetched from each ranking before they are fused in hybrid search
+const HYBRID_CANDIDATES = 50;
+
+// Reciprocal-rank fusion constant, damps the weight of the very first ranks
+const RRF_K = 60;
+
+// Stored points whose visibility and metadata are read at once while listing
+const LIST_SCAN_SIZE = 100;
+
+// Candidates rescored by the cross-encoder when reranking
+const RERANK_CANDIDATES = 20;
+
+// Candidates weighed by recency and importance when ranking weights are given
+const RANKING_CANDIDATES = 50;
+
+// Recency half-lives are given in days
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chunks of one long memory can take several result slots, so semantic
+// searches fetch this many times k vectors before collapsing them
+const CHUNK_SEARCH_FACTOR = 3;
+
+// Smallest cosine similarity between a memory and the neighbors consolidated with it
+const CONSOLIDATION_MIN_SIMILARITY = 0.75;
+
+// Closest stored memories checked for contradictions with a new one
+const CONTRADICTION_CANDIDATES = 5;
+
 /**
  * MemoryService - Core service for semantic memory storage and retrieval via Context0 API
  *
@@ -34,7 +210,21 @@ export interface MemoryStats {
  *
  * Architecture:
  * Text Input → EmbeddingService → Vector → EizenService → Storage
+ *            → Keyword index (BM25) → Storage
  * Text Query → EmbeddingService → Vector → EizenService → Similar Memories
+ *            → Keyword index → Memories sharing exact tokens
+ *
+ * Contents longer than the model reads are split into overlapping chunks,
+ * each embedded as its own vector linked to the memory by `parentId`.
+ * Searches collapse chunk hits back into their memory.
+ *
+ * Services over an unlocked EizenService (see `EizenService.unlock`) store
+ * metadata encrypted, and aren't keyword searchable. Without the secret,
+ * encrypted memories are returned without content and can't be updated.
+ *
+ * Contents and queries are always embedded with the model pinned to the
+ * contract at deploy time. Requests naming another model are refused with
+ * a 409 Conflict instead of mixing vector spaces in one index.
  *
  * @example
  * ```typescript
@@ -57,6 +247,7 @@ export interface MemoryStats {
  */
 export class MemoryService {
 	private eizenService: EizenService;
+	private embeddingModel: EmbeddingModelId | null = null; // Pinned model, read once
 
 	/**
 	 * Creates a new MemoryService instance for a specific user
@@ -70,15 +261,42 @@ export class MemoryService {
 	 * Creates a new memory from text content
 	 *
 	 * Process:
-	 * 1. Converts text to vector embeddings using Xenova transformers
-	 * 2. Enhances metadata with system information
-	 * 3. Stores the vector in Eizen vector database
+	 * 1. Splits long content into overlapping chunks
+	 * 2. Converts each chunk to vector embeddings using Xenova transformers
+	 * 3. Looks for a near-identical memory, see `findDuplicate`
+	 * 4. Looks for stored memories the new one contradicts, see `findContradictions`
+	 * 5. Enhances metadata with system information
+	 * 6. Stores the memory and its chunks in Eizen vector database, in one batch
+	 * 7. Indexes the content for keyword search
+	 *
+	 * When a near-identical memory exists, `data.dedupe` decides what happens:
+	 * - `reject`: nothing is stored (`success` is false)
+	 * - `merge`: nothing is stored, the existing memory's importance is bumped and
+	 *   the new tags are added to it; it takes the place of the new memory below
+	 * - `link`: the memory is stored with `duplicateOf` set to the existing one
+	 * - `off`: the memory is stored as is
+	 *
+	 * Memories it likely contradicts are listed in `contradictions` and handled
+	 * per `data.contradictions`:
+	 * - `flag`: they are linked to the new memory as `contradicts`
+	 * - `supersede`: they are marked `supersededBy` the new memory, in the same
+	 *   batch, and linked to it as `supersedes`
+	 * - `off`: nothing is checked
+	 *
+	 * A flagged memory saved again with `supersede` is merged into its stored
+	 * copy, which then supersedes the memories it contradicts.
 	 *
 	 * @param data - Memory creation parameters
 	 * @param data.content - The text content to store as memory
 	 * @param data.metadata - Optional metadata (tags, importance, etc.)
+	 * @param data.model - Optional embedding model the caller expects
+	 * @param data.dedupe - Optional near-duplicate handling (default: DEDUPE_MODE, off)
+	 * @param data.dedupeThreshold - Optional similarity above which memories are near-duplicates
+	 *   (default: DEDUPE_THRESHOLD, 0.95)
+	 * @param data.contradictions - Optional contradiction handling (default: CONTRADICTION_MODE, flag)
 	 * @returns Promise resolving to creation result with new memory ID
 	 *
+	 * @throws {Conflict} When `data.model` isn't the model pinned to the contract
 	 * @throws {Error} When embedding generation or storage fails
 	 *
 	 * @example
@@ -94,34 +312,158 @@ export class MemoryService {
 	 * ```
 	 */
 	async createMemory(data: CreateMemory): Promise<CreateMemoryResult> {
+		const model = await this.resolveEmbeddingModel(data.model);
+
 		try {
 			console.log(
 				`Creating memory from ${data.content.length} characters of content`,
 			);
 
-			// Step 1: Convert human-readable text into numerical vectors
+			// Step 1: Split long content, the model only reads the start of a text
+			const chunks = chunkText(data.content);
+
+			// Step 2: Convert human-readable text into numerical vectors
 			// This enables semantic similarity matching later
 			// NOTE: For now we are only embedding the content. Metadata embedding is still in consideration
-			const embeddings = await this.textToEmbeddings(data.content);
+			const embeddings = await this.batchTextToEmbeddings(chunks, model);
+
+			// Step 3: Agents often save the same fact again, check before storing it
+			const dedupe = MemoryService.getDedupeParams(data);
+			const duplicate =
+				dedupe.mode !== "off" && chunks.length === 1
+					? await this.findDuplicate(embeddings[0], dedupe.threshold)
+					: null;
+			if (duplicate && dedupe.mode === "reject") {
+				return {
+					success: false,
+					memoryId: duplicate.id,
+					message: `Memory not stored, it duplicates memory ${duplicate.id}`,
+					duplicate: {
+						action: "rejected",
+						duplicateOf: duplicate.id,
+						similarity: duplicate.similarity,
+					},
+				};
+			}
+
+			// Step 4: A fact that changed leaves the old one in the index, find it
+			const contradiction = MemoryService.getContradictionParams(data);
+			const contradicted =
+				contradiction.mode !== "off"
+					? (
+							await this.findContradictions(
+								embeddings[0],
+								data.content,
+								contradiction,
+							)
+						).filter((memory) => memory.id !== duplicate?.id)
+					: [];
+			const supersede =
+				contradiction.mode === "supersede" && contradicted.length > 0;
+
+			// Saving a flagged memory again with supersede lands here: the
+			// existing memory takes over what the new content contradicts
+			if (duplicate && dedupe.mode === "merge") {
+				await this.eizenService.batch(async () => {
+					await this.mergeDuplicate(duplicate.id, duplicate.metadata, data);
+					if (supersede) {
+						for (const memory of contradicted) {
+							await this.eizenService.updateVector(memory.id, {
+								metadata: { ...memory.metadata, supersededBy: duplicate.id },
+							});
+						}
+					}
+				});
+
+				const contradictions = await this.linkContradictions(
+					duplicate.id,
+					contradicted,
+					supersede ? "superseded" : "flagged",
+				);
+				const ids = contradictions?.map((memory) => memory.memoryId).join(", ");
+				return {
+					success: true,
+					memoryId: duplicate.id,
+					message: supersede
+						? `Memory merged into memory ${duplicate.id}, it supersedes contradicting memories ${ids}`
+						: `Memory merged into memory ${duplicate.id}`,
+					duplicate: {
+						action: "merged",
+						duplicateOf: duplicate.id,
+						similarity: duplicate.similarity,
+					},
+					...(contradictions && { contradictions }),
+				};
+			}
 
-			// Step 2: Enhance user-provided metadata with system metadata
+			// Step 5: Enhance user-provided metadata with system metadata
 			// This ensures we have audit trail and content reference. More key-values can be added later
 			const enhancedMetadata: VectorMetadata = {
-				...data.metadata,
+				...MemoryService.resolveExpiry(data.metadata),
 				content: data.content,
+				version: 1,
+				...(duplicate && { duplicateOf: duplicate.id }),
 			};
-			// Step 3: Store the vector and metadata in Eizen vector database
-			const result = await this.eizenService.insertVector({
-				vector: embeddings, // currently API received content == vector // metadata != vector
-				metadata: enhancedMetadata,
+			// Step 6: Store the vectors and metadata in Eizen vector database
+			// currently API received content == vector // metadata != vector
+			const memoryId = await this.eizenService.batch(async () => {
+				const [memoryId] = await this.storeMemories([
+					{ metadata: enhancedMetadata, chunks, embeddings },
+				]);
+				if (supersede) {
+					for (const memory of contradicted) {
+						await this.eizenService.updateVector(memory.id, {
+							metadata: { ...memory.metadata, supersededBy: memoryId },
+						});
+					}
+				}
+				return memoryId;
 			});
 
-			console.log(`Memory created successfully with ID: ${result.vectorId}`);
+			console.log(`Memory created successfully with ID: ${memoryId}`);
+
+			// Step 7: Make exact tokens (codenames, emails, error codes) searchable
+			await this.indexKeywords([{ id: memoryId, text: data.content }]);
+
+			const contradictions = await this.linkContradictions(
+				memoryId,
+				contradicted,
+				supersede ? "superseded" : "flagged",
+			);
+
+			if (duplicate) {
+				return {
+					success: true,
+					memoryId,
+					message: `Memory created as a duplicate of memory ${duplicate.id}`,
+					duplicate: {
+						action: "linked",
+						duplicateOf: duplicate.id,
+						similarity: duplicate.similarity,
+					},
+					...(contradictions && { contradictions }),
+				};
+			}
+
+			if (contradictions) {
+				const ids = contradictions.map((memory) => memory.memoryId).join(", ");
+				return {
+					success: true,
+					memoryId,
+					message: supersede
+						? `Memory created, it supersedes contradicting memories ${ids}`
+						: `Memory created, it likely contradicts memories ${ids}`,
+					contradictions,
+				};
+			}
 
 			return {
 				success: true,
-				memoryId: result.vectorId,
-				message: `Memory created from ${data.content.length} characters of content`,
+				memoryId,
+				message:
+					chunks.length > 1
+						? `Memory created from ${data.content.length} characters of content, in ${chunks.length} chunks`
+						: `Memory created from ${data.content.length} characters of content`,
 			};
 		} catch (error) {
 			console.error("Failed to create memory:", error);
@@ -131,25 +473,242 @@ export class MemoryService {
 		}
 	}
 
+	/**
+	 * Creates many memories from text content in one call
+	 *
+	 * Process:
+	 * 1. Splits long contents into chunks and converts all of them to vector
+	 *    embeddings in a single batch
+	 * 2. Looks for a near-duplicate of each memory, handled by its `dedupe`
+	 *    mode as in {@link createMemory}
+	 * 3. Merges the memories in `merge` mode into their duplicates
+	 * 4. Enhances the other memories' metadata with system information
+	 * 5. Stores their vectors in Eizen in groups, each group written in one batch
+	 *
+	 * Memories are compared to the memories stored before the call, not to
+	 * each other. Contradictions aren't looked for.
+	 *
+	 * A failing group doesn't affect the others: its memories are reported as
+	 * failed in the per-item results while the rest are still stored.
+	 *
+	 * @param data - Batch creation parameters
+	 * @param data.memories - The memories to create, each with content, optional
+	 *   metadata and optional near-duplicate handling
+	 * @param data.model - Optional embedding model the caller expects
+	 * @returns Promise resolving to per-item results in the same order as the input
+	 *
+	 * @throws {Conflict} When `data.model` isn't the model pinned to the contract
+	 * @throws {Error} When embedding generation or the near-duplicate lookup fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.createMemories({
+	 *   memories: [
+	 *     { content: "User prefers dark mode" },
+	 *     { content: "User works remotely on Fridays", metadata: { importance: 6 } },
+	 *   ],
+	 * });
+	 * console.log(`${result.created} created, ${result.failed} failed`);
+	 * ```
+	 */
+	async createMemories(
+		data: BatchCreateMemory,
+	): Promise<BatchCreateMemoryResult> {
+		console.log(`Creating ${data.memories.length} memories in a batch`);
+		const model = await this.resolveEmbeddingModel(data.model);
+
+		// Step 1: Embed every chunk of every content in one pass through the model
+		const chunks = data.memories.map((memory) => chunkText(memory.content));
+		const flatEmbeddings = await this.batchTextToEmbeddings(
+			chunks.flat(),
+			model,
+		);
+		let offset = 0;
+		const embeddings = chunks.map((memoryChunks) => {
+			offset += memoryChunks.length;
+			return flatEmbeddings.slice(offset - memoryChunks.length, offset);
+		});
+
+		// Step 2: Agents often save the same fact again, check each memory
+		const results: BatchMemoryItemResult[] = [];
+		const merges: { index: number; duplicate: Duplicate }[] = [];
+		const pending: { index: number; duplicate: Duplicate | null }[] = [];
+		for (const [index, memory] of data.memories.entries()) {
+			const dedupe = MemoryService.getDedupeParams(memory);
+			const duplicate =
+				dedupe.mode !== "off" && chunks[index].length === 1
+					? await this.findDuplicate(embeddings[index][0], dedupe.threshold)
+					: null;
+			if (duplicate && dedupe.mode === "reject") {
+				results[index] = {
+					index,
+					success: false,
+					memoryId: duplicate.id,
+					error: `Memory not stored, it duplicates memory ${duplicate.id}`,
+					duplicate: {
+						action: "rejected",
+						duplicateOf: duplicate.id,
+						similarity: duplicate.similarity,
+					},
+				};
+			} else if (duplicate && dedupe.mode === "merge") {
+				merges.push({ index, duplicate });
+			} else {
+				pending.push({ index, duplicate });
+			}
+		}
+
+		// Step 3: Merge one after the other, several memories may duplicate the same one
+		if (merges.length > 0) {
+			try {
+				const merged = new Map<number, VectorMetadata | undefined>();
+				await this.eizenService.batch(async () => {
+					for (const { index, duplicate } of merges) {
+						const metadata = merged.has(duplicate.id)
+							? merged.get(duplicate.id)
+							: duplicate.metadata;
+						merged.set(
+							duplicate.id,
+							await this.mergeDuplicate(
+								duplicate.id,
+								metadata,
+								data.memories[index],
+							),
+						);
+					}
+				});
+				for (const { index, duplicate } of merges) {
+					results[index] = {
+						index,
+						success: true,
+						memoryId: duplicate.id,
+						duplicate: {
+							action: "merged",
+							duplicateOf: duplicate.id,
+							similarity: duplicate.similarity,
+						},
+					};
+				}
+			} catch (error) {
+				console.error("Failed to merge duplicate memories:", error);
+				for (const { index } of merges) {
+					results[index] = {
+						index,
+						success: false,
+						error: error instanceof Error ? error.message : "Unknown error",
+					};
+				}
+			}
+		}
+
+		// Step 4 & 5: Store the other memories group by group
+		let created = 0;
+		for (let start = 0; start < pending.length; start += BATCH_GROUP_SIZE) {
+			const group = pending.slice(start, start + BATCH_GROUP_SIZE);
+
+			try {
+				const vectorIds = await this.storeMemories(
+					group.map(({ index, duplicate }) => ({
+						metadata: {
+							...MemoryService.resolveExpiry(data.memories[index].metadata),
+							content: data.memories[index].content,
+							version: 1,
+							...(duplicate && { duplicateOf: duplicate.id }),
+						},
+						chunks: chunks[index],
+						embeddings: embeddings[index],
+					})),
+				);
+				created += vectorIds.length;
+				group.forEach(({ index, duplicate }, i) => {
+					results[index] = {
+						index,
+						success: true,
+						memoryId: vectorIds[i],
+						...(duplicate && {
+							duplicate: {
+								action: "linked",
+								duplicateOf: duplicate.id,
+								similarity: duplicate.similarity,
+							},
+						}),
+					};
+				});
+				await this.indexKeywords(
+					vectorIds.map((id, i) => ({
+						id,
+						text: data.memories[group[i].index].content,
+					})),
+				);
+			} catch (error) {
+				console.error(
+					`Failed to store memories ${group.map(({ index }) => index).join(", ")}:`,
+					error,
+				);
+				for (const { index } of group) {
+					results[index] = {
+						index,
+						success: false,
+						error: error instanceof Error ? error.message : "Unknown error",
+					};
+				}
+			}
+		}
+
+		const duplicates = results.filter(
+			(result) =>
+				result.duplicate?.action === "rejected" ||
+				result.duplicate?.action === "merged",
+		).length;
+		const failed = data.memories.length - created - duplicates;
+		console.log(
+			`Batch created ${created}/${data.memories.length} memories, ${duplicates} duplicates`,
+		);
+
+		return {
+			success: results.every((result) => result.success),
+			created,
+			duplicates,
+			failed,
+			results,
+		};
+	}
+
 	/**
 	 * Searches memories using natural language queries
 	 *
-	 * Uses semantic similarity to find relevant memories even when
-	 * exact keywords don't match. For example, searching "coffee"
-	 * might return memories about "espresso" or "caffeine".
+	 * Three modes are available:
+	 * - `semantic` (default): similarity in embedding space, finds memories even when
+	 *   exact keywords don't match. For example, searching "coffee" might return
+	 *   memories about "espresso" or "caffeine"
+	 * - `keyword`: BM25 ranking over exact tokens, for identifiers like project
+	 *   codenames, emails and error codes that embeddings blur
+	 * - `hybrid`: both rankings fused with reciprocal-rank fusion, so memories found
+	 *   by either come back, and memories found by both come first
+	 *
+	 * With `rerank`, the top candidates of any mode are rescored by a cross-encoder,
+	 * which reads the query and each memory together. It is slower but picks the
+	 * best match more reliably, which matters when only the first result is used.
 	 *
 	 * Process:
-	 * 1. Converts search query to vector embeddings
-	 * 2. Performs similarity search in vector space
-	 * 3. Applies optional filters (tags, dates, etc.)
-	 * 4. Returns ranked results by similarity
+	 * 1. Converts search query to vector embeddings (semantic and hybrid)
+	 * 2. Performs similarity and/or keyword search, skipping memories
+	 *    that don't match the optional filters (tags, dates, etc.)
+	 * 3. Returns ranked results, fused in hybrid mode
+	 * 4. Optionally reranks them with the cross-encoder
 	 *
 	 * @param data - Search parameters
 	 * @param data.query - Natural language search query
 	 * @param data.k - Maximum number of results to return
+	 * @param data.mode - How memories are matched against the query
+	 * @param data.rerank - Whether to rerank the results with the cross-encoder
 	 * @param data.filters - Optional filters for metadata
+	 * @param data.ranking - Optional weights of similarity, recency and importance
+	 * @param data.expand - Hops of links followed from the results, 0 to follow none
+	 * @param data.model - Optional embedding model the caller expects
 	 * @returns Promise resolving to array of matching memories
 	 *
+	 * @throws {Conflict} When `data.model` isn't the model pinned to the contract
 	 * @throws {Error} When embedding generation or search fails
 	 *
 	 * @example
@@ -157,46 +716,73 @@ export class MemoryService {
 	 * const results = await memoryService.searchMemories({
 	 *   query: "client communication preferences",
 	 *   k: 10,
+	 *   mode: "hybrid",
+	 *   rerank: true,
 	 *   filters: {
 	 *     tags: ["client-info"],
 	 *     importance_min: 5,
 	 *     date_from: "2024-01-01"
-	 *   }
+	 *   },
+	 *   ranking: { similarity: 0.6, recency: 0.2, importance: 0.2, halfLifeDays: 30 }
 	 * });
 	 * ```
 	 */
 	async searchMemories(data: SearchMemory): Promise<MemoryResult[]> {
+		const model = await this.resolveEmbeddingModel(data.model);
+
 		try {
-			console.log(`Searching memories with query: "${data.query}"`);
+			const mode = data.mode || "semantic";
+			const k = data.k || 10; // Limit number of results (default is 10)
+			console.log(`Searching memories (${mode}) with query: "${data.query}"`);
 
-			// Step 1: Convert search query into the same vector space as stored memories
-			// This enables semantic comparison (similarity matching)
-			const queryEmbeddings = await this.textToEmbeddings(data.query);
+			// Reranking and ranking look at more candidates than they return
+			const limit = data.rerank
+				? Math.max(k, RERANK_CANDIDATES)
+				: data.ranking
+					? Math.max(k, RANKING_CANDIDATES)
+					: k;
 
-			// Step 2: Perform vector similarity search in Eizen
-			// Uses cosine similarity or similar algorithms to find closest matches
-			const searchResults = await this.eizenService.searchVectors({
-				query: queryEmbeddings,
-				k: data.k || 10, // Limit number of results (default is 10)
-			});
+			const filter = this.toMetadataFilter(data.filters);
+			let memories: MemoryResult[];
 
-			// Step 3: Transform Eizen results into our memory format
-			// Extract content from metadata for easier access
-			const memories: MemoryResult[] = searchResults.map((result) => ({
-				id: result.id,
-				content: (result.metadata?.content as string) || undefined,
-				metadata: result.metadata,
-				distance: result.distance,
-			}));
+			if (mode === "semantic") {
+				memories = await this.semanticSearch(data.query, limit, model, filter);
+			} else if (mode === "keyword") {
+				memories = await this.keywordSearch(data.query, limit, filter);
+			} else {
+				// Fetch more than k from each ranking, so that memories ranked
+				// moderately by both can outrank memories found by only one
+				const candidates = Math.max(limit, HYBRID_CANDIDATES);
+				const [semantic, keyword] = await Promise.all([
+					this.semanticSearch(data.query, candidates, model, filter),
+					this.keywordSearch(data.query, candidates, filter),
+				]);
+				memories = this.fuseRankings([semantic, keyword]).slice(0, limit);
+			}
+
+			if (data.rerank) {
+				memories = await this.rerankMemories(data.query, memories);
+			}
+			if (data.ranking) {
+				memories = this.rankMemories(memories, data.ranking, mode);
+			}
+			memories = memories.slice(0, k);
 
-			// Step 4: Apply additional filters based on metadata
-			// This allows filtering by tags, dates, importance, etc.
-			// NOTE: Still theoretical. may not work properly
-			const filteredMemories = this.applyFilters(memories, data.filters);
+			// Linked memories come after the results, nearest hops first
+			if (data.expand > 0) {
+				memories = [
+					...memories,
+					...(await this.followLinks(
+						memories.map((memory) => memory.id),
+						data.expand,
+						filter,
+					)),
+				];
+			}
 
-			console.log(`Found ${filteredMemories.length} relevant memories`);
+			console.log(`Found ${memories.length} relevant memories`);
 
-			return filteredMemories;
+			return memories;
 		} catch (error) {
 			console.error("Failed to search memories:", error);
 			throw new Error(
@@ -231,7 +817,8 @@ export class MemoryService {
 			// Direct lookup in Eizen by vector ID
 			const vector = await this.eizenService.getVector(memoryId);
 
-			if (!vector) {
+			// Chunks of long memories aren't memories of their own
+			if (!vector || this.isChunk(vector.metadata)) {
 				return null;
 			}
 
@@ -250,146 +837,1866 @@ export class MemoryService {
 	}
 
 	/**
-	 * Retrieves system statistics and health information
+	 * Lists stored memories page by page
 	 *
-	 * Useful for monitoring, debugging, and displaying system status
-	 * to users. Aggregates data from both Eizen and embedding services.
+	 * Walks the stored points in batches, skipping deleted memories, chunks of
+	 * long memories and memories that don't match the filters.
+	 * - `created`: newest first, reading only as many points as the page needs
+	 * - `importance`: most important first, newest first on ties. Importance isn't
+	 *   indexed, so every point is read for every page
 	 *
-	 * @returns Promise resolving to current system statistics
+	 * The cursor is the position of the last listed memory in the sort order,
+	 * memories inserted after the first page don't shift the following ones.
+	 *
+	 * @param data - Cursor, page size, sort order and filters
+	 * @returns Promise resolving to a page of memories and the cursor of the next one
+	 *
+	 * @throws {BadRequest} When the cursor doesn't belong to the sort order
+	 * @throws {Error} When reading the memories fails
 	 *
 	 * @example
 	 * ```typescript
-	 * const stats = await memoryService.getStats();
-	 * console.log(`Total memories: ${stats.totalMemories}`);
-	 * console.log(`System ready: ${stats.isInitialized}`);
+	 * let page = await memoryService.listMemories({ limit: 50, sort: "created" });
+	 * while (page.nextCursor) {
+	 *   page = await memoryService.listMemories({ limit: 50, sort: "created", cursor: page.nextCursor });
+	 * }
 	 * ```
-	 *
-	 * @TODO Need further work (Probably wrote it in diff file)
 	 */
-	async getStats(): Promise<MemoryStats> {
+	async listMemories(data: ListMemories): Promise<ListMemoriesResult> {
+		const cursor = data.cursor?.split(":").map(Number) ?? [];
+		if (data.cursor && cursor.length !== (data.sort === "created" ? 1 : 2)) {
+			throw new httpErrors.BadRequest(
+				`Cursor ${data.cursor} doesn't belong to the "${data.sort}" sort order`,
+			);
+		}
+
 		try {
-			const eizenStats = await this.eizenService.getStats();
-			const embeddingInfo = embeddingService.getInfo();
+			const filter = this.toMetadataFilter(data.filters);
+			const isListed = (vector: {
+				visible: boolean;
+				metadata?: VectorMetadata;
+			}) =>
+				vector.visible &&
+				!this.isChunk(vector.metadata) &&
+				filter(vector.metadata);
+
+			const toMemory = (id: number, metadata?: VectorMetadata) => ({
+				id,
+				content: (metadata?.content as string) || undefined,
+				metadata,
+			});
+
+			if (data.sort === "created") {
+				// IDs grow with insertion, so walk them backwards from the cursor
+				const memories: MemoryResult[] = [];
+				let end = cursor[0] ?? (await this.eizenService.scanVectors(0, 0)).size;
+
+				while (end > 0 && memories.length < data.limit) {
+					const start = Math.max(0, end - LIST_SCAN_SIZE);
+					const scan = await this.eizenService.scanVectors(start, end - start);
+					for (const vector of scan.vectors.reverse()) {
+						if (!isListed(vector)) continue;
+						memories.push(toMemory(vector.id, vector.metadata));
+						if (memories.length === data.limit) break;
+					}
+					end = start;
+				}
+
+				const last = memories[memories.length - 1];
+				return {
+					memories,
+					nextCursor:
+						memories.length === data.limit && last.id > 0
+							? String(last.id)
+							: undefined,
+				};
+			}
 
+			// Importance isn't indexed, collect every listed memory then sort them
+			const listed: MemoryResult[] = [];
+			let start = 0;
+			let size = 0;
+			do {
+				const scan = await this.eizenService.scanVectors(start, LIST_SCAN_SIZE);
+				size = scan.size;
+				for (const vector of scan.vectors) {
+					if (isListed(vector)) {
+						listed.push(toMemory(vector.id, vector.metadata));
+					}
+				}
+				start += LIST_SCAN_SIZE;
+			} while (start < size);
+
+			const importanceOf = (memory: MemoryResult) =>
+				(memory.metadata?.importance as number) || 0;
+			const [afterImportance, afterId] = cursor;
+			const ranked = listed
+				.sort((a, b) => importanceOf(b) - importanceOf(a) || b.id - a.id)
+				.filter(
+					(memory) =>
+						!data.cursor ||
+						importanceOf(memory) < afterImportance ||
+						(importanceOf(memory) === afterImportance && memory.id < afterId),
+				);
+
+			const memories = ranked.slice(0, data.limit);
+			const last = memories[memories.length - 1];
 			return {
-				totalMemories: eizenStats.totalVectors,
-				embeddingService: embeddingInfo.isInitialized
-					? "xenova"
-					: "unavailable",
-				isInitialized: eizenStats.isInitialized && embeddingInfo.isInitialized,
+				memories,
+				nextCursor:
+					ranked.length > data.limit
+						? `${importanceOf(last)}:${last.id}`
+						: undefined,
 			};
 		} catch (error) {
-			console.error("Failed to get memory stats:", error);
-			return {
-				totalMemories: 0,
-				embeddingService: "unavailable",
-				isInitialized: false,
-			};
+			console.error("Failed to list memories:", error);
+			throw new Error(
+				`Failed to list memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
 		}
 	}
 
-	// ============================================================================
-	// Internal Helper Functions
-	// These methods support the main public API but are not intended to be used
-	// directly by external callers.
-	// ============================================================================
-
 	/**
-	 * Converts text content into numerical vector embeddings
+	 * Updates the content and/or metadata of an existing memory in place
 	 *
-	 * This is the core ML operation that enables semantic search.
-	 * Uses transformer models (via Xenova) to create high-dimensional
-	 * vectors that capture semantic meaning of text.
+	 * Process:
+	 * 1. Looks up the current memory
+	 * 2. Re-chunks and re-embeds the content if it changed
+	 * 3. Merges the new metadata into the existing one and bumps its version
+	 * 4. Swaps the vector, metadata and chunks in Eizen in one batch,
+	 *    keeping the same memory ID
 	 *
-	 * @private This is an internal helper method
-	 * @param text - The text content to vectorize
-	 * @returns Promise resolving to numerical embedding array
+	 * @param memoryId - The unique ID of the memory to update
+	 * @param data - New content and/or metadata fields
+	 * @returns Promise resolving to update result or null if not found
 	 *
-	 * @throws {Error} When embedding generation fails
+	 * @throws {Forbidden} When the memory is encrypted and the service isn't unlocked
+	 * @throws {Error} When embedding generation or the update fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.updateMemory(123, {
+	 *   content: "User's favorite color is green",
+	 * });
+	 * if (result) {
+	 *   console.log(`Memory now at version ${result.version}`);
+	 * }
+	 * ```
 	 */
-	private async textToEmbeddings(text: string): Promise<number[]> {
+	async updateMemory(
+		memoryId: number,
+		data: UpdateMemory,
+	): Promise<UpdateMemoryResult | null> {
 		try {
-			console.log("Converting text to embeddings using Xenova/transformers");
+			console.log(`Updating memory with ID: ${memoryId}`);
 
-			const result = await embeddingService.textToEmbeddings(text);
-			return result.embeddings;
+			const existing = await this.eizenService.getVector(memoryId);
+			if (!existing || this.isChunk(existing.metadata)) {
+				return null;
+			}
+			// Merging into ciphertext would lose the new fields on decryption
+			if (isEncrypted(existing.metadata)) {
+				throw new httpErrors.Forbidden(
+					`Memory ${memoryId} is encrypted, send its secret to update it`,
+				);
+			}
+
+			// Only re-embed when the content actually changed, metadata edits keep the vector
+			const previousContent = existing.metadata?.content as string | undefined;
+			const contentChanged =
+				data.content !== undefined && data.content !== previousContent;
+			const chunks = contentChanged
+				? chunkText(data.content as string)
+				: undefined;
+			const embeddings = chunks
+				? await this.batchTextToEmbeddings(
+						chunks,
+						await this.resolveEmbeddingModel(),
+					)
+				: undefined;
+
+			// Memories created before versioning was introduced count as version 1
+			const version = ((existing.metadata?.version as number) || 1) + 1;
+			const mergedMetadata: VectorMetadata = {
+				...existing.metadata,
+				...MemoryService.resolveExpiry(data.metadata),
+				content: data.content ?? previousContent,
+				version,
+				updatedAt: new Date().toISOString(),
+			};
+
+			const updated = await this.eizenService.batch(async () => {
+				if (chunks && embeddings) {
+					// Chunks of the previous content are replaced by the new ones
+					for (const chunkId of this.chunkIdsOf(existing.metadata)) {
+						await this.eizenService.deleteVector(chunkId);
+					}
+					const chunkIds = await this.storeChunks(memoryId, chunks, embeddings);
+					mergedMetadata.chunkIds = chunkIds.length > 0 ? chunkIds : undefined;
+				}
+
+				return this.eizenService.updateVector(memoryId, {
+					vector: embeddings?.[0],
+					metadata: mergedMetadata,
+				});
+			});
+			if (!updated) {
+				return null;
+			}
+
+			if (contentChanged) {
+				await this.indexKeywords([
+					{ id: memoryId, text: data.content as string },
+				]);
+			}
+
+			return {
+				success: true,
+				memoryId,
+				version,
+				message: contentChanged
+					? `Memory ${memoryId} content and metadata updated`
+					: `Memory ${memoryId} metadata updated`,
+			};
 		} catch (error) {
-			console.error("Failed to generate embeddings:", error);
+			if (httpErrors.isHttpError(error)) throw error;
+			console.error(`Failed to update memory ${memoryId}:`, error);
 			throw new Error(
-				`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
+				`Failed to update memory: ${error instanceof Error ? error.message : "Unknown error"}`,
 			);
 		}
 	}
 
 	/**
-	 * Applies metadata-based filters to search results
+	 * Deletes a memory so it no longer shows up in searches or lookups
 	 *
-	 * Filters allow users to narrow down search results based on:
-	 * - Tags (categories, labels)
-	 * - Importance level (numerical rating)
-	 * - Client/source information
-	 * - Date ranges (creation or custom timestamps)
+	 * A soft delete only hides the memory. A hard delete also removes it
+	 * from the vector graph, which is slower but keeps the index lean; a
+	 * memory already soft deleted can still be hard deleted.
+	 * Chunks of long memories are deleted along with them.
 	 *
-	 * @private This is an internal helper method
-	 * @param memories - Array of memory results to filter
-	 * @param filters - Optional filter criteria
-	 * @returns Filtered array of memories
+	 * @param memoryId - The unique ID of the memory to delete
+	 * @param hard - Whether to also remove the memory from the vector graph
+	 * @returns Promise resolving to deletion result or null if not found
+	 *
+	 * @throws {Error} When deletion operation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.deleteMemory(123);
+	 * if (!result) {
+	 *   console.log("Memory not found");
+	 * }
+	 * ```
 	 */
-	private applyFilters(
-		memories: MemoryResult[],
-		filters?: SearchFilters,
-	): MemoryResult[] {
-		// If no filters provided, return all results unchanged
-		if (!filters) {
-			return memories;
-		}
-
-		return memories.filter((memory) => {
-			// Skip filtering if memory has no metadata
-			if (!memory.metadata) return true;
+	async deleteMemory(
+		memoryId: number,
+		hard = false,
+	): Promise<DeleteMemoryResult | null> {
+		try {
+			console.log(`Deleting memory with ID: ${memoryId}`);
 
-			// Filter by tags - check if memory has any of the requested tags
-			if (filters.tags && Array.isArray(filters.tags)) {
-				const memoryTags = (memory.metadata.tags as string[]) || [];
-				const hasRequiredTags = filters.tags.some((tag: string) =>
-					memoryTags.includes(tag),
-				);
-				if (!hasRequiredTags) return false;
+			let existing: { metadata?: VectorMetadata } | null =
+				await this.eizenService.getVector(memoryId);
+			if (!existing && hard && memoryId >= 0) {
+				// A soft-deleted memory is hidden from lookups but can still be hard deleted
+				const { vectors } = await this.eizenService.scanVectors(memoryId, 1);
+				existing = vectors[0] ?? null;
+			}
+			if (!existing || this.isChunk(existing.metadata)) {
+				return null;
 			}
 
-			// Filter by minimum importance level
-			if (
-				filters.importance_min !== undefined &&
-				filters.importance_min !== null &&
-				typeof filters.importance_min === "number"
-			) {
-				const importance = (memory.metadata.importance as number) || 0;
-				if (importance < filters.importance_min) return false;
+			const deleted = await this.eizenService.batch(async () => {
+				for (const chunkId of this.chunkIdsOf(existing.metadata)) {
+					await this.eizenService.deleteVector(chunkId, hard);
+				}
+				return this.eizenService.deleteVector(memoryId, hard);
+			});
+			if (!deleted) {
+				return null;
 			}
 
-			// Filter by client - partial string matching
-			if (filters.client && typeof filters.client === "string") {
-				const client = (memory.metadata.client as string) || "";
-				if (!client.includes(filters.client)) return false;
+			// Deleted memories are skipped by keyword search anyway, this keeps the index small
+			try {
+				await this.eizenService.removeKeywords(memoryId);
+			} catch (error) {
+				console.error(`Failed to unindex memory ${memoryId}:`, error);
 			}
 
-			// Filter by date range - check creation date or custom timestamp
-			if (filters.date_from || filters.date_to) {
-				const timestamp =
-					(memory.metadata.timestamp as string) ||
-					(memory.metadata.createdAt as string);
-				if (timestamp) {
-					const memoryDate = new Date(timestamp);
-					// Check if memory is after start date
-					if (filters.date_from && memoryDate < new Date(filters.date_from))
-						return false;
-					// Check if memory is before end date
+			return {
+				success: true,
+				memoryId,
+				message: `Memory ${memoryId} ${hard ? "permanently " : ""}deleted`,
+			};
+		} catch (error) {
+			console.error(`Failed to delete memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to delete memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Links a memory to another one with a typed edge
+	 *
+	 * The link is stored on both memories, so it can be followed from either.
+	 * Linking two memories again with the same type changes nothing.
+	 *
+	 * @param memoryId - ID of the source memory
+	 * @param data - Target memory and link type
+	 * @returns Promise resolving to the link, or null if either memory doesn't exist
+	 *
+	 * @throws {BadRequest} When a memory is linked to itself
+	 * @throws {Error} When reading or writing the links fails
+	 *
+	 * @example
+	 * ```typescript
+	 * // The decision was made because of that conversation
+	 * await memoryService.linkMemories(decisionId, {
+	 *   target: conversationId,
+	 *   type: "derived_from",
+	 * });
+	 * ```
+	 */
+	async linkMemories(
+		memoryId: number,
+		data: CreateLink,
+	): Promise<LinkMemoriesResult | null> {
+		if (memoryId === data.target) {
+			throw new httpErrors.BadRequest("A memory can't be linked to itself");
+		}
+
+		try {
+			for (const id of [memoryId, data.target]) {
+				const vector = await this.eizenService.getVector(id);
+				if (!vector || this.isChunk(vector.metadata)) {
+					return null;
+				}
+			}
+
+			const added = await this.addLinks(memoryId, [data.target], data.type);
+
+			return {
+				success: true,
+				source: memoryId,
+				target: data.target,
+				type: data.type,
+				message:
+					added > 0
+						? `Memory ${memoryId} linked to memory ${data.target} as ${data.type}`
+						: `Memory ${memoryId} was already linked to memory ${data.target} as ${data.type}`,
+			};
+		} catch (error) {
+			console.error(`Failed to link memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to link memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Removes the links from a memory to another one
+	 *
+	 * @param memoryId - ID of the source memory
+	 * @param target - ID of the target memory
+	 * @param type - Only remove links of this type (default: every type)
+	 * @returns Promise resolving to the number of links removed
+	 *
+	 * @throws {Error} When reading or writing the links fails
+	 */
+	async unlinkMemories(
+		memoryId: number,
+		target: number,
+		type?: LinkType,
+	): Promise<number> {
+		try {
+			const links = await this.eizenService.getLinks([memoryId, target]);
+			const matches = (link: MemoryLink, id: number, direction: string) =>
+				link.id === id &&
+				link.direction === direction &&
+				(!type || link.type === type);
+
+			const outgoing = links.get(memoryId) ?? [];
+			const kept = outgoing.filter((link) => !matches(link, target, "out"));
+			const removed = outgoing.length - kept.length;
+			if (removed === 0) {
+				return 0;
+			}
+
+			await this.eizenService.setLinks(
+				new Map([
+					[memoryId, kept],
+					[
+						target,
+						(links.get(target) ?? []).filter(
+							(link) => !matches(link, memoryId, "in"),
+						),
+					],
+				]),
+			);
+			return removed;
+		} catch (error) {
+			console.error(`Failed to unlink memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to unlink memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Retrieves the memories linked to a memory, up to a number of hops away
+	 *
+	 * @param memoryId - ID of the memory to start from
+	 * @param depth - Hops of links to follow (default: 1, direct links only)
+	 * @returns Promise resolving to the linked memories, nearest hops first,
+	 *          or null if the memory doesn't exist
+	 *
+	 * @throws {Error} When reading the links or memories fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const chain = await memoryService.getLinkedMemories(decisionId, 3);
+	 * for (const memory of chain ?? []) {
+	 *   console.log(`${memory.link?.from} ${memory.link?.type} ${memory.id}`);
+	 * }
+	 * ```
+	 */
+	async getLinkedMemories(
+		memoryId: number,
+		depth = 1,
+	): Promise<MemoryResult[] | null> {
+		try {
+			const vector = await this.eizenService.getVector(memoryId);
+			if (!vector || this.isChunk(vector.metadata)) {
+				return null;
+			}
+
+			return await this.followLinks([memoryId], depth, this.toMetadataFilter());
+		} catch (error) {
+			console.error(`Failed to get links of memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to get linked memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Retrieves the most recent memories having links, and the links between them
+	 *
+	 * Superseded memories are included, so that consolidations show up in the
+	 * graph. Links to memories left out (deleted, expired or beyond the limit)
+	 * are dropped.
+	 *
+	 * @param data - Graph parameters
+	 * @param data.limit - Maximum number of memories returned
+	 * @returns Promise resolving to the memories and their links
+	 *
+	 * @throws {Error} When reading the memories or links fails
+	 */
+	async getMemoryGraph(data: MemoryGraph): Promise<MemoryGraphResult> {
+		try {
+			const nodes: MemoryResult[] = [];
+			const links = new Map<number, MemoryLink[]>();
+
+			// IDs grow with insertion, so walk them backwards
+			let end = (await this.eizenService.scanVectors(0, 0)).size;
+			while (end > 0 && nodes.length < data.limit) {
+				const start = Math.max(0, end - LIST_SCAN_SIZE);
+				const scan = await this.eizenService.scanVectors(start, end - start);
+				const memories = scan.vectors
+					.reverse()
+					.filter(
+						(vector) =>
+							vector.visible &&
+							!this.isChunk(vector.metadata) &&
+							!this.isExpired(vector.metadata),
+					);
+				const memoryLinks = await this.eizenService.getLinks(
+					memories.map((vector) => vector.id),
+				);
+
+				for (const vector of memories) {
+					const vectorLinks = memoryLinks.get(vector.id) ?? [];
+					if (vectorLinks.length === 0) continue;
+
+					links.set(vector.id, vectorLinks);
+					nodes.push({
+						id: vector.id,
+						content: (vector.metadata?.content as string) || undefined,
+						metadata: vector.metadata,
+					});
+					if (nodes.length === data.limit) break;
+				}
+				end = start;
+			}
+
+			// Each link is stored on both ends, keep it once from its source
+			const edges = [...links].flatMap(([source, sourceLinks]) =>
+				sourceLinks
+					.filter((link) => link.direction === "out" && links.has(link.id))
+					.map((link) => ({ source, target: link.id, type: link.type })),
+			);
+
+			return { nodes, edges };
+		} catch (error) {
+			console.error("Failed to get memory graph:", error);
+			throw new Error(
+				`Failed to get memory graph: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Exports every memory of the user as a portable snapshot
+	 *
+	 * The snapshot contains the embeddings, metadata, links and search graph,
+	 * so it can be imported into another contract without re-embedding anything.
+	 *
+	 * @returns Promise resolving to the encoded snapshot
+	 *
+	 * @throws {Error} When the export fails
+	 */
+	async exportMemories(): Promise<Uint8Array> {
+		try {
+			return await this.eizenService.exportSnapshot();
+		} catch (error) {
+			console.error("Failed to export memories:", error);
+			throw new Error(
+				`Failed to export memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Imports a snapshot produced by `exportMemories` into an empty contract
+	 *
+	 * Memories keep their IDs and links. Nothing is imported from a snapshot
+	 * made with another embedding model or key; a failing write can leave a
+	 * large snapshot partly imported. Contents are then indexed for keyword
+	 * search, which snapshots don't hold.
+	 *
+	 * @param data - The snapshot to import
+	 * @returns Promise resolving to the import result
+	 *
+	 * @throws {Conflict} When the snapshot's model or key isn't the contract's
+	 * @throws {Error} When the contract already holds memories or the snapshot is incompatible
+	 */
+	async importMemories(data: Uint8Array): Promise<ImportMemoriesResult> {
+		const conflict = await this.eizenService.getSnapshotConflict(data);
+		if (conflict) {
+			throw new httpErrors.Conflict(conflict);
+		}
+
+		try {
+			const imported = await this.eizenService.importSnapshot(data);
+			try {
+				await this.eizenService.rebuildKeywordIndex();
+			} catch (error) {
+				console.error("Failed to index imported memories:", error);
+			}
+			return {
+				success: true,
+				imported,
+				message: `Imported ${imported} memories`,
+			};
+		} catch (error) {
+			console.error("Failed to import memories:", error);
+			throw new Error(
+				`Failed to import memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Removes every deleted memory from the vector graph
+	 *
+	 * Soft-deleted memories and their chunks stay in the graph, where searches
+	 * keep walking through them. This hard deletes them all at once.
+	 *
+	 * @returns Promise resolving to the number of points removed from the graph
+	 *
+	 * @throws {Error} When compaction fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const { removed } = await memoryService.compactMemories();
+	 * ```
+	 */
+	async compactMemories(): Promise<CompactMemoriesResult> {
+		try {
+			const removed = await this.eizenService.compactVectors();
+			return { removed };
+		} catch (error) {
+			console.error("Failed to compact memories:", error);
+			throw new Error(
+				`Failed to compact memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Deletes the memories whose `expiresAt` has passed
+	 *
+	 * Expired memories are already left out of searches and listings. This
+	 * tombstones their points (soft delete) along with their chunks, and drops
+	 * them from the keyword index.
+	 *
+	 * @returns Promise resolving to the deleted IDs and the memories that expire later
+	 *
+	 * @throws {Error} When reading the memories fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const { deleted, pending } = await memoryService.deleteExpiredMemories();
+	 * console.log(`${deleted.length} deleted, ${pending} still to expire`);
+	 * ```
+	 */
+	async deleteExpiredMemories(): Promise<ExpiredMemoriesResult> {
+		try {
+			const deleted: number[] = [];
+			let pending = 0;
+			let start = 0;
+			let size = 0;
+			do {
+				const scan = await this.eizenService.scanVectors(start, LIST_SCAN_SIZE);
+				size = scan.size;
+				for (const vector of scan.vectors) {
+					if (
+						!vector.visible ||
+						vector.metadata?.expiresAt === undefined ||
+						this.isChunk(vector.metadata)
+					) {
+						continue;
+					}
+					if (!this.isExpired(vector.metadata)) {
+						pending++;
+						continue;
+					}
+					if (await this.deleteMemory(vector.id)) {
+						deleted.push(vector.id);
+					}
+				}
+				start += LIST_SCAN_SIZE;
+			} while (start < size);
+
+			return { deleted, pending };
+		} catch (error) {
+			console.error("Failed to delete expired memories:", error);
+			throw new Error(
+				`Failed to delete expired memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Merges groups of overlapping memories into consolidated memories
+	 *
+	 * Process:
+	 * 1. Reads every memory, chunks, already superseded memories and memories
+	 *    that expire excepted (a summary would outlive them)
+	 * 2. Clusters them by their HNSW neighborhoods: walking memories in ID order,
+	 *    each one not yet clustered takes its unclustered graph neighbors whose
+	 *    similarity, whatever the index metric, is CONSOLIDATION_MIN_SIMILARITY or more
+	 * 3. Summarizes the contents of every cluster of two or more memories and
+	 *    stores the summary as a new memory, with the highest importance and all
+	 *    tags of its sources and their IDs in `consolidatedFrom`
+	 * 4. Marks the sources with `supersededBy`, which hides them from search and
+	 *    listing while keeping them readable by ID
+	 *
+	 * A cluster whose summary or storage fails is left untouched, the others
+	 * are still consolidated.
+	 *
+	 * @param summarizer - Summarizer writing the consolidated contents
+	 *        (default: the one configured, see `getSummarizer`)
+	 * @returns Promise resolving to the consolidated memories and their sources
+	 *
+	 * @throws {Error} When reading the memories fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.consolidateMemories();
+	 * for (const { memoryId, sources } of result.consolidated) {
+	 *   console.log(`Memory ${memoryId} supersedes ${sources.join(", ")}`);
+	 * }
+	 * ```
+	 */
+	async consolidateMemories(
+		summarizer: Summarizer = getSummarizer(),
+	): Promise<ConsolidationResult> {
+		const model = await this.resolveEmbeddingModel();
+		const minSimilarity =
+			Number(process.env.CONSOLIDATION_MIN_SIMILARITY) ||
+			CONSOLIDATION_MIN_SIMILARITY;
+
+		try {
+			// Step 1: Collect the memories that can be consolidated
+			const contents = new Map<number, string>();
+			const metadatas = new Map<number, VectorMetadata>();
+			let start = 0;
+			let size = 0;
+			do {
+				const scan = await this.eizenService.scanVectors(start, LIST_SCAN_SIZE);
+				size = scan.size;
+				for (const vector of scan.vectors) {
+					const content = vector.metadata?.content as string | undefined;
+					if (
+						!vector.visible ||
+						!vector.metadata ||
+						!content ||
+						this.isChunk(vector.metadata) ||
+						this.isSuperseded(vector.metadata) ||
+						vector.metadata.expiresAt !== undefined
+					) {
+						continue;
+					}
+					contents.set(vector.id, content);
+					metadatas.set(vector.id, vector.metadata);
+				}
+				start += LIST_SCAN_SIZE;
+			} while (start < size);
+
+			// Step 2: Group each memory with its close neighbors in the graph
+			const ids = [...contents.keys()];
+			const clustered = new Set<number>();
+			const clusters: number[][] = [];
+			for (let i = 0; i < ids.length; i += LIST_SCAN_SIZE) {
+				const neighbors = await this.eizenService.getNeighbors(
+					ids.slice(i, i + LIST_SCAN_SIZE),
+				);
+				for (const [id, candidates] of neighbors) {
+					if (clustered.has(id)) continue;
+
+					const cluster = [
+						id,
+						...candidates
+							.filter(
+								(neighbor) =>
+									this.eizenService.toSimilarity(neighbor.distance) >=
+										minSimilarity &&
+									contents.has(neighbor.id) &&
+									!clustered.has(neighbor.id),
+							)
+							.map((neighbor) => neighbor.id),
+					];
+					if (cluster.length < 2) continue;
+
+					for (const member of cluster) clustered.add(member);
+					clusters.push(cluster);
+				}
+			}
+
+			console.log(
+				`Consolidating ${clusters.length} clusters of ${contents.size} memories with ${summarizer.name}`,
+			);
+
+			// Step 3 & 4: Store a consolidated memory per cluster, superseding its sources
+			const consolidated: ConsolidatedMemory[] = [];
+			for (const cluster of clusters) {
+				try {
+					const memoryId = await this.storeConsolidated(
+						cluster.map((id) => ({
+							id,
+							content: contents.get(id) as string,
+							metadata: metadatas.get(id) as VectorMetadata,
+						})),
+						summarizer,
+						model,
+					);
+					consolidated.push({ memoryId, sources: cluster });
+				} catch (error) {
+					console.error(
+						`Failed to consolidate memories ${cluster.join(", ")}:`,
+						error,
+					);
+				}
+			}
+
+			return {
+				clusters: clusters.length,
+				consolidated,
+				failed: clusters.length - consolidated.length,
+			};
+		} catch (error) {
+			console.error("Failed to consolidate memories:", error);
+			throw new Error(
+				`Failed to consolidate memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Retrieves system statistics and health information
+	 *
+	 * Useful for monitoring, debugging, and displaying system status
+	 * to users. Aggregates data from both Eizen and embedding services.
+	 *
+	 * @returns Promise resolving to current system statistics
+	 *
+	 * @example
+	 * ```typescript
+	 * const stats = await memoryService.getStats();
+	 * console.log(`Total memories: ${stats.totalMemories}`);
+	 * console.log(`System ready: ${stats.isInitialized}`);
+	 * ```
+	 *
+	 * @TODO Need further work (Probably wrote it in diff file)
+	 */
+	async getStats(): Promise<MemoryStats> {
+		try {
+			const eizenStats = await this.eizenService.getStats();
+			const embeddingInfo = embeddingService.getInfo();
+
+			return {
+				totalMemories: eizenStats.totalVectors,
+				embeddingService: embeddingInfo.isInitialized
+					? "xenova"
+					: "unavailable",
+				embeddingModel: await this.resolveEmbeddingModel(),
+				isInitialized: eizenStats.isInitialized && embeddingInfo.isInitialized,
+			};
+		} catch (error) {
+			console.error("Failed to get memory stats:", error);
+			return {
+				totalMemories: 0,
+				embeddingService: "unavailable",
+				isInitialized: false,
+			};
+		}
+	}
+
+	// ============================================================================
+	// Internal Helper Functions
+	// These methods support the main public API but are not intended to be used
+	// directly by external callers.
+	// ============================================================================
+
+	/**
+	 * Returns the embedding model pinned to the contract
+	 *
+	 * The model is read from the contract once per service instance.
+	 *
+	 * @private This is an internal helper method
+	 * @param requested - Model the caller expects, if it named one
+	 * @returns Promise resolving to the pinned model
+	 *
+	 * @throws {Conflict} When the requested model isn't the pinned one
+	 */
+	private async resolveEmbeddingModel(
+		requested?: EmbeddingModelId,
+	): Promise<EmbeddingModelId> {
+		if (!this.embeddingModel) {
+			this.embeddingModel = await this.eizenService.getEmbeddingModel();
+		}
+
+		if (requested && requested !== this.embeddingModel) {
+			throw new httpErrors.Conflict(
+				`Memories of this contract are embedded with ${this.embeddingModel}, not ${requested}`,
+			);
+		}
+
+		return this.embeddingModel;
+	}
+
+	/**
+	 * Converts text content into numerical vector embeddings
+	 *
+	 * This is the core ML operation that enables semantic search.
+	 * Uses transformer models (via Xenova) to create high-dimensional
+	 * vectors that capture semantic meaning of text.
+	 *
+	 * @private This is an internal helper method
+	 * @param text - The text content to vectorize
+	 * @param model - The embedding model pinned to the contract
+	 * @param type - Whether the text is a search query or a memory content
+	 * @returns Promise resolving to numerical embedding array
+	 *
+	 * @throws {Error} When embedding generation fails
+	 */
+	private async textToEmbeddings(
+		text: string,
+		model: EmbeddingModelId,
+		type: "query" | "passage" = "passage",
+	): Promise<number[]> {
+		try {
+			console.log("Converting text to embeddings using Xenova/transformers");
+
+			const result = await embeddingService.textToEmbeddings(text, {
+				model,
+				type,
+			});
+			return result.embeddings;
+		} catch (error) {
+			console.error("Failed to generate embeddings:", error);
+			throw new Error(
+				`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Converts several texts into vector embeddings in a single model pass
+	 *
+	 * @private This is an internal helper method
+	 * @param texts - The text contents to vectorize
+	 * @param model - The embedding model pinned to the contract
+	 * @returns Promise resolving to embedding arrays in the same order as the input
+	 *
+	 * @throws {Error} When embedding generation fails
+	 */
+	private async batchTextToEmbeddings(
+		texts: string[],
+		model: EmbeddingModelId,
+	): Promise<number[][]> {
+		try {
+			console.log(
+				`Converting ${texts.length} texts to embeddings using Xenova/transformers`,
+			);
+
+			const results = await embeddingService.batchTextToEmbeddings(texts, {
+				model,
+			});
+			return results.map((result) => result.embeddings);
+		} catch (error) {
+			console.error("Failed to generate embeddings:", error);
+			throw new Error(
+				`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Finds the k memories closest to a query in embedding space
+	 *
+	 * Filters are checked during the graph traversal, so k matching memories
+	 * come back whenever they exist. Hits on chunks of long memories are
+	 * collapsed into the memory, see `collapseChunks`.
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Natural language search query
+	 * @param k - Maximum number of results
+	 * @param model - The embedding model pinned to the contract
+	 * @param filter - Optional metadata predicate
+	 * @returns Promise resolving to memories ranked by distance
+	 */
+	private async semanticSearch(
+		query: string,
+		k: number,
+		model: EmbeddingModelId,
+		filter?: MetadataFilter<VectorMetadata>,
+	): Promise<MemoryResult[]> {
+		// Convert search query into the same vector space as stored memories
+		const queryEmbeddings = await this.textToEmbeddings(query, model, "query");
+
+		const searchResults = await this.eizenService.searchVectors(
+			{ query: queryEmbeddings, k: k * CHUNK_SEARCH_FACTOR },
+			filter,
+		);
+
+		const memories = await this.collapseChunks(searchResults, filter);
+		return memories.slice(0, k);
+	}
+
+	/**
+	 * Turns vector hits into memory results, one per memory
+	 *
+	 * A hit on a chunk stands for its memory, whose content and metadata are
+	 * read from the parent vector. Hits come closest first, so each memory keeps
+	 * the distance of its best chunk. Chunks pass the search filter during the
+	 * traversal, their memory is checked here instead.
+	 *
+	 * @private This is an internal helper method
+	 * @param hits - Vector search results, closest first
+	 * @param filter - Optional metadata predicate
+	 * @returns Promise resolving to memories ranked by distance
+	 */
+	private async collapseChunks(
+		hits: EizenSearchResult[],
+		filter?: MetadataFilter<VectorMetadata>,
+	): Promise<MemoryResult[]> {
+		const memories = new Map<number, MemoryResult>();
+		const rejected = new Set<number>();
+
+		for (const hit of hits) {
+			const parentId = hit.metadata?.parentId as number | undefined;
+			const id = parentId ?? hit.id;
+			if (memories.has(id) || rejected.has(id)) continue;
+
+			// Extract content from metadata for easier access
+			if (parentId === undefined) {
+				memories.set(id, {
+					id,
+					content: (hit.metadata?.content as string) || undefined,
+					metadata: hit.metadata,
+					distance: hit.distance,
+				});
+				continue;
+			}
+
+			const parent = await this.eizenService.getVector(parentId);
+			if (!parent || (filter && !filter(parent.metadata))) {
+				rejected.add(id);
+				continue;
+			}
+			memories.set(id, {
+				id,
+				content: (parent.metadata?.content as string) || undefined,
+				metadata: parent.metadata,
+				distance: hit.distance,
+				matchedChunk: (hit.metadata?.content as string) || undefined,
+			});
+		}
+
+		return [...memories.values()];
+	}
+
+	/**
+	 * Finds the k memories sharing the most exact tokens with a query (BM25)
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Search query, matched token by token
+	 * @param k - Maximum number of results
+	 * @param filter - Optional metadata predicate
+	 * @returns Promise resolving to memories ranked by keyword score
+	 */
+	private async keywordSearch(
+		query: string,
+		k: number,
+		filter?: MetadataFilter<VectorMetadata>,
+	): Promise<MemoryResult[]> {
+		const searchResults = await this.eizenService.searchKeywords(
+			query,
+			k,
+			filter,
+		);
+
+		return searchResults.map((result) => ({
+			id: result.id,
+			content: (result.metadata?.content as string) || undefined,
+			metadata: result.metadata,
+			score: result.score,
+		}));
+	}
+
+	/**
+	 * Merges several rankings with reciprocal-rank fusion
+	 *
+	 * Each memory scores the sum of 1 / (RRF_K + rank) over the rankings it
+	 * appears in. Only ranks matter, so distances and BM25 scores don't need
+	 * to be on the same scale. The semantic distance is kept when known.
+	 *
+	 * @private This is an internal helper method
+	 * @param rankings - Result lists, each ordered from most to least relevant
+	 * @returns The fused list, highest score first
+	 */
+	private fuseRankings(rankings: MemoryResult[][]): MemoryResult[] {
+		const fused = new Map<number, MemoryResult>();
+
+		for (const ranking of rankings) {
+			ranking.forEach((memory, rank) => {
+				const score = 1 / (RRF_K + rank + 1);
+				const existing = fused.get(memory.id);
+				fused.set(memory.id, {
+					...existing,
+					...memory,
+					distance: existing?.distance ?? memory.distance,
+					score: (existing?.score ?? 0) + score,
+				});
+			});
+		}
+
+		return [...fused.values()].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+	}
+
+	/**
+	 * Reorders memories by cross-encoder relevance to a query
+	 *
+	 * Distances and keyword scores are kept, so callers can compare both rankings.
+	 * Long memories are scored on the chunk that matched the query.
+	 *
+	 * @private This is an internal helper method
+	 * @param query - The search query
+	 * @param memories - Candidate memories, in their original order
+	 * @returns Promise resolving to the memories with a `rerankScore`, highest first
+	 *
+	 * @throws {Error} When the reranking model fails
+	 */
+	private async rerankMemories(
+		query: string,
+		memories: MemoryResult[],
+	): Promise<MemoryResult[]> {
+		const scores = await embeddingService.rerank(
+			query,
+			memories.map((memory) => memory.matchedChunk ?? memory.content ?? ""),
+		);
+
+		return memories
+			.map((memory, i) => ({ ...memory, rerankScore: scores[i] }))
+			.sort((a, b) => b.rerankScore - a.rerankScore);
+	}
+
+	/**
+	 * Reorders memories by a weighted average of similarity, recency and importance
+	 *
+	 * - Similarity is the cross-encoder score when reranked, the cosine
+	 *   similarity (whatever the index metric) in semantic searches, and the
+	 *   score relative to the best one in keyword and hybrid searches
+	 * - Recency decays exponentially with the age of the memory's timestamp
+	 *   (or creation date), halving every `halfLifeDays`
+	 * - Importance is the memory's importance over 10
+	 *
+	 * @private This is an internal helper method
+	 * @param memories - Candidate memories, in their original order
+	 * @param ranking - Weights and recency half-life
+	 * @param mode - How the memories were matched against the query
+	 * @returns The memories with their score breakdown in `ranking`, highest score first
+	 */
+	private rankMemories(
+		memories: MemoryResult[],
+		ranking: Ranking,
+		mode: SearchMode,
+	): MemoryResult[] {
+		const now = Date.now();
+		const bestScore = Math.max(...memories.map((memory) => memory.score ?? 0));
+		const totalWeight =
+			ranking.similarity + ranking.recency + ranking.importance;
+
+		const similarityOf = (memory: MemoryResult) => {
+			if (memory.rerankScore !== undefined) return memory.rerankScore;
+			if (mode === "semantic") {
+				if (memory.distance === undefined) return 0;
+				const similarity = this.eizenService.toSimilarity(memory.distance);
+				return Math.min(1, Math.max(0, similarity));
+			}
+			return bestScore > 0 ? (memory.score ?? 0) / bestScore : 0;
+		};
+
+		const recencyOf = (memory: MemoryResult) => {
+			const timestamp =
+				(memory.metadata?.timestamp as string) ||
+				(memory.metadata?.createdAt as string);
+			const time = timestamp ? new Date(timestamp).getTime() : Number.NaN;
+			if (Number.isNaN(time)) return 0;
+
+			const ageDays = Math.max(0, now - time) / DAY_MS;
+			return 0.5 ** (ageDays / ranking.halfLifeDays);
+		};
+
+		return memories
+			.map((memory) => {
+				const similarity = similarityOf(memory);
+				const recency = recencyOf(memory);
+				const importance = ((memory.metadata?.importance as number) || 0) / 10;
+				const score =
+					(ranking.similarity * similarity +
+						ranking.recency * recency +
+						ranking.importance * importance) /
+					totalWeight;
+
+				return {
+					...memory,
+					ranking: { similarity, recency, importance, score },
+				};
+			})
+			.sort((a, b) => b.ranking.score - a.ranking.score);
+	}
+
+	/**
+	 * Converts the `ttl` of memory metadata into an absolute `expiresAt`
+	 *
+	 * A ttl takes precedence over an `expiresAt` given along with it.
+	 *
+	 * @private This is an internal helper method
+	 * @param metadata - Metadata of a created or updated memory
+	 * @returns The metadata without `ttl`
+	 */
+	private static resolveExpiry(
+		metadata?: Partial<MemoryMetadata>,
+	): VectorMetadata {
+		if (!metadata) return {};
+
+		const { ttl, ...rest } = metadata;
+		if (ttl === undefined) return rest;
+
+		return {
+			...rest,
+			expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+		};
+	}
+
+	/**
+	 * Read a mode from the environment, checked against the modes allowed
+	 *
+	 * @private This is an internal helper method
+	 * @param name - Environment variable holding the mode
+	 * @param modes - Modes allowed
+	 * @param fallback - Mode used when the variable is unset or empty
+	 * @throws {Error} When the variable holds a mode that isn't allowed
+	 */
+	private static getEnvMode<T extends string>(
+		name: string,
+		modes: readonly T[],
+		fallback: T,
+	): T {
+		const mode = process.env[name];
+		if (!mode) {
+			return fallback;
+		}
+		if (!(modes as readonly string[]).includes(mode)) {
+			throw new Error(
+				`Unknown ${name} "${mode}", expected one of: ${modes.join(", ")}`,
+			);
+		}
+		return mode as T;
+	}
+
+	/**
+	 * Get near-duplicate handling of a creation request, with defaults from the environment
+	 *
+	 * Defaults (configured via environment variables):
+	 * - DEDUPE_MODE: off, reject, merge or link (default: off)
+	 * - DEDUPE_THRESHOLD: Cosine similarity above which memories are near-duplicates (default: 0.95)
+	 *
+	 * @private This is an internal helper method
+	 * @throws {Error} When DEDUPE_MODE isn't one of the modes
+	 */
+	private static getDedupeParams(
+		data: Pick<CreateMemory, "dedupe" | "dedupeThreshold">,
+	): {
+		mode: DedupeMode;
+		threshold: number;
+	} {
+		const mode =
+			data.dedupe ??
+			MemoryService.getEnvMode("DEDUPE_MODE", dedupeModeSchema.options, "off");
+		const threshold =
+			data.dedupeThreshold ?? (Number(process.env.DEDUPE_THRESHOLD) || 0.95);
+		return { mode, threshold };
+	}
+
+	/**
+	 * Finds the stored memory closest to an embedding, if it's a near-duplicate
+	 *
+	 * Runs a k=1 search over memories (chunks of long memories, superseded,
+	 * expired and undecryptable memories excluded) and
+	 * converts its distance into a cosine similarity, whatever the index metric.
+	 *
+	 * @private This is an internal helper method
+	 * @param embeddings - Embedding of the new content
+	 * @param threshold - Similarity above which the closest memory is a near-duplicate
+	 * @returns Promise resolving to the near-duplicate, or null if there is none
+	 */
+	private async findDuplicate(
+		embeddings: number[],
+		threshold: number,
+	): Promise<Duplicate | null> {
+		const [closest] = await this.eizenService.searchVectors(
+			{ query: embeddings, k: 1 },
+			(metadata) =>
+				!this.isChunk(metadata) &&
+				!this.isSuperseded(metadata) &&
+				!this.isExpired(metadata) &&
+				!isEncrypted(metadata),
+		);
+		if (!closest) return null;
+
+		const similarity = this.eizenService.toSimilarity(closest.distance);
+		if (similarity < threshold) return null;
+
+		return { id: closest.id, metadata: closest.metadata, similarity };
+	}
+
+	/**
+	 * Get contradiction handling of a creation request, with defaults from the environment
+	 *
+	 * Defaults (configured via environment variables):
+	 * - CONTRADICTION_MODE: off, flag or supersede (default: flag)
+	 * - CONTRADICTION_THRESHOLD: Classifier probability above which memories contradict (default: 0.8)
+	 * - CONTRADICTION_MIN_SIMILARITY: Cosine similarity below which memories are about
+	 *   different things, and aren't classified (default: 0.5)
+	 *
+	 * @private This is an internal helper method
+	 * @throws {Error} When CONTRADICTION_MODE isn't one of the modes
+	 */
+	private static getContradictionParams(data: CreateMemory): {
+		mode: ContradictionMode;
+		threshold: number;
+		minSimilarity: number;
+	} {
+		const mode =
+			data.contradictions ??
+			MemoryService.getEnvMode(
+				"CONTRADICTION_MODE",
+				contradictionModeSchema.options,
+				"flag",
+			);
+		const threshold = Number(process.env.CONTRADICTION_THRESHOLD) || 0.8;
+		const minSimilarity =
+			Number(process.env.CONTRADICTION_MIN_SIMILARITY) || 0.5;
+		return { mode, threshold, minSimilarity };
+	}
+
+	/**
+	 * Finds the stored memories a new content likely contradicts
+	 *
+	 * Contradicting statements are about the same thing, so only the closest
+	 * memories (chunks of long memories, superseded, expired and undecryptable
+	 * memories excluded) above `minSimilarity` are paired with the new content
+	 * and scored by the classifier. Memories the service can't decrypt have no
+	 * content to compare, and marking them superseded would write the mark in
+	 * the clear, lost once they are decrypted.
+	 *
+	 * A classifier that fails, e.g. because its model can't be downloaded,
+	 * is logged and finds nothing: the memory is still stored.
+	 *
+	 * @private This is an internal helper method
+	 * @param embeddings - Embedding of the new content
+	 * @param content - The new content
+	 * @param params - Probability and similarity thresholds
+	 * @param classifier - Classifier scoring the pairs (default: CONTRADICTION_MODEL)
+	 * @returns Promise resolving to the contradicted memories, most likely first
+	 */
+	private async findContradictions(
+		embeddings: number[],
+		content: string,
+		params: { threshold: number; minSimilarity: number },
+		classifier: ContradictionClassifier = getContradictionClassifier(),
+	): Promise<
+		{
+			id: number;
+			content: string;
+			metadata?: VectorMetadata;
+			similarity: number;
+			probability: number;
+		}[]
+	> {
+		const neighbors = await this.eizenService.searchVectors(
+			{ query: embeddings, k: CONTRADICTION_CANDIDATES },
+			(metadata) =>
+				!this.isChunk(metadata) &&
+				!this.isSuperseded(metadata) &&
+				!this.isExpired(metadata) &&
+				!isEncrypted(metadata),
+		);
+		const candidates = neighbors
+			.map((neighbor) => ({
+				id: neighbor.id,
+				content: (neighbor.metadata?.content as string) || "",
+				metadata: neighbor.metadata,
+				similarity: this.eizenService.toSimilarity(neighbor.distance),
+			}))
+			.filter(
+				(candidate) =>
+					candidate.content && candidate.similarity >= params.minSimilarity,
+			);
+		if (candidates.length === 0) return [];
+
+		let probabilities: number[];
+		try {
+			probabilities = await classifier.classify(
+				candidates.map((candidate) => ({
+					premise: candidate.content,
+					hypothesis: content,
+				})),
+			);
+		} catch (error) {
+			console.error("Contradiction check skipped:", error);
+			return [];
+		}
+
+		const contradicted = candidates
+			.map((candidate, i) => ({ ...candidate, probability: probabilities[i] }))
+			.filter((candidate) => candidate.probability >= params.threshold)
+			.sort((a, b) => b.probability - a.probability);
+		if (contradicted.length > 0) {
+			console.log(
+				`${classifier.name} flagged contradictions with memories ${contradicted.map((memory) => memory.id).join(", ")}`,
+			);
+		}
+		return contradicted;
+	}
+
+	/**
+	 * Links a new memory to the memories it contradicts
+	 *
+	 * Superseded memories are linked as `supersedes`, flagged ones as
+	 * `contradicts`. Failing to link is logged only, the contradictions are
+	 * reported all the same.
+	 *
+	 * @private This is an internal helper method
+	 * @param memoryId - ID of the new memory
+	 * @param contradicted - The memories it contradicts, see `findContradictions`
+	 * @param action - Whether they were superseded or only flagged
+	 * @returns Promise resolving to the contradictions to report, or undefined if there are none
+	 */
+	private async linkContradictions(
+		memoryId: number,
+		contradicted: {
+			id: number;
+			content: string;
+			similarity: number;
+			probability: number;
+		}[],
+		action: ContradictionResult["action"],
+	): Promise<ContradictionResult[] | undefined> {
+		if (contradicted.length === 0) return undefined;
+
+		try {
+			await this.addLinks(
+				memoryId,
+				contradicted.map((memory) => memory.id),
+				action === "superseded" ? "supersedes" : "contradicts",
+			);
+		} catch (error) {
+			console.error(`Failed to link contradictions of ${memoryId}:`, error);
+		}
+
+		return contradicted.map((memory) => ({
+			action,
+			memoryId: memory.id,
+			content: memory.content,
+			similarity: memory.similarity,
+			probability: memory.probability,
+		}));
+	}
+
+	/**
+	 * Folds a near-duplicate creation request into the existing memory
+	 *
+	 * The memory keeps its content and vector. Its importance is bumped (or raised
+	 * to the new one if higher), the new tags are added and `duplicates` counts
+	 * how many times it was saved again.
+	 *
+	 * @private This is an internal helper method
+	 * @param memoryId - ID of the existing memory
+	 * @param metadata - Current metadata of the existing memory
+	 * @param data - The creation request being merged
+	 * @returns Promise resolving to the merged metadata
+	 */
+	private async mergeDuplicate(
+		memoryId: number,
+		metadata: VectorMetadata | undefined,
+		data: Pick<CreateMemory, "metadata">,
+	): Promise<VectorMetadata> {
+		const importance = Math.min(
+			10,
+			Math.max(
+				((metadata?.importance as number) || 0) + 1,
+				data.metadata?.importance ?? 0,
+			),
+		);
+		const tags = [
+			...new Set([
+				...((metadata?.tags as string[]) || []),
+				...(data.metadata?.tags ?? []),
+			]),
+		];
+
+		const merged: VectorMetadata = {
+			...metadata,
+			importance,
+			tags,
+			duplicates: ((metadata?.duplicates as number) || 0) + 1,
+			version: ((metadata?.version as number) || 1) + 1,
+			updatedAt: new Date().toISOString(),
+		};
+		await this.eizenService.updateVector(memoryId, { metadata: merged });
+		return merged;
+	}
+
+	/**
+	 * Stores the summary of a cluster of memories and supersedes them with it
+	 *
+	 * The consolidated memory and the `supersededBy` marks of its sources are
+	 * written in one batch, so a store that fails before the writes go out
+	 * leaves the sources as they were.
+	 *
+	 * @private This is an internal helper method
+	 * @param sources - IDs, contents and metadata of the clustered memories
+	 * @param summarizer - Summarizer writing the consolidated content
+	 * @param model - The embedding model pinned to the contract
+	 * @returns Promise resolving to the ID of the consolidated memory
+	 *
+	 * @throws {Error} When summarizing, embedding or storing fails
+	 */
+	private async storeConsolidated(
+		sources: { id: number; content: string; metadata: VectorMetadata }[],
+		summarizer: Summarizer,
+		model: EmbeddingModelId,
+	): Promise<number> {
+		const content = await summarizer.summarize(
+			sources.map((source) => source.content),
+		);
+		const chunks = chunkText(content);
+		const embeddings = await this.batchTextToEmbeddings(chunks, model);
+
+		const importance = Math.max(
+			...sources.map((source) => (source.metadata?.importance as number) || 0),
+		);
+		const metadata: VectorMetadata = {
+			content,
+			version: 1,
+			...(importance > 0 && { importance }),
+			tags: [
+				...new Set(
+					sources.flatMap(
+						(source) => (source.metadata?.tags as string[]) || [],
+					),
+				),
+			],
+			context: "consolidated",
+			client: "consolidation",
+			timestamp: new Date().toISOString(),
+			consolidatedFrom: sources.map((source) => source.id),
+			summarizer: summarizer.name,
+		};
+
+		const memoryId = await this.eizenService.batch(async () => {
+			const [memoryId] = await this.storeMemories([
+				{ metadata, chunks, embeddings },
+			]);
+			for (const source of sources) {
+				await this.eizenService.updateVector(source.id, {
+					metadata: { ...source.metadata, supersededBy: memoryId },
+				});
+			}
+			return memoryId;
+		});
+
+		await this.indexKeywords([{ id: memoryId, text: content }]);
+
+		// The sources are kept in consolidatedFrom already, links make them followable
+		try {
+			await this.addLinks(
+				memoryId,
+				sources.map((source) => source.id),
+				"supersedes",
+			);
+		} catch (error) {
+			console.error(`Failed to link consolidated memory ${memoryId}:`, error);
+		}
+
+		return memoryId;
+	}
+
+	/**
+	 * Links a memory to others, storing each link on both of its ends
+	 *
+	 * @private This is an internal helper method
+	 * @param source - ID of the source memory
+	 * @param targets - IDs of the target memories
+	 * @param type - Type of the links
+	 * @returns Promise resolving to the number of links added, existing ones excepted
+	 *
+	 * @throws {Error} When reading or writing the links fails
+	 */
+	private async addLinks(
+		source: number,
+		targets: number[],
+		type: LinkType,
+	): Promise<number> {
+		const links = await this.eizenService.getLinks([source, ...targets]);
+		const sourceLinks = links.get(source) ?? [];
+		const updated = new Map<number, MemoryLink[]>();
+
+		for (const target of targets) {
+			const exists = sourceLinks.some(
+				(link) =>
+					link.id === target && link.type === type && link.direction === "out",
+			);
+			if (exists) continue;
+
+			sourceLinks.push({ id: target, type, direction: "out" });
+			updated.set(target, [
+				...(links.get(target) ?? []),
+				{ id: source, type, direction: "in" },
+			]);
+		}
+		if (updated.size === 0) {
+			return 0;
+		}
+
+		updated.set(source, sourceLinks);
+		await this.eizenService.setLinks(updated);
+		return updated.size - 1;
+	}
+
+	/**
+	 * Follows the links of memories breadth first, up to a number of hops
+	 *
+	 * Memories already reached are not returned twice, and the starting ones
+	 * are never returned. Deleted memories and memories failing the filter are
+	 * skipped, and not followed further.
+	 *
+	 * @private This is an internal helper method
+	 * @param ids - IDs of the memories to start from
+	 * @param hops - Maximum number of links followed
+	 * @param filter - Metadata predicate the linked memories must pass
+	 * @returns Promise resolving to the linked memories with how they were reached
+	 */
+	private async followLinks(
+		ids: number[],
+		hops: number,
+		filter: MetadataFilter<VectorMetadata>,
+	): Promise<MemoryResult[]> {
+		const reached = new Set(ids);
+		const linked: MemoryResult[] = [];
+		let frontier = ids;
+
+		for (let hop = 1; hop <= hops && frontier.length > 0; hop++) {
+			const links = await this.eizenService.getLinks(frontier);
+			const next: number[] = [];
+
+			for (const [from, memoryLinks] of links) {
+				for (const link of memoryLinks) {
+					if (reached.has(link.id)) continue;
+					reached.add(link.id);
+
+					const vector = await this.eizenService.getVector(link.id);
+					if (
+						!vector ||
+						this.isChunk(vector.metadata) ||
+						!filter(vector.metadata)
+					) {
+						continue;
+					}
+
+					linked.push({
+						id: link.id,
+						content: (vector.metadata?.content as string) || undefined,
+						metadata: vector.metadata,
+						link: {
+							from,
+							type: link.type,
+							direction: link.direction,
+							hops: hop,
+						},
+					});
+					next.push(link.id);
+				}
+			}
+
+			frontier = next;
+		}
+
+		return linked;
+	}
+
+	/**
+	 * Stores memories with their chunks, all written in one batch
+	 *
+	 * Each memory is stored with the embedding of its first chunk and its full
+	 * content. Its other chunks become vectors of their own, see `storeChunks`,
+	 * whose IDs are kept in the memory's `chunkIds`.
+	 *
+	 * @private This is an internal helper method
+	 * @param memories - Metadata, chunks and chunk embeddings of each memory
+	 * @returns Promise resolving to the memory IDs, in the same order as the input
+	 *
+	 * @throws {Error} When storage fails, in which case nothing is stored
+	 */
+	private async storeMemories(
+		memories: {
+			metadata: VectorMetadata;
+			chunks: string[];
+			embeddings: number[][];
+		}[],
+	): Promise<number[]> {
+		return this.eizenService.batch(async () => {
+			const memoryIds = await this.eizenService.insertVectors(
+				memories.map((memory) => ({
+					vector: memory.embeddings[0],
+					metadata: memory.metadata,
+				})),
+			);
+
+			for (const [i, memory] of memories.entries()) {
+				if (memory.chunks.length < 2) continue;
+				const chunkIds = await this.storeChunks(
+					memoryIds[i],
+					memory.chunks,
+					memory.embeddings,
+				);
+				await this.eizenService.updateVector(memoryIds[i], {
+					metadata: { ...memory.metadata, chunkIds },
+				});
+			}
+
+			return memoryIds;
+		});
+	}
+
+	/**
+	 * Stores every chunk but the first of a memory as vectors linked to it
+	 *
+	 * The first chunk is embedded in the memory's own vector. The others only
+	 * carry their text, their position and the `parentId` of the memory.
+	 *
+	 * @private This is an internal helper method
+	 * @param memoryId - ID of the memory the chunks belong to
+	 * @param chunks - All chunks of the memory's content
+	 * @param embeddings - Embeddings of the chunks, in the same order
+	 * @returns Promise resolving to the IDs of the stored chunks
+	 */
+	private async storeChunks(
+		memoryId: number,
+		chunks: string[],
+		embeddings: number[][],
+	): Promise<number[]> {
+		if (chunks.length < 2) return [];
+
+		return this.eizenService.insertVectors(
+			chunks.slice(1).map((chunk, i) => ({
+				vector: embeddings[i + 1],
+				metadata: { parentId: memoryId, chunkIndex: i + 1, content: chunk },
+			})),
+		);
+	}
+
+	/**
+	 * Checks whether a vector is a chunk of a long memory rather than a memory
+	 *
+	 * @private This is an internal helper method
+	 */
+	private isChunk(metadata?: VectorMetadata | null): boolean {
+		return metadata?.parentId !== undefined;
+	}
+
+	/**
+	 * Checks whether a memory was consolidated into another one
+	 *
+	 * @private This is an internal helper method
+	 */
+	private isSuperseded(metadata?: VectorMetadata | null): boolean {
+		return metadata?.supersededBy !== undefined;
+	}
+
+	/**
+	 * Checks whether a memory's `expiresAt` has passed
+	 *
+	 * @private This is an internal helper method
+	 */
+	private isExpired(metadata?: VectorMetadata | null): boolean {
+		const expiresAt = metadata?.expiresAt as string | undefined;
+		return (
+			expiresAt !== undefined && new Date(expiresAt).getTime() <= Date.now()
+		);
+	}
+
+	/**
+	 * Returns the IDs of the chunks stored for a memory
+	 *
+	 * @private This is an internal helper method
+	 */
+	private chunkIdsOf(metadata?: VectorMetadata): number[] {
+		return (metadata?.chunkIds as number[] | undefined) ?? [];
+	}
+
+	/**
+	 * Indexes memory contents for keyword search
+	 *
+	 * The memories are already stored at this point, so a failure is only logged:
+	 * the memories stay reachable through semantic search.
+	 *
+	 * @private This is an internal helper method
+	 * @param docs - The memory IDs and their contents
+	 */
+	private async indexKeywords(docs: { id: number; text: string }[]) {
+		try {
+			await this.eizenService.indexKeywords(docs);
+		} catch (error) {
+			console.error("Failed to index memory keywords:", error);
+		}
+	}
+
+	/**
+	 * Converts search filters into a metadata predicate for Eizen
+	 *
+	 * Filters allow users to narrow down search results based on:
+	 * - Tags (categories, labels)
+	 * - Importance range (numerical rating)
+	 * - Context and client/source information
+	 * - Date ranges (creation or custom timestamps)
+	 *
+	 * The predicate is evaluated by Eizen while traversing the graph, so
+	 * non-matching memories never take up one of the k result slots.
+	 *
+	 * Memories superseded by a consolidated memory are always left out, see
+	 * `consolidateMemories`, and so are expired memories.
+	 *
+	 * @private This is an internal helper method
+	 * @param filters - Optional filter criteria
+	 * @returns Metadata predicate
+	 */
+	private toMetadataFilter(
+		filters?: SearchFilters,
+	): MetadataFilter<VectorMetadata> {
+		return (metadata) => {
+			// Skip filtering if memory has no metadata
+			if (!metadata) return true;
+
+			// Chunks only hold text, their memory is checked once hits are collapsed
+			if (this.isChunk(metadata)) return true;
+
+			// Consolidated into another memory, which is found instead
+			if (this.isSuperseded(metadata)) return false;
+
+			// Expired memories are forgotten, even before a sweep deletes them
+			if (this.isExpired(metadata)) return false;
+
+			// If no filters provided, search without other restrictions
+			if (!filters) return true;
+
+			// Filter by tags - check if memory has any of the requested tags
+			if (filters.tags && Array.isArray(filters.tags)) {
+				const memoryTags = (metadata.tags as string[]) || [];
+				const hasRequiredTags = filters.tags.some((tag: string) =>
+					memoryTags.includes(tag),
+				);
+				if (!hasRequiredTags) return false;
+			}
+
+			// Filter by importance range
+			const importance = (metadata.importance as number) || 0;
+			if (
+				filters.importance_min !== undefined &&
+				importance < filters.importance_min
+			)
+				return false;
+			if (
+				filters.importance_max !== undefined &&
+				importance > filters.importance_max
+			)
+				return false;
+
+			// Filter by context - partial string matching
+			if (filters.context) {
+				const context = (metadata.context as string) || "";
+				if (!context.includes(filters.context)) return false;
+			}
+
+			// Filter by client - partial string matching
+			if (filters.client) {
+				const client = (metadata.client as string) || "";
+				if (!client.includes(filters.client)) return false;
+			}
+
+			// Filter by date range - check creation date or custom timestamp
+			if (filters.date_from || filters.date_to) {
+				const timestamp =
+					(metadata.timestamp as string) || (metadata.createdAt as string);
+				if (timestamp) {
+					const memoryDate = new Date(timestamp);
+					// Check if memory is after start date
+					if (filters.date_from && memoryDate < new Date(filters.date_from))
+						return false;
+					// Check if memory is before end date
 					if (filters.date_to && memoryDate > new Date(filters.date_to))
 						return false;
 				}
 			}
 
 			return true;
-		});
+		};
 	}
 }
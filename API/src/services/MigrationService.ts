@@ -0,0 +1,375 @@
+import type { InferSelectModel } from "drizzle-orm";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import type { EmbeddingModelId } from "../config/embeddingModels.js";
+import { db } from "../db/db.js";
+import { embeddingMigrationsTable } from "../db/schema/embeddingMigrations.js";
+import { expiringContractsTable } from "../db/schema/expiringContracts.js";
+import { keysTable } from "../db/schema/keys.js";
+import { EizenService } from "./EizenService.js";
+import { embeddingService } from "./EmbeddingService.js";
+
+export type EmbeddingMigration = InferSelectModel<
+	typeof embeddingMigrationsTable
+>;
+
+export interface StartMigrationResult {
+	success: boolean;
+	migration?: EmbeddingMigration;
+	error?: string;
+}
+
+// Number of memories read, re-embedded and written to the new contract at once
+const MIGRATION_CHUNK_SIZE = 50;
+
+// Migrations holding the write lock of their user
+const ACTIVE_STATUSES: EmbeddingMigration["status"][] = ["pending", "running"];
+
+/**
+ * Retrieves the pending or running migration of a user, if any
+ *
+ * Memories can't be written while a migration runs: the job copies the
+ * contract as it was when it started.
+ *
+ * @param {string} userId - Clerk user ID
+ * @returns {Promise<EmbeddingMigration | undefined>} The active migration
+ */
+export async function getActiveMigration(
+	userId: string,
+): Promise<EmbeddingMigration | undefined> {
+	return db.query.embeddingMigrationsTable.findFirst({
+		where: and(
+			eq(embeddingMigrationsTable.clerkId, userId),
+			inArray(embeddingMigrationsTable.status, ACTIVE_STATUSES),
+		),
+	});
+}
+
+/**
+ * Starts re-embedding every memory of a contract with another model
+ *
+ * The job runs in the background:
+ * 1. Deploys a new contract and pins the new model to it
+ * 2. Reads the memories of the current contract chunk by chunk, re-embeds
+ *    their stored content and writes them to the new contract with the same IDs
+ *    (deleted memories are copied as deleted, so IDs stay aligned), collection
+ *    by collection
+ * 3. Switches the user's keys to the new contract and completes the migration
+ *    in one database transaction
+ *
+ * Searches keep using the current contract until the switch. If the job fails,
+ * the current contract stays active and the new one is abandoned.
+ *
+ * @param {string} userId - Clerk user ID owning the contract
+ * @param {string} contractId - Contract currently serving the user's memories
+ * @param {EmbeddingModelId} embeddingModel - Model to re-embed the memories with
+ * @returns {Promise<StartMigrationResult>} The created migration, or why none was started
+ *
+ * @example
+ * ```typescript
+ * const result = await startMigration("user_123", contractId, "bge-small-en-v1.5");
+ * if (result.success) {
+ *   // Poll getMigrationStatus("user_123") until it completes
+ * }
+ * ```
+ */
+export async function startMigration(
+	userId: string,
+	contractId: string,
+	embeddingModel: EmbeddingModelId,
+): Promise<StartMigrationResult> {
+	try {
+		if (await getActiveMigration(userId)) {
+			return { success: false, error: "A migration is already in progress" };
+		}
+
+		const source = await EizenService.forContract(contractId);
+		// The job runs without the secret, encrypted contents can't be re-embedded
+		if (await source.hasEncryptedMetadata()) {
+			return {
+				success: false,
+				error: "Encrypted memories can't be re-embedded with another model",
+			};
+		}
+		const currentModel = await source.getEmbeddingModel();
+		if (currentModel === embeddingModel) {
+			return {
+				success: false,
+				error: `Memories are already embedded with ${embeddingModel}`,
+			};
+		}
+
+		// The index of active migrations refuses a concurrent start of the same user
+		const [migration] = await db
+			.insert(embeddingMigrationsTable)
+			.values({
+				clerkId: userId,
+				sourceContractId: contractId,
+				embeddingModel,
+			})
+			.onConflictDoNothing()
+			.returning();
+		if (!migration) {
+			return { success: false, error: "A migration is already in progress" };
+		}
+
+		console.log(
+			`Migration ${migration.id} started: ${currentModel} -> ${embeddingModel} for user ${userId}`,
+		);
+
+		// Runs in the background, failures are recorded on the migration
+		runMigration(migration, source, embeddingModel);
+
+		return { success: true, migration };
+	} catch (error) {
+		console.error("Error starting migration:", error);
+		return { success: false, error: "Failed to start migration" };
+	}
+}
+
+/**
+ * Retrieves the latest migration of a user
+ *
+ * @param {string} userId - Clerk user ID to check migration status for
+ * @returns {Promise<{hasMigration: boolean, migration?: EmbeddingMigration}>}
+ *          Status result with the latest migration if there is one
+ *
+ * @example
+ * ```typescript
+ * const status = await getMigrationStatus("user_123");
+ * if (status.migration?.status === "running") {
+ *   console.log(`${status.migration.processed}/${status.migration.total} memories`);
+ * }
+ * ```
+ */
+export async function getMigrationStatus(
+	userId: string,
+): Promise<{ hasMigration: boolean; migration?: EmbeddingMigration }> {
+	try {
+		const migration = await db.query.embeddingMigrationsTable.findFirst({
+			where: eq(embeddingMigrationsTable.clerkId, userId),
+			orderBy: desc(embeddingMigrationsTable.createdAt),
+		});
+
+		if (!migration) {
+			return { hasMigration: false };
+		}
+
+		return { hasMigration: true, migration };
+	} catch (error) {
+		console.error("Error checking migration status:", error);
+		return { hasMigration: false };
+	}
+}
+
+/**
+ * Marks migrations left pending or running by a previous process as failed
+ *
+ * Jobs live in the API process, so a restart stops them. Called on startup,
+ * it releases the write lock of their users; the current contracts stay active.
+ *
+ * @returns {Promise<number>} Number of interrupted migrations
+ */
+export async function failInterruptedMigrations(): Promise<number> {
+	const interrupted = await db
+		.update(embeddingMigrationsTable)
+		.set({
+			status: "failed",
+			error: "Interrupted by a server restart",
+			updatedAt: new Date(),
+		})
+		.where(inArray(embeddingMigrationsTable.status, ACTIVE_STATUSES))
+		.returning({ id: embeddingMigrationsTable.id });
+
+	if (interrupted.length > 0) {
+		console.warn(`Marked ${interrupted.length} interrupted migrations failed`);
+	}
+	return interrupted.length;
+}
+
+/**
+ * Runs a migration to completion, recording any failure on it
+ *
+ * @param {EmbeddingMigration} migration - The migration to run
+ * @param {EizenService} source - Service of the contract being migrated
+ * @param {EmbeddingModelId} embeddingModel - Model to re-embed the memories with
+ * @returns {Promise<void>} Never rejects (non-blocking)
+ */
+async function runMigration(
+	migration: EmbeddingMigration,
+	source: EizenService,
+	embeddingModel: EmbeddingModelId,
+): Promise<void> {
+	try {
+		await updateMigration(migration.id, { status: "running" });
+
+		// Step 1: Deploy the new contract, pinned to the new model
+		const { contractId } = await EizenService.deployNewContract();
+		if (!contractId) {
+			throw new Error("Failed to deploy contract on Arweave");
+		}
+		const target = await EizenService.forContract(contractId);
+		await target.pinEmbeddingModel(embeddingModel);
+		await updateMigration(migration.id, { targetContractId: contractId });
+
+		// Step 2: Re-embed every memory into it, the default index then each collection
+		const pairs: [EizenService, EizenService][] = [[source, target]];
+		for (const name of await source.listCollections()) {
+			await target.createCollection(name);
+			pairs.push([
+				await EizenService.forContract(migration.sourceContractId, name),
+				await EizenService.forContract(contractId, name),
+			]);
+		}
+
+		let total = 0;
+		for (const [from] of pairs) {
+			total += (await from.scanVectors(0, 0)).size;
+		}
+		let processed = 0;
+		for (const [from, to] of pairs) {
+			processed = await copyMemories(migration.id, from, to, embeddingModel, {
+				processed,
+				total,
+			});
+		}
+
+		// Step 3: Switch the user's keys to the new contract, all or nothing
+		await db.transaction(async (tx) => {
+			await tx
+				.update(keysTable)
+				.set({ activeContractId: contractId })
+				.where(eq(keysTable.clerkId, migration.clerkId));
+			// Expiring memories were copied, the new contract is swept instead
+			await tx
+				.update(expiringContractsTable)
+				.set({ contractId })
+				.where(
+					eq(expiringContractsTable.contractId, migration.sourceContractId),
+				);
+			await tx
+				.update(embeddingMigrationsTable)
+				.set({
+					status: "completed",
+					updatedAt: new Date(),
+					completedAt: new Date(),
+				})
+				.where(eq(embeddingMigrationsTable.id, migration.id));
+		});
+
+		console.log(`Migration ${migration.id} completed, now on ${contractId}`);
+	} catch (error) {
+		console.error(`Migration ${migration.id} failed:`, error);
+		try {
+			await updateMigration(migration.id, {
+				status: "failed",
+				error: error instanceof Error ? error.message : "Unknown error",
+			});
+		} catch (updateError) {
+			console.error("Failed to record migration failure:", updateError);
+		}
+	}
+}
+
+/**
+ * Copies every memory of a collection into another, re-embedding its content
+ *
+ * Memories keep their IDs: they are written in ID order into an empty collection,
+ * and deleted memories are written then deleted again. Their links are copied
+ * as they are. Progress is saved after every chunk.
+ *
+ * @param {string} migrationId - ID of the migration to report progress on
+ * @param {EizenService} source - Service of the collection being migrated
+ * @param {EizenService} target - Service of the new, empty collection
+ * @param {EmbeddingModelId} embeddingModel - Model to re-embed the memories with
+ * @param {{processed: number, total: number}} progress - Memories copied before
+ *        this collection, and of the whole migration
+ * @returns {Promise<number>} Memories copied so far, this collection included
+ * @throws {Error} When reading, embedding or writing fails
+ */
+async function copyMemories(
+	migrationId: string,
+	source: EizenService,
+	target: EizenService,
+	embeddingModel: EmbeddingModelId,
+	progress: { processed: number; total: number },
+): Promise<number> {
+	let start = 0;
+	let size = 0;
+
+	do {
+		const scan = await source.scanVectors(start, MIGRATION_CHUNK_SIZE);
+		size = scan.size;
+		if (scan.vectors.length === 0) break;
+
+		const contents = scan.vectors.map(
+			(vector) => (vector.metadata?.content as string | undefined) ?? "",
+		);
+		const embeddings = await embeddingService.batchTextToEmbeddings(contents, {
+			model: embeddingModel,
+		});
+
+		const ids = await target.insertVectors(
+			scan.vectors.map((vector, i) => ({
+				vector: embeddings[i].embeddings,
+				metadata: vector.metadata,
+			})),
+		);
+		if (ids[0] !== start) {
+			throw new Error(
+				`Memory IDs diverged: memory ${start} was stored as ${ids[0]}`,
+			);
+		}
+
+		for (const vector of scan.vectors) {
+			if (!vector.visible) {
+				await target.deleteVector(vector.id);
+			}
+		}
+		const links = await source.getLinks(
+			scan.vectors.map((vector) => vector.id),
+		);
+		for (const [id, memoryLinks] of links) {
+			if (memoryLinks.length === 0) links.delete(id);
+		}
+		if (links.size > 0) {
+			await target.setLinks(links);
+		}
+		await target.indexKeywords(
+			scan.vectors
+				.map((vector, i) => ({ id: vector.id, text: contents[i] }))
+				.filter(
+					(doc, i) =>
+						scan.vectors[i].visible &&
+						scan.vectors[i].metadata?.parentId === undefined &&
+						doc.text !== "",
+				),
+		);
+
+		start += scan.vectors.length;
+		const processed = progress.processed + start;
+		await updateMigration(migrationId, { processed, total: progress.total });
+		console.log(
+			`Migration ${migrationId}: ${processed}/${progress.total} memories`,
+		);
+	} while (start < size);
+
+	return progress.processed + start;
+}
+
+/**
+ * Updates a migration record, bumping its updatedAt
+ */
+async function updateMigration(
+	migrationId: string,
+	values: Partial<
+		Pick<
+			EmbeddingMigration,
+			"status" | "targetContractId" | "processed" | "total" | "error"
+		>
+	>,
+): Promise<void> {
+	await db
+		.update(embeddingMigrationsTable)
+		.set({ ...values, updatedAt: new Date() })
+		.where(eq(embeddingMigrationsTable.id, migrationId));
+}
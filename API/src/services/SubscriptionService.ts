@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 import { db } from "../db/db.js";
 import { subscriptionsTable } from "../db/schema/subscriptions.js";
 import { keysTable } from "../db/schema/keys.js";
@@ -121,6 +121,103 @@ export async function incrementQuotaUsage(
 	}
 }
 
+/**
+ * Atomically reserve quota for several operations at once
+ *
+ * The usage is only incremented if the whole amount fits in the remaining quota
+ * of an active subscription, in a single conditional update, so concurrent
+ * requests can't overshoot the limit.
+ *
+ * @param clerkId - User's Clerk ID
+ * @param amount - Number of operations to reserve quota for
+ * @returns Promise<QuotaUpdateResult> - Update result (success false if quota is insufficient)
+ */
+export async function reserveQuota(
+	clerkId: string,
+	amount: number,
+): Promise<QuotaUpdateResult> {
+	try {
+		const [updated] = await db
+			.update(subscriptionsTable)
+			.set({
+				quotaUsed: sql`${subscriptionsTable.quotaUsed} + ${amount}`,
+			})
+			.where(
+				and(
+					eq(subscriptionsTable.clerkId, clerkId),
+					eq(subscriptionsTable.isActive, true),
+					sql`${subscriptionsTable.quotaUsed} + ${amount} <= ${subscriptionsTable.quotaLimit}`,
+				),
+			)
+			.returning({ quotaUsed: subscriptionsTable.quotaUsed });
+
+		if (!updated) {
+			return {
+				success: false,
+				newUsage: 0,
+				error: `Not enough quota left for ${amount} operations`,
+			};
+		}
+
+		console.log(
+			`Reserved ${amount} quota for user ${clerkId}: now ${updated.quotaUsed}`,
+		);
+
+		return {
+			success: true,
+			newUsage: updated.quotaUsed,
+		};
+	} catch (error) {
+		console.error("Error reserving quota:", error);
+		return {
+			success: false,
+			newUsage: 0,
+			error: "Failed to reserve quota",
+		};
+	}
+}
+
+/**
+ * Atomically give back quota reserved with `reserveQuota` for operations that failed
+ * @param clerkId - User's Clerk ID
+ * @param amount - Number of operations to refund
+ * @returns Promise<QuotaUpdateResult> - Update result
+ */
+export async function releaseQuota(
+	clerkId: string,
+	amount: number,
+): Promise<QuotaUpdateResult> {
+	try {
+		const [updated] = await db
+			.update(subscriptionsTable)
+			.set({
+				quotaUsed: sql`greatest(${subscriptionsTable.quotaUsed} - ${amount}, 0)`,
+			})
+			.where(eq(subscriptionsTable.clerkId, clerkId))
+			.returning({ quotaUsed: subscriptionsTable.quotaUsed });
+
+		if (!updated) {
+			return {
+				success: false,
+				newUsage: 0,
+				error: "No subscription found for user",
+			};
+		}
+
+		return {
+			success: true,
+			newUsage: updated.quotaUsed,
+		};
+	} catch (error) {
+		console.error("Error releasing quota:", error);
+		return {
+			success: false,
+			newUsage: 0,
+			error: "Failed to release quota",
+		};
+	}
+}
+
 /**
  * Get user's current subscription details including quota info
  * @param clerkId - User's Clerk ID
@@ -0,0 +1,217 @@
+import { splitSentences } from "../utils/chunking.js";
+
+/**
+ * Turns several memories about one topic into a single consolidated memory.
+ *
+ * Implementations must keep the facts of every text, and may drop repetitions.
+ */
+export interface Summarizer {
+	readonly name: string; // Recorded on consolidated memories, for provenance
+	summarize(texts: string[]): Promise<string>;
+}
+
+// Longest summary produced by the extractive summarizer, in characters
+const EXTRACTIVE_MAX_CHARS = 800;
+
+// Sentences sharing this share of their words with a picked one are repetitions
+const EXTRACTIVE_OVERLAP = 0.6;
+
+// Time an LLM endpoint gets to answer, in milliseconds
+const LLM_TIMEOUT = 30000;
+
+/**
+ * Local summarizer picking the most representative sentences of the texts
+ *
+ * Sentences score by how many texts share their words, so sentences about the
+ * common topic win over incidental ones. Picked sentences skip repetitions of
+ * one another and keep their original order. Nothing leaves the server.
+ *
+ * @example
+ * ```typescript
+ * const summary = await new ExtractiveSummarizer().summarize([
+ *   "User prefers dark mode in the editor.",
+ *   "User prefers dark mode. They use VS Code.",
+ * ]);
+ * // "User prefers dark mode in the editor. They use VS Code."
+ * ```
+ */
+export class ExtractiveSummarizer implements Summarizer {
+	readonly name = "extractive";
+
+	async summarize(texts: string[]): Promise<string> {
+		const sentences = texts.flatMap((text) =>
+			splitSentences(text).map((sentence) => ({
+				sentence,
+				words: new Set(this.words(sentence)),
+			})),
+		);
+
+		// Document frequency: in how many texts each word appears
+		const frequency = new Map<string, number>();
+		for (const text of texts) {
+			for (const word of new Set(this.words(text))) {
+				frequency.set(word, (frequency.get(word) ?? 0) + 1);
+			}
+		}
+
+		const ranked = sentences
+			.map((entry, position) => {
+				let score = 0;
+				for (const word of entry.words) score += frequency.get(word) ?? 0;
+				return {
+					...entry,
+					position,
+					score: score / Math.sqrt(entry.words.size || 1),
+				};
+			})
+			.sort((a, b) => b.score - a.score || a.position - b.position);
+
+		const picked: typeof ranked = [];
+		let length = 0;
+		for (const candidate of ranked) {
+			// The best sentence is kept even when it's longer than a summary
+			if (
+				picked.length > 0 &&
+				length + candidate.sentence.length > EXTRACTIVE_MAX_CHARS
+			) {
+				continue;
+			}
+			const repeats = picked.some(
+				(other) =>
+					this.overlap(candidate.words, other.words) >= EXTRACTIVE_OVERLAP,
+			);
+			if (repeats) continue;
+
+			picked.push(candidate);
+			length += candidate.sentence.length + 1;
+		}
+
+		return picked
+			.sort((a, b) => a.position - b.position)
+			.map((entry) => entry.sentence)
+			.join(" ");
+	}
+
+	/**
+	 * Lowercase words of a text, short ones excepted
+	 */
+	private words(text: string): string[] {
+		return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter(
+			(word) => word.length > 2,
+		);
+	}
+
+	/**
+	 * Share of the words of the smaller set found in the other one
+	 */
+	private overlap(a: Set<string>, b: Set<string>): number {
+		const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+		if (small.size === 0) return 1;
+
+		let shared = 0;
+		for (const word of small) if (large.has(word)) shared++;
+		return shared / small.size;
+	}
+}
+
+/**
+ * Summarizer asking an OpenAI-compatible chat completions endpoint
+ *
+ * @example
+ * ```typescript
+ * const summarizer = new LlmSummarizer(
+ *   "https://api.openai.com/v1/chat/completions",
+ *   "gpt-4o-mini",
+ *   process.env.SUMMARIZER_API_KEY,
+ * );
+ * ```
+ */
+export class LlmSummarizer implements Summarizer {
+	readonly name: string;
+	private url: string;
+	private model: string;
+	private apiKey?: string;
+
+	/**
+	 * @param url - Chat completions endpoint
+	 * @param model - Model name sent with every request
+	 * @param apiKey - Optional bearer token
+	 */
+	constructor(url: string, model: string, apiKey?: string) {
+		this.name = `llm:${model}`;
+		this.url = url;
+		this.model = model;
+		this.apiKey = apiKey;
+	}
+
+	/**
+	 * @throws {Error} When the endpoint fails, times out or answers without content
+	 */
+	async summarize(texts: string[]): Promise<string> {
+		try {
+			const response = await fetch(this.url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+				},
+				body: JSON.stringify({
+					model: this.model,
+					temperature: 0,
+					messages: [
+						{
+							role: "system",
+							content:
+								"Merge these memory fragments about one topic into a single concise memory. Keep every fact, drop repetitions, and answer with the memory only.",
+						},
+						{
+							role: "user",
+							content: texts.map((text, i) => `${i + 1}. ${text}`).join("\n"),
+						},
+					],
+				}),
+				signal: AbortSignal.timeout(LLM_TIMEOUT),
+			});
+
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+			}
+
+			const result = (await response.json()) as {
+				choices?: { message?: { content?: string } }[];
+			};
+			const summary = result.choices?.[0]?.message?.content?.trim();
+			if (!summary) {
+				throw new Error("The endpoint answered without a summary");
+			}
+			return summary;
+		} catch (error) {
+			console.error("Failed to summarize memories:", error);
+			throw new Error(
+				`Failed to summarize memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+}
+
+/**
+ * Get the summarizer configured for memory consolidation
+ *
+ * Summarizer parameters (configured via environment variables):
+ * - SUMMARIZER_URL: OpenAI-compatible chat completions endpoint, the local
+ *   extractive summarizer is used when unset
+ * - SUMMARIZER_MODEL: Model asked for summaries (default: gpt-4o-mini)
+ * - SUMMARIZER_API_KEY: Bearer token of the endpoint (optional)
+ */
+export function getSummarizer(): Summarizer {
+	const url = process.env.SUMMARIZER_URL;
+	if (!url) {
+		return new ExtractiveSummarizer();
+	}
+
+	return new LlmSummarizer(
+		url,
+		process.env.SUMMARIZER_MODEL || "gpt-4o-mini",
+		process.env.SUMMARIZER_API_KEY,
+	);
+}
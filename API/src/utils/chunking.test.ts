@@ -0,0 +1,41 @@
+import { expect, test } from "vitest";
+import { chunkText, splitSentences } from "./chunking.js";
+
+const sentences = Array.from(
+	{ length: 40 },
+	(_, i) => `Sentence number ${i} of the meeting notes.`,
+);
+
+test("short text is a single chunk", () => {
+	expect(chunkText("User prefers dark mode.")).toEqual([
+		"User prefers dark mode.",
+	]);
+});
+
+test("long text is cut on sentence boundaries, repeating the last sentences", () => {
+	const text = sentences.join(" ");
+	const chunks = chunkText(text, { maxChars: 200, overlapChars: 60 });
+
+	expect(chunks.length).toBeGreaterThan(1);
+	for (const chunk of chunks) {
+		expect(chunk.length).toBeLessThanOrEqual(200);
+		expect(chunk).toMatch(/^Sentence number \d+ .*notes\.$/);
+	}
+	for (let i = 1; i < chunks.length; i++) {
+		const [last] = splitSentences(chunks[i - 1]).slice(-1);
+		expect(chunks[i].startsWith(last)).toBe(true);
+	}
+
+	// Every sentence is kept, in order
+	const kept = [...new Set(chunks.flatMap((chunk) => splitSentences(chunk)))];
+	expect(kept).toEqual(sentences);
+});
+
+test("sentences longer than a chunk are cut between words", () => {
+	const text = "word ".repeat(100).trim();
+	const chunks = chunkText(text, { maxChars: 120, overlapChars: 0 });
+
+	expect(chunks.every((chunk) => chunk.length <= 120)).toBe(true);
+	expect(chunks.every((chunk) => /^(word ?)+$/.test(chunk))).toBe(true);
+	expect(chunks.join(" ").split(" ")).toHaveLength(100);
+});
@@ -0,0 +1,111 @@
+/**
+ * Context0 Text Chunking
+ *
+ * Embedding models only read the start of a text (all-MiniLM-L6-v2 stops at
+ * 256 tokens, about 1000 characters of English), so long memories are split
+ * into overlapping chunks that are embedded separately.
+ *
+ * Chunks end on sentence boundaries whenever possible, and each one repeats the
+ * last sentences of the previous chunk so that a passage straddling two chunks
+ * is still whole in one of them.
+ */
+
+export interface ChunkOptions {
+	maxChars?: number; // Longest chunk, in characters (default: 800)
+	overlapChars?: number; // Longest repeated tail of the previous chunk (default: 200)
+}
+
+// Sentences, with their closing punctuation and trailing whitespace
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)\s*/g;
+
+/**
+ * Splits text into overlapping chunks that fit the embedding model
+ *
+ * Text that fits in one chunk is returned as is.
+ *
+ * @param text - The text to split
+ * @param options - Chunk and overlap sizes
+ * @returns The chunks, in order
+ *
+ * @example
+ * ```typescript
+ * const chunks = chunkText(meetingNotes);
+ * // ["Attendees: ...", "...last sentence of chunk 1. Decisions: ..."]
+ * ```
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+	const { maxChars = 800, overlapChars = 200 } = options;
+
+	if (text.length <= maxChars) {
+		return [text];
+	}
+
+	// Sentences longer than a chunk are cut between words
+	const sentences = (text.match(SENTENCE_PATTERN) ?? [text]).flatMap(
+		(sentence) =>
+			sentence.length > maxChars ? splitWords(sentence, maxChars) : [sentence],
+	);
+
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let length = 0;
+
+	for (const sentence of sentences) {
+		if (length + sentence.length > maxChars && current.length > 0) {
+			chunks.push(current.join("").trim());
+
+			// Carry the last sentences over, as long as they leave room for this one
+			const overlap: string[] = [];
+			let overlapLength = 0;
+			for (let i = current.length - 1; i >= 0; i--) {
+				const size = overlapLength + current[i].length;
+				if (size > overlapChars || size + sentence.length > maxChars) break;
+				overlap.unshift(current[i]);
+				overlapLength = size;
+			}
+			current = overlap;
+			length = overlapLength;
+		}
+
+		current.push(sentence);
+		length += sentence.length;
+	}
+
+	if (current.length > 0) {
+		chunks.push(current.join("").trim());
+	}
+
+	return chunks.filter((chunk) => chunk.length > 0);
+}
+
+/**
+ * Splits text into its sentences, trimmed and without empty ones
+ *
+ * @param text - The text to split
+ * @returns The sentences, in order
+ */
+export function splitSentences(text: string): string[] {
+	return (text.match(SENTENCE_PATTERN) ?? [text])
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Cuts a text into pieces of at most maxChars, between words when possible
+ */
+function splitWords(text: string, maxChars: number): string[] {
+	const pieces: string[] = [];
+	let rest = text;
+
+	while (rest.length > maxChars) {
+		const space = rest.lastIndexOf(" ", maxChars);
+		const cut = space > 0 ? space + 1 : maxChars;
+		pieces.push(rest.slice(0, cut));
+		rest = rest.slice(cut);
+	}
+	if (rest.length > 0) {
+		pieces.push(rest);
+	}
+
+	return pieces;
+}
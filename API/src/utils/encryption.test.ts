@@ -0,0 +1,64 @@
+import { expect, test } from "vitest";
+import {
+	createKeySalt,
+	decryptMetadata,
+	deriveMetadataKey,
+	encryptMetadata,
+	isEncrypted,
+	keyCheckValue,
+} from "./encryption.js";
+
+const secret = "correct horse battery staple";
+
+test("the key check tells the secret of a contract, for its salt only", () => {
+	const salt = createKeySalt();
+	const key = deriveMetadataKey(secret, salt);
+	expect(key).toHaveLength(32);
+	expect(deriveMetadataKey(secret, salt)).toEqual(key);
+
+	const keyCheck = keyCheckValue(key);
+	expect(keyCheckValue(deriveMetadataKey(secret, salt))).toBe(keyCheck);
+	expect(
+		keyCheckValue(deriveMetadataKey("another secret, just as long", salt)),
+	).not.toBe(keyCheck);
+
+	// Contracts salted apart can't share memories, even with the same secret
+	const otherSalt = createKeySalt();
+	expect(otherSalt).not.toBe(salt);
+	expect(keyCheckValue(deriveMetadataKey(secret, otherSalt))).not.toBe(
+		keyCheck,
+	);
+});
+
+test("metadata is encrypted but its clear fields, and read back with the key only", () => {
+	const salt = createKeySalt();
+	const key = deriveMetadataKey(secret, salt);
+	const metadata = {
+		content: "User lives in Paris",
+		parentId: 3,
+		expiresAt: "2026-01-01T00:00:00.000Z",
+		tags: ["home"],
+	};
+
+	const stored = encryptMetadata(metadata, key);
+	expect(isEncrypted(stored)).toBe(true);
+	expect(stored).toEqual({
+		parentId: 3,
+		expiresAt: "2026-01-01T00:00:00.000Z",
+		encrypted: expect.any(String),
+	});
+	expect(stored?.encrypted).not.toContain("Paris");
+	// Fresh IVs, the same metadata is never stored twice the same
+	expect(encryptMetadata(metadata, key)?.encrypted).not.toBe(stored?.encrypted);
+	expect(encryptMetadata(stored, key)).toBe(stored);
+
+	expect(decryptMetadata(stored, key)).toEqual(metadata);
+	expect(() =>
+		decryptMetadata(stored, deriveMetadataKey(secret, createKeySalt())),
+	).toThrow();
+
+	// Metadata written before the contract was encrypted is read as is
+	expect(isEncrypted(metadata)).toBe(false);
+	expect(decryptMetadata(metadata, key)).toBe(metadata);
+	expect(isEncrypted(null)).toBe(false);
+});
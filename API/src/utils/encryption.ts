@@ -0,0 +1,154 @@
+/**
+ * Context0 Metadata Encryption
+ *
+ * Contracts live on a permanent public ledger, so memories of users who can't
+ * publish personal data are stored with their metadata (content included)
+ * encrypted with AES-256-GCM. The key is derived from a secret the caller
+ * sends with each request and a random salt stored in the contract: it is
+ * only held in memory while serving the request, never stored. Snapshots
+ * carry the salt, so the same secret reads the memories wherever they are
+ * imported.
+ *
+ * Embeddings stay in the clear so that memories can still be searched, along
+ * with the few metadata fields the API acts on without the secret: `parentId`
+ * (chunks are told from memories) and `expiresAt` (expired memories are swept).
+ */
+
+import crypto from "node:crypto";
+import type { VectorMetadata } from "../schemas/eizen.js";
+
+// Metadata fields stored in the clear next to the ciphertext
+const CLEAR_FIELDS = ["parentId", "expiresAt"];
+
+// Shortest secret accepted, shorter ones could be guessed from the check value
+export const MIN_SECRET_LENGTH = 16;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+
+/**
+ * Creates the salt the metadata key of a contract is derived with
+ *
+ * @returns Random bytes, base64-encoded
+ */
+export function createKeySalt(): string {
+	return crypto.randomBytes(SALT_LENGTH).toString("base64");
+}
+
+/**
+ * Derives the metadata key of a contract from the caller's secret
+ *
+ * @param secret - Secret sent by the caller, at least MIN_SECRET_LENGTH characters
+ * @param salt - Salt stored in the contract, see `createKeySalt`
+ * @returns The 32-byte AES-256 key
+ */
+export function deriveMetadataKey(secret: string, salt: string): Buffer {
+	return Buffer.from(
+		crypto.hkdfSync(
+			"sha256",
+			secret,
+			Buffer.from(salt, "base64"),
+			"context0 memory metadata",
+			32,
+		),
+	);
+}
+
+/**
+ * Computes the value stored in a contract to recognize its key
+ *
+ * The value can't be turned back into the key, it only tells whether a
+ * secret is the one the contract's memories were encrypted with.
+ *
+ * @param key - Key derived with `deriveMetadataKey`
+ * @returns Hex HMAC of a constant under the key
+ */
+export function keyCheckValue(key: Buffer): string {
+	return crypto
+		.createHmac("sha256", key)
+		.update("context0 key check")
+		.digest("hex");
+}
+
+/**
+ * Checks whether metadata is still encrypted
+ *
+ * @param metadata - Metadata as stored, or as read without the key
+ * @returns True when the metadata holds ciphertext
+ */
+export function isEncrypted(metadata?: VectorMetadata | null): boolean {
+	return typeof metadata?.encrypted === "string";
+}
+
+/**
+ * Encrypts metadata, keeping the clear fields readable
+ *
+ * @param metadata - Metadata to store
+ * @param key - Key derived with `deriveMetadataKey`
+ * @returns Metadata holding the clear fields and the base64 ciphertext in `encrypted`
+ *
+ * @example
+ * ```typescript
+ * const stored = encryptMetadata({ content: "User lives in Paris", version: 1 }, key);
+ * // { encrypted: "q8Yc..." }
+ * ```
+ */
+export function encryptMetadata(
+	metadata: VectorMetadata,
+	key: Buffer,
+): VectorMetadata {
+	if (!metadata || isEncrypted(metadata)) {
+		return metadata;
+	}
+
+	const iv = crypto.randomBytes(IV_LENGTH);
+	const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+	const ciphertext = Buffer.concat([
+		cipher.update(JSON.stringify(metadata), "utf8"),
+		cipher.final(),
+	]);
+
+	const clear: VectorMetadata = {};
+	for (const field of CLEAR_FIELDS) {
+		if (metadata[field] !== undefined) clear[field] = metadata[field];
+	}
+	return {
+		...clear,
+		encrypted: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+			"base64",
+		),
+	};
+}
+
+/**
+ * Decrypts metadata encrypted with `encryptMetadata`
+ *
+ * Metadata that isn't encrypted is returned as is.
+ *
+ * @param metadata - Metadata as stored
+ * @param key - Key derived with `deriveMetadataKey`
+ * @returns The original metadata
+ * @throws {Error} When the key isn't the one the metadata was encrypted with
+ */
+export function decryptMetadata(
+	metadata: VectorMetadata,
+	key: Buffer,
+): VectorMetadata {
+	if (!isEncrypted(metadata)) {
+		return metadata;
+	}
+
+	const data = Buffer.from(metadata?.encrypted as string, "base64");
+	const decipher = crypto.createDecipheriv(
+		"aes-256-gcm",
+		key,
+		data.subarray(0, IV_LENGTH),
+	);
+	decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+	const plaintext = Buffer.concat([
+		decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+		decipher.final(),
+	]);
+	return JSON.parse(plaintext.toString("utf8")) as VectorMetadata;
+}
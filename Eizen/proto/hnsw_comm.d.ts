@@ -323,4 +323,282 @@ export namespace index_buffer {
          */
         public static getTypeUrl(typeUrlPrefix?: string): string;
     }
+
+    /** Properties of a SnapshotParams. */
+    interface ISnapshotParams {
+
+        /** SnapshotParams m */
+        m?: (number|null);
+
+        /** SnapshotParams efConstruction */
+        efConstruction?: (number|null);
+
+        /** SnapshotParams efSearch */
+        efSearch?: (number|null);
+
+        /** SnapshotParams metric */
+        metric?: (string|null);
+
+        /** SnapshotParams quantization */
+        quantization?: (string|null);
+    }
+
+    /** Represents a SnapshotParams. */
+    class SnapshotParams implements ISnapshotParams {
+
+        /**
+         * Constructs a new SnapshotParams.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: index_buffer.ISnapshotParams);
+
+        /** SnapshotParams m. */
+        public m: number;
+
+        /** SnapshotParams efConstruction. */
+        public efConstruction: number;
+
+        /** SnapshotParams efSearch. */
+        public efSearch: number;
+
+        /** SnapshotParams metric. */
+        public metric: string;
+
+        /** SnapshotParams quantization. */
+        public quantization: string;
+
+        /**
+         * Creates a new SnapshotParams instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns SnapshotParams instance
+         */
+        public static create(properties?: index_buffer.ISnapshotParams): index_buffer.SnapshotParams;
+
+        /**
+         * Encodes the specified SnapshotParams message. Does not implicitly {@link index_buffer.SnapshotParams.verify|verify} messages.
+         * @param message SnapshotParams message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: index_buffer.ISnapshotParams, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified SnapshotParams message, length delimited. Does not implicitly {@link index_buffer.SnapshotParams.verify|verify} messages.
+         * @param message SnapshotParams message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: index_buffer.ISnapshotParams, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a SnapshotParams message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns SnapshotParams
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): index_buffer.SnapshotParams;
+
+        /**
+         * Decodes a SnapshotParams message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns SnapshotParams
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): index_buffer.SnapshotParams;
+
+        /**
+         * Verifies a SnapshotParams message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a SnapshotParams message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns SnapshotParams
+         */
+        public static fromObject(object: { [k: string]: any }): index_buffer.SnapshotParams;
+
+        /**
+         * Creates a plain object from a SnapshotParams message. Also converts values to other types if specified.
+         * @param message SnapshotParams
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: index_buffer.SnapshotParams, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this SnapshotParams to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+
+        /**
+         * Gets the default type url for SnapshotParams
+         * @param [typeUrlPrefix] your custom typeUrlPrefix(default "type.googleapis.com")
+         * @returns The default type url
+         */
+        public static getTypeUrl(typeUrlPrefix?: string): string;
+    }
+
+    /** Properties of a Snapshot. */
+    interface ISnapshot {
+
+        /** Snapshot version */
+        version?: (number|null);
+
+        /** Snapshot params */
+        params?: (index_buffer.ISnapshotParams|null);
+
+        /** Snapshot numLayers */
+        numLayers?: (number|null);
+
+        /** Snapshot ep */
+        ep?: (number|null);
+
+        /** Snapshot datasize */
+        datasize?: (number|null);
+
+        /** Snapshot quantizer */
+        quantizer?: (string|null);
+
+        /** Snapshot points */
+        points?: (index_buffer.IPoint[]|null);
+
+        /** Snapshot quantPoints */
+        quantPoints?: (index_buffer.IPointQuant[]|null);
+
+        /** Snapshot nodes */
+        nodes?: (index_buffer.ILayerNode[]|null);
+
+        /** Snapshot metadata */
+        metadata?: ({ [k: string]: string }|null);
+
+        /** Snapshot extras */
+        extras?: ({ [k: string]: string }|null);
+    }
+
+    /** Represents a Snapshot. */
+    class Snapshot implements ISnapshot {
+
+        /**
+         * Constructs a new Snapshot.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: index_buffer.ISnapshot);
+
+        /** Snapshot version. */
+        public version: number;
+
+        /** Snapshot params. */
+        public params?: (index_buffer.ISnapshotParams|null);
+
+        /** Snapshot numLayers. */
+        public numLayers: number;
+
+        /** Snapshot ep. */
+        public ep: number;
+
+        /** Snapshot datasize. */
+        public datasize: number;
+
+        /** Snapshot quantizer. */
+        public quantizer: string;
+
+        /** Snapshot points. */
+        public points: index_buffer.IPoint[];
+
+        /** Snapshot quantPoints. */
+        public quantPoints: index_buffer.IPointQuant[];
+
+        /** Snapshot nodes. */
+        public nodes: index_buffer.ILayerNode[];
+
+        /** Snapshot metadata. */
+        public metadata: { [k: string]: string };
+
+        /** Snapshot extras. */
+        public extras: { [k: string]: string };
+
+        /**
+         * Creates a new Snapshot instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns Snapshot instance
+         */
+        public static create(properties?: index_buffer.ISnapshot): index_buffer.Snapshot;
+
+        /**
+         * Encodes the specified Snapshot message. Does not implicitly {@link index_buffer.Snapshot.verify|verify} messages.
+         * @param message Snapshot message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: index_buffer.ISnapshot, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified Snapshot message, length delimited. Does not implicitly {@link index_buffer.Snapshot.verify|verify} messages.
+         * @param message Snapshot message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: index_buffer.ISnapshot, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a Snapshot message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns Snapshot
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): index_buffer.Snapshot;
+
+        /**
+         * Decodes a Snapshot message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns Snapshot
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): index_buffer.Snapshot;
+
+        /**
+         * Verifies a Snapshot message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a Snapshot message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns Snapshot
+         */
+        public static fromObject(object: { [k: string]: any }): index_buffer.Snapshot;
+
+        /**
+         * Creates a plain object from a Snapshot message. Also converts values to other types if specified.
+         * @param message Snapshot
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: index_buffer.Snapshot, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this Snapshot to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+
+        /**
+         * Gets the default type url for Snapshot
+         * @param [typeUrlPrefix] your custom typeUrlPrefix(default "type.googleapis.com")
+         * @returns The default type url
+         */
+        public static getTypeUrl(typeUrlPrefix?: string): string;
+    }
 }
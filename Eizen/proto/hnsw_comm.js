@@ -838,6 +838,884 @@ $root.index_buffer = (function() {
         return PointQuant;
     })();
 
+    index_buffer.SnapshotParams = (function() {
+
+        /**
+         * Properties of a SnapshotParams.
+         * @memberof index_buffer
+         * @interface ISnapshotParams
+         * @property {number|null} [m] SnapshotParams m
+         * @property {number|null} [efConstruction] SnapshotParams efConstruction
+         * @property {number|null} [efSearch] SnapshotParams efSearch
+         * @property {string|null} [metric] SnapshotParams metric
+         * @property {string|null} [quantization] SnapshotParams quantization
+         */
+
+        /**
+         * Constructs a new SnapshotParams.
+         * @memberof index_buffer
+         * @classdesc Represents a SnapshotParams.
+         * @implements ISnapshotParams
+         * @constructor
+         * @param {index_buffer.ISnapshotParams=} [properties] Properties to set
+         */
+        function SnapshotParams(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * SnapshotParams m.
+         * @member {number} m
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         */
+        SnapshotParams.prototype.m = 0;
+
+        /**
+         * SnapshotParams efConstruction.
+         * @member {number} efConstruction
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         */
+        SnapshotParams.prototype.efConstruction = 0;
+
+        /**
+         * SnapshotParams efSearch.
+         * @member {number} efSearch
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         */
+        SnapshotParams.prototype.efSearch = 0;
+
+        /**
+         * SnapshotParams metric.
+         * @member {string} metric
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         */
+        SnapshotParams.prototype.metric = "";
+
+        /**
+         * SnapshotParams quantization.
+         * @member {string} quantization
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         */
+        SnapshotParams.prototype.quantization = "";
+
+        /**
+         * Creates a new SnapshotParams instance using the specified properties.
+         * @function create
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {index_buffer.ISnapshotParams=} [properties] Properties to set
+         * @returns {index_buffer.SnapshotParams} SnapshotParams instance
+         */
+        SnapshotParams.create = function create(properties) {
+            return new SnapshotParams(properties);
+        };
+
+        /**
+         * Encodes the specified SnapshotParams message. Does not implicitly {@link index_buffer.SnapshotParams.verify|verify} messages.
+         * @function encode
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {index_buffer.ISnapshotParams} message SnapshotParams message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        SnapshotParams.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.m != null && Object.hasOwnProperty.call(message, "m"))
+                writer.uint32(/* id 1, wireType 0 =*/8).uint32(message.m);
+            if (message.efConstruction != null && Object.hasOwnProperty.call(message, "efConstruction"))
+                writer.uint32(/* id 2, wireType 0 =*/16).uint32(message.efConstruction);
+            if (message.efSearch != null && Object.hasOwnProperty.call(message, "efSearch"))
+                writer.uint32(/* id 3, wireType 0 =*/24).uint32(message.efSearch);
+            if (message.metric != null && Object.hasOwnProperty.call(message, "metric"))
+                writer.uint32(/* id 4, wireType 2 =*/34).string(message.metric);
+            if (message.quantization != null && Object.hasOwnProperty.call(message, "quantization"))
+                writer.uint32(/* id 5, wireType 2 =*/42).string(message.quantization);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified SnapshotParams message, length delimited. Does not implicitly {@link index_buffer.SnapshotParams.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {index_buffer.ISnapshotParams} message SnapshotParams message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        SnapshotParams.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a SnapshotParams message from the specified reader or buffer.
+         * @function decode
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {index_buffer.SnapshotParams} SnapshotParams
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        SnapshotParams.decode = function decode(reader, length, error) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.index_buffer.SnapshotParams();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                if (tag === error)
+                    break;
+                switch (tag >>> 3) {
+                case 1: {
+                        message.m = reader.uint32();
+                        break;
+                    }
+                case 2: {
+                        message.efConstruction = reader.uint32();
+                        break;
+                    }
+                case 3: {
+                        message.efSearch = reader.uint32();
+                        break;
+                    }
+                case 4: {
+                        message.metric = reader.string();
+                        break;
+                    }
+                case 5: {
+                        message.quantization = reader.string();
+                        break;
+                    }
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a SnapshotParams message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {index_buffer.SnapshotParams} SnapshotParams
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        SnapshotParams.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a SnapshotParams message.
+         * @function verify
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        SnapshotParams.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.m != null && message.hasOwnProperty("m"))
+                if (!$util.isInteger(message.m))
+                    return "m: integer expected";
+            if (message.efConstruction != null && message.hasOwnProperty("efConstruction"))
+                if (!$util.isInteger(message.efConstruction))
+                    return "efConstruction: integer expected";
+            if (message.efSearch != null && message.hasOwnProperty("efSearch"))
+                if (!$util.isInteger(message.efSearch))
+                    return "efSearch: integer expected";
+            if (message.metric != null && message.hasOwnProperty("metric"))
+                if (!$util.isString(message.metric))
+                    return "metric: string expected";
+            if (message.quantization != null && message.hasOwnProperty("quantization"))
+                if (!$util.isString(message.quantization))
+                    return "quantization: string expected";
+            return null;
+        };
+
+        /**
+         * Creates a SnapshotParams message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {index_buffer.SnapshotParams} SnapshotParams
+         */
+        SnapshotParams.fromObject = function fromObject(object) {
+            if (object instanceof $root.index_buffer.SnapshotParams)
+                return object;
+            var message = new $root.index_buffer.SnapshotParams();
+            if (object.m != null)
+                message.m = object.m >>> 0;
+            if (object.efConstruction != null)
+                message.efConstruction = object.efConstruction >>> 0;
+            if (object.efSearch != null)
+                message.efSearch = object.efSearch >>> 0;
+            if (object.metric != null)
+                message.metric = String(object.metric);
+            if (object.quantization != null)
+                message.quantization = String(object.quantization);
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a SnapshotParams message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {index_buffer.SnapshotParams} message SnapshotParams
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        SnapshotParams.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults) {
+                object.m = 0;
+                object.efConstruction = 0;
+                object.efSearch = 0;
+                object.metric = "";
+                object.quantization = "";
+            }
+            if (message.m != null && message.hasOwnProperty("m"))
+                object.m = message.m;
+            if (message.efConstruction != null && message.hasOwnProperty("efConstruction"))
+                object.efConstruction = message.efConstruction;
+            if (message.efSearch != null && message.hasOwnProperty("efSearch"))
+                object.efSearch = message.efSearch;
+            if (message.metric != null && message.hasOwnProperty("metric"))
+                object.metric = message.metric;
+            if (message.quantization != null && message.hasOwnProperty("quantization"))
+                object.quantization = message.quantization;
+            return object;
+        };
+
+        /**
+         * Converts this SnapshotParams to JSON.
+         * @function toJSON
+         * @memberof index_buffer.SnapshotParams
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        SnapshotParams.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        /**
+         * Gets the default type url for SnapshotParams
+         * @function getTypeUrl
+         * @memberof index_buffer.SnapshotParams
+         * @static
+         * @param {string} [typeUrlPrefix] your custom typeUrlPrefix(default "type.googleapis.com")
+         * @returns {string} The default type url
+         */
+        SnapshotParams.getTypeUrl = function getTypeUrl(typeUrlPrefix) {
+            if (typeUrlPrefix === undefined) {
+                typeUrlPrefix = "type.googleapis.com";
+            }
+            return typeUrlPrefix + "/index_buffer.SnapshotParams";
+        };
+
+        return SnapshotParams;
+    })();
+
+    index_buffer.Snapshot = (function() {
+
+        /**
+         * Properties of a Snapshot.
+         * @memberof index_buffer
+         * @interface ISnapshot
+         * @property {number|null} [version] Snapshot version
+         * @property {index_buffer.ISnapshotParams|null} [params] Snapshot params
+         * @property {number|null} [numLayers] Snapshot numLayers
+         * @property {number|null} [ep] Snapshot ep
+         * @property {number|null} [datasize] Snapshot datasize
+         * @property {string|null} [quantizer] Snapshot quantizer
+         * @property {Array.<index_buffer.IPoint>|null} [points] Snapshot points
+         * @property {Array.<index_buffer.IPointQuant>|null} [quantPoints] Snapshot quantPoints
+         * @property {Array.<index_buffer.ILayerNode>|null} [nodes] Snapshot nodes
+         * @property {Object.<string,string>|null} [metadata] Snapshot metadata
+         * @property {Object.<string,string>|null} [extras] Snapshot extras
+         */
+
+        /**
+         * Constructs a new Snapshot.
+         * @memberof index_buffer
+         * @classdesc Represents a Snapshot.
+         * @implements ISnapshot
+         * @constructor
+         * @param {index_buffer.ISnapshot=} [properties] Properties to set
+         */
+        function Snapshot(properties) {
+            this.points = [];
+            this.quantPoints = [];
+            this.nodes = [];
+            this.metadata = {};
+            this.extras = {};
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * Snapshot version.
+         * @member {number} version
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.version = 0;
+
+        /**
+         * Snapshot params.
+         * @member {index_buffer.ISnapshotParams|null|undefined} params
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.params = null;
+
+        /**
+         * Snapshot numLayers.
+         * @member {number} numLayers
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.numLayers = 0;
+
+        /**
+         * Snapshot ep.
+         * @member {number} ep
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.ep = 0;
+
+        /**
+         * Snapshot datasize.
+         * @member {number} datasize
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.datasize = 0;
+
+        /**
+         * Snapshot quantizer.
+         * @member {string} quantizer
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.quantizer = "";
+
+        /**
+         * Snapshot points.
+         * @member {Array.<index_buffer.IPoint>} points
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.points = $util.emptyArray;
+
+        /**
+         * Snapshot quantPoints.
+         * @member {Array.<index_buffer.IPointQuant>} quantPoints
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.quantPoints = $util.emptyArray;
+
+        /**
+         * Snapshot nodes.
+         * @member {Array.<index_buffer.ILayerNode>} nodes
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.nodes = $util.emptyArray;
+
+        /**
+         * Snapshot metadata.
+         * @member {Object.<string,string>} metadata
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.metadata = $util.emptyObject;
+
+        /**
+         * Snapshot extras.
+         * @member {Object.<string,string>} extras
+         * @memberof index_buffer.Snapshot
+         * @instance
+         */
+        Snapshot.prototype.extras = $util.emptyObject;
+
+        /**
+         * Creates a new Snapshot instance using the specified properties.
+         * @function create
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {index_buffer.ISnapshot=} [properties] Properties to set
+         * @returns {index_buffer.Snapshot} Snapshot instance
+         */
+        Snapshot.create = function create(properties) {
+            return new Snapshot(properties);
+        };
+
+        /**
+         * Encodes the specified Snapshot message. Does not implicitly {@link index_buffer.Snapshot.verify|verify} messages.
+         * @function encode
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {index_buffer.ISnapshot} message Snapshot message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        Snapshot.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.version != null && Object.hasOwnProperty.call(message, "version"))
+                writer.uint32(/* id 1, wireType 0 =*/8).uint32(message.version);
+            if (message.params != null && Object.hasOwnProperty.call(message, "params"))
+                $root.index_buffer.SnapshotParams.encode(message.params, writer.uint32(/* id 2, wireType 2 =*/18).fork()).ldelim();
+            if (message.numLayers != null && Object.hasOwnProperty.call(message, "numLayers"))
+                writer.uint32(/* id 3, wireType 0 =*/24).uint32(message.numLayers);
+            if (message.ep != null && Object.hasOwnProperty.call(message, "ep"))
+                writer.uint32(/* id 4, wireType 0 =*/32).uint32(message.ep);
+            if (message.datasize != null && Object.hasOwnProperty.call(message, "datasize"))
+                writer.uint32(/* id 5, wireType 0 =*/40).uint32(message.datasize);
+            if (message.quantizer != null && Object.hasOwnProperty.call(message, "quantizer"))
+                writer.uint32(/* id 6, wireType 2 =*/50).string(message.quantizer);
+            if (message.points != null && message.points.length)
+                for (var i = 0; i < message.points.length; ++i)
+                    $root.index_buffer.Point.encode(message.points[i], writer.uint32(/* id 7, wireType 2 =*/58).fork()).ldelim();
+            if (message.quantPoints != null && message.quantPoints.length)
+                for (var i = 0; i < message.quantPoints.length; ++i)
+                    $root.index_buffer.PointQuant.encode(message.quantPoints[i], writer.uint32(/* id 8, wireType 2 =*/66).fork()).ldelim();
+            if (message.nodes != null && message.nodes.length)
+                for (var i = 0; i < message.nodes.length; ++i)
+                    $root.index_buffer.LayerNode.encode(message.nodes[i], writer.uint32(/* id 9, wireType 2 =*/74).fork()).ldelim();
+            if (message.metadata != null && Object.hasOwnProperty.call(message, "metadata"))
+                for (var keys = Object.keys(message.metadata), i = 0; i < keys.length; ++i)
+                    writer.uint32(/* id 10, wireType 2 =*/82).fork().uint32(/* id 1, wireType 0 =*/8).uint32(keys[i]).uint32(/* id 2, wireType 2 =*/18).string(message.metadata[keys[i]]).ldelim();
+            if (message.extras != null && Object.hasOwnProperty.call(message, "extras"))
+                for (var keys = Object.keys(message.extras), i = 0; i < keys.length; ++i)
+                    writer.uint32(/* id 11, wireType 2 =*/90).fork().uint32(/* id 1, wireType 2 =*/10).string(keys[i]).uint32(/* id 2, wireType 2 =*/18).string(message.extras[keys[i]]).ldelim();
+            return writer;
+        };
+
+        /**
+         * Encodes the specified Snapshot message, length delimited. Does not implicitly {@link index_buffer.Snapshot.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {index_buffer.ISnapshot} message Snapshot message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        Snapshot.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a Snapshot message from the specified reader or buffer.
+         * @function decode
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {index_buffer.Snapshot} Snapshot
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        Snapshot.decode = function decode(reader, length, error) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.index_buffer.Snapshot(), key, value;
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                if (tag === error)
+                    break;
+                switch (tag >>> 3) {
+                case 1: {
+                        message.version = reader.uint32();
+                        break;
+                    }
+                case 2: {
+                        message.params = $root.index_buffer.SnapshotParams.decode(reader, reader.uint32());
+                        break;
+                    }
+                case 3: {
+                        message.numLayers = reader.uint32();
+                        break;
+                    }
+                case 4: {
+                        message.ep = reader.uint32();
+                        break;
+                    }
+                case 5: {
+                        message.datasize = reader.uint32();
+                        break;
+                    }
+                case 6: {
+                        message.quantizer = reader.string();
+                        break;
+                    }
+                case 7: {
+                        if (!(message.points && message.points.length))
+                            message.points = [];
+                        message.points.push($root.index_buffer.Point.decode(reader, reader.uint32()));
+                        break;
+                    }
+                case 8: {
+                        if (!(message.quantPoints && message.quantPoints.length))
+                            message.quantPoints = [];
+                        message.quantPoints.push($root.index_buffer.PointQuant.decode(reader, reader.uint32()));
+                        break;
+                    }
+                case 9: {
+                        if (!(message.nodes && message.nodes.length))
+                            message.nodes = [];
+                        message.nodes.push($root.index_buffer.LayerNode.decode(reader, reader.uint32()));
+                        break;
+                    }
+                case 10: {
+                        if (message.metadata === $util.emptyObject)
+                            message.metadata = {};
+                        var end2 = reader.uint32() + reader.pos;
+                        key = 0;
+                        value = "";
+                        while (reader.pos < end2) {
+                            var tag2 = reader.uint32();
+                            switch (tag2 >>> 3) {
+                            case 1:
+                                key = reader.uint32();
+                                break;
+                            case 2:
+                                value = reader.string();
+                                break;
+                            default:
+                                reader.skipType(tag2 & 7);
+                                break;
+                            }
+                        }
+                        message.metadata[key] = value;
+                        break;
+                    }
+                case 11: {
+                        if (message.extras === $util.emptyObject)
+                            message.extras = {};
+                        var end2 = reader.uint32() + reader.pos;
+                        key = "";
+                        value = "";
+                        while (reader.pos < end2) {
+                            var tag2 = reader.uint32();
+                            switch (tag2 >>> 3) {
+                            case 1:
+                                key = reader.string();
+                                break;
+                            case 2:
+                                value = reader.string();
+                                break;
+                            default:
+                                reader.skipType(tag2 & 7);
+                                break;
+                            }
+                        }
+                        message.extras[key] = value;
+                        break;
+                    }
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a Snapshot message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {index_buffer.Snapshot} Snapshot
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        Snapshot.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a Snapshot message.
+         * @function verify
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        Snapshot.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.version != null && message.hasOwnProperty("version"))
+                if (!$util.isInteger(message.version))
+                    return "version: integer expected";
+            if (message.params != null && message.hasOwnProperty("params")) {
+                var error = $root.index_buffer.SnapshotParams.verify(message.params);
+                if (error)
+                    return "params." + error;
+            }
+            if (message.numLayers != null && message.hasOwnProperty("numLayers"))
+                if (!$util.isInteger(message.numLayers))
+                    return "numLayers: integer expected";
+            if (message.ep != null && message.hasOwnProperty("ep"))
+                if (!$util.isInteger(message.ep))
+                    return "ep: integer expected";
+            if (message.datasize != null && message.hasOwnProperty("datasize"))
+                if (!$util.isInteger(message.datasize))
+                    return "datasize: integer expected";
+            if (message.quantizer != null && message.hasOwnProperty("quantizer"))
+                if (!$util.isString(message.quantizer))
+                    return "quantizer: string expected";
+            if (message.points != null && message.hasOwnProperty("points")) {
+                if (!Array.isArray(message.points))
+                    return "points: array expected";
+                for (var i = 0; i < message.points.length; ++i) {
+                    var error = $root.index_buffer.Point.verify(message.points[i]);
+                    if (error)
+                        return "points." + error;
+                }
+            }
+            if (message.quantPoints != null && message.hasOwnProperty("quantPoints")) {
+                if (!Array.isArray(message.quantPoints))
+                    return "quantPoints: array expected";
+                for (var i = 0; i < message.quantPoints.length; ++i) {
+                    var error = $root.index_buffer.PointQuant.verify(message.quantPoints[i]);
+                    if (error)
+                        return "quantPoints." + error;
+                }
+            }
+            if (message.nodes != null && message.hasOwnProperty("nodes")) {
+                if (!Array.isArray(message.nodes))
+                    return "nodes: array expected";
+                for (var i = 0; i < message.nodes.length; ++i) {
+                    var error = $root.index_buffer.LayerNode.verify(message.nodes[i]);
+                    if (error)
+                        return "nodes." + error;
+                }
+            }
+            if (message.metadata != null && message.hasOwnProperty("metadata")) {
+                if (!$util.isObject(message.metadata))
+                    return "metadata: object expected";
+                var key = Object.keys(message.metadata);
+                for (var i = 0; i < key.length; ++i) {
+                    if (!$util.key32Re.test(key[i]))
+                        return "metadata: integer key{k:uint32} expected";
+                    if (!$util.isString(message.metadata[key[i]]))
+                        return "metadata: string{k:uint32} expected";
+                }
+            }
+            if (message.extras != null && message.hasOwnProperty("extras")) {
+                if (!$util.isObject(message.extras))
+                    return "extras: object expected";
+                var key = Object.keys(message.extras);
+                for (var i = 0; i < key.length; ++i)
+                    if (!$util.isString(message.extras[key[i]]))
+                        return "extras: string{k:string} expected";
+            }
+            return null;
+        };
+
+        /**
+         * Creates a Snapshot message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {index_buffer.Snapshot} Snapshot
+         */
+        Snapshot.fromObject = function fromObject(object) {
+            if (object instanceof $root.index_buffer.Snapshot)
+                return object;
+            var message = new $root.index_buffer.Snapshot();
+            if (object.version != null)
+                message.version = object.version >>> 0;
+            if (object.params != null) {
+                if (typeof object.params !== "object")
+                    throw TypeError(".index_buffer.Snapshot.params: object expected");
+                message.params = $root.index_buffer.SnapshotParams.fromObject(object.params);
+            }
+            if (object.numLayers != null)
+                message.numLayers = object.numLayers >>> 0;
+            if (object.ep != null)
+                message.ep = object.ep >>> 0;
+            if (object.datasize != null)
+                message.datasize = object.datasize >>> 0;
+            if (object.quantizer != null)
+                message.quantizer = String(object.quantizer);
+            if (object.points) {
+                if (!Array.isArray(object.points))
+                    throw TypeError(".index_buffer.Snapshot.points: array expected");
+                message.points = [];
+                for (var i = 0; i < object.points.length; ++i) {
+                    if (typeof object.points[i] !== "object")
+                        throw TypeError(".index_buffer.Snapshot.points: object expected");
+                    message.points[i] = $root.index_buffer.Point.fromObject(object.points[i]);
+                }
+            }
+            if (object.quantPoints) {
+                if (!Array.isArray(object.quantPoints))
+                    throw TypeError(".index_buffer.Snapshot.quantPoints: array expected");
+                message.quantPoints = [];
+                for (var i = 0; i < object.quantPoints.length; ++i) {
+                    if (typeof object.quantPoints[i] !== "object")
+                        throw TypeError(".index_buffer.Snapshot.quantPoints: object expected");
+                    message.quantPoints[i] = $root.index_buffer.PointQuant.fromObject(object.quantPoints[i]);
+                }
+            }
+            if (object.nodes) {
+                if (!Array.isArray(object.nodes))
+                    throw TypeError(".index_buffer.Snapshot.nodes: array expected");
+                message.nodes = [];
+                for (var i = 0; i < object.nodes.length; ++i) {
+                    if (typeof object.nodes[i] !== "object")
+                        throw TypeError(".index_buffer.Snapshot.nodes: object expected");
+                    message.nodes[i] = $root.index_buffer.LayerNode.fromObject(object.nodes[i]);
+                }
+            }
+            if (object.metadata) {
+                if (typeof object.metadata !== "object")
+                    throw TypeError(".index_buffer.Snapshot.metadata: object expected");
+                message.metadata = {};
+                for (var keys = Object.keys(object.metadata), i = 0; i < keys.length; ++i)
+                    message.metadata[keys[i]] = String(object.metadata[keys[i]]);
+            }
+            if (object.extras) {
+                if (!$util.isObject(object.extras))
+                    throw TypeError(".index_buffer.Snapshot.extras: object expected");
+                message.extras = {};
+                for (var keys = Object.keys(object.extras), i = 0; i < keys.length; ++i)
+                    message.extras[keys[i]] = String(object.extras[keys[i]]);
+            }
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a Snapshot message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {index_buffer.Snapshot} message Snapshot
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        Snapshot.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.arrays || options.defaults) {
+                object.points = [];
+                object.quantPoints = [];
+                object.nodes = [];
+            }
+            if (options.objects || options.defaults) {
+                object.metadata = {};
+                object.extras = {};
+            }
+            if (options.defaults) {
+                object.version = 0;
+                object.params = null;
+                object.numLayers = 0;
+                object.ep = 0;
+                object.datasize = 0;
+                object.quantizer = "";
+            }
+            if (message.version != null && message.hasOwnProperty("version"))
+                object.version = message.version;
+            if (message.params != null && message.hasOwnProperty("params"))
+                object.params = $root.index_buffer.SnapshotParams.toObject(message.params, options);
+            if (message.numLayers != null && message.hasOwnProperty("numLayers"))
+                object.numLayers = message.numLayers;
+            if (message.ep != null && message.hasOwnProperty("ep"))
+                object.ep = message.ep;
+            if (message.datasize != null && message.hasOwnProperty("datasize"))
+                object.datasize = message.datasize;
+            if (message.quantizer != null && message.hasOwnProperty("quantizer"))
+                object.quantizer = message.quantizer;
+            if (message.points && message.points.length) {
+                object.points = [];
+                for (var j = 0; j < message.points.length; ++j)
+                    object.points[j] = $root.index_buffer.Point.toObject(message.points[j], options);
+            }
+            if (message.quantPoints && message.quantPoints.length) {
+                object.quantPoints = [];
+                for (var j = 0; j < message.quantPoints.length; ++j)
+                    object.quantPoints[j] = $root.index_buffer.PointQuant.toObject(message.quantPoints[j], options);
+            }
+            if (message.nodes && message.nodes.length) {
+                object.nodes = [];
+                for (var j = 0; j < message.nodes.length; ++j)
+                    object.nodes[j] = $root.index_buffer.LayerNode.toObject(message.nodes[j], options);
+            }
+            var keys2;
+            if (message.metadata && (keys2 = Object.keys(message.metadata)).length) {
+                object.metadata = {};
+                for (var j = 0; j < keys2.length; ++j)
+                    object.metadata[keys2[j]] = message.metadata[keys2[j]];
+            }
+            if (message.extras && (keys2 = Object.keys(message.extras)).length) {
+                object.extras = {};
+                for (var j = 0; j < keys2.length; ++j)
+                    object.extras[keys2[j]] = message.extras[keys2[j]];
+            }
+            return object;
+        };
+
+        /**
+         * Converts this Snapshot to JSON.
+         * @function toJSON
+         * @memberof index_buffer.Snapshot
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        Snapshot.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        /**
+         * Gets the default type url for Snapshot
+         * @function getTypeUrl
+         * @memberof index_buffer.Snapshot
+         * @static
+         * @param {string} [typeUrlPrefix] your custom typeUrlPrefix(default "type.googleapis.com")
+         * @returns {string} The default type url
+         */
+        Snapshot.getTypeUrl = function getTypeUrl(typeUrlPrefix) {
+            if (typeUrlPrefix === undefined) {
+                typeUrlPrefix = "type.googleapis.com";
+            }
+            return typeUrlPrefix + "/index_buffer.Snapshot";
+        };
+
+        return Snapshot;
+    })();
+
     return index_buffer;
 })();
 
@@ -0,0 +1,137 @@
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import type { DistanceMetric, Quantization } from "../types";
+import {
+	type Dataset,
+	read_fvecs,
+	read_ivecs,
+	synthetic_clusters,
+} from "./datasets";
+import { run_benchmark } from "./index";
+
+/**
+ * Benchmark command line
+ *
+ * Usage:
+ *   npm run bench -- [options]
+ *
+ * Dataset (synthetic clusters unless --base is given):
+ *   --base <file.fvecs>        Base vectors
+ *   --queries <file.fvecs>     Query vectors (default: the first base vectors)
+ *   --gt <file.ivecs>          Ground truth, computed by brute force if omitted
+ *   --size <n>                 Number of base vectors to use (default: 10000)
+ *   --num-queries <n>          Number of queries to run (default: 100)
+ *   --dim <n>                  Dimensions of synthetic vectors (default: 64)
+ *   --clusters <n>             Clusters of synthetic vectors (default: 32)
+ *
+ * Parameters (comma-separated lists are swept):
+ *   --m <list>                 (default: 16)
+ *   --ef-construction <list>   (default: 128)
+ *   --ef-search <list>         (default: 20,50,100)
+ *   --k <n>                    Neighbors per query (default: 10)
+ *   --metric <cosine|l2|ip>    (default: l2)
+ *   --quantization <type>      none, int8, uint8 or pq (default: none)
+ *   --extend-candidates        Also consider the candidates' neighbors when linking
+ *   --no-keep-pruned           Do not fill free slots with discarded candidates
+ *   --seed <n>                 Seed of the data and layer selection (default: 42)
+ *
+ * Output:
+ *   --out <file.json>          Write the JSON report to a file instead of stdout
+ */
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			base: { type: "string" },
+			queries: { type: "string" },
+			gt: { type: "string" },
+			size: { type: "string", default: "10000" },
+			"num-queries": { type: "string", default: "100" },
+			dim: { type: "string", default: "64" },
+			clusters: { type: "string", default: "32" },
+			m: { type: "string", default: "16" },
+			"ef-construction": { type: "string", default: "128" },
+			"ef-search": { type: "string", default: "20,50,100" },
+			k: { type: "string", default: "10" },
+			metric: { type: "string", default: "l2" },
+			quantization: { type: "string", default: "none" },
+			"extend-candidates": { type: "boolean", default: false },
+			"no-keep-pruned": { type: "boolean", default: false },
+			seed: { type: "string", default: "42" },
+			out: { type: "string" },
+		},
+	});
+
+	const size = Number(values.size);
+	const numQueries = Number(values["num-queries"]);
+	const seed = Number(values.seed);
+
+	let dataset: Dataset;
+	if (values.base) {
+		const base = await read_fvecs(values.base, size);
+		const queries = values.queries
+			? await read_fvecs(values.queries, numQueries)
+			: base.slice(0, numQueries);
+
+		// Ground truth files index the full base set, only use them when it is loaded whole
+		const groundTruth = values.gt
+			? await read_ivecs(values.gt, numQueries)
+			: undefined;
+		if (groundTruth?.flat().some((idx) => idx >= base.length)) {
+			throw new Error(
+				"The ground truth refers to vectors beyond --size, drop --gt to compute it",
+			);
+		}
+
+		dataset = { name: values.base, base, queries, groundTruth };
+	} else {
+		dataset = synthetic_clusters({
+			n: size,
+			queries: numQueries,
+			dim: Number(values.dim),
+			clusters: Number(values.clusters),
+			seed,
+		});
+	}
+
+	console.error(
+		`Benchmarking ${dataset.name}: ${dataset.base.length} vectors, ${dataset.queries.length} queries`,
+	);
+
+	const report = await run_benchmark(dataset, {
+		k: Number(values.k),
+		metric: values.metric as DistanceMetric,
+		quantization: values.quantization as Quantization,
+		selection: {
+			extendCandidates: values["extend-candidates"],
+			keepPrunedConnections: !values["no-keep-pruned"],
+		},
+		m: list(values.m),
+		efConstruction: list(values["ef-construction"]),
+		efSearch: list(values["ef-search"]),
+		seed,
+		onResult: (r) =>
+			console.error(
+				`m=${r.m} efConstruction=${r.efConstruction} efSearch=${r.efSearch} ` +
+					`recall=${r.recall} qps=${r.qps} reads/query=${r.readsPerQuery} ` +
+					`keys/query=${r.keysPerQuery} build=${r.buildSeconds}s`,
+			),
+	});
+
+	const json = `${JSON.stringify(report, null, 2)}\n`;
+	if (values.out) {
+		await writeFile(values.out, json);
+		console.error(`Report written to ${values.out}`);
+	} else {
+		process.stdout.write(json);
+	}
+}
+
+/** Parses a comma-separated list of numbers */
+function list(value: string | undefined): number[] {
+	return (value ?? "").split(",").map((v) => Number(v.trim()));
+}
+
+main().catch((err) => {
+	console.error(err instanceof Error ? err.message : err);
+	process.exit(1);
+});
@@ -0,0 +1,158 @@
+import { readFile } from "node:fs/promises";
+import type { Point } from "../types";
+
+/**
+ * Benchmark Datasets
+ * ==================
+ *
+ * Loaders for the `.fvecs` / `.ivecs` files of the standard ANN benchmarks
+ * (SIFT, GIST, ...) and a seeded generator of clustered synthetic data.
+ */
+
+/** Vectors to index and queries to run against them */
+export type Dataset = {
+	/** Name reported in the results */
+	name: string;
+	/** Vectors inserted into the index */
+	base: Point[];
+	/** Query vectors */
+	queries: Point[];
+	/** Optional precomputed nearest neighbors of each query, closest first */
+	groundTruth?: number[][];
+};
+
+/** Options of `synthetic_clusters` */
+export type SyntheticOptions = {
+	/** Number of base vectors (default: 10000) */
+	n?: number;
+	/** Number of query vectors (default: 100) */
+	queries?: number;
+	/** Dimensions of every vector (default: 64) */
+	dim?: number;
+	/** Number of gaussian clusters the vectors are drawn around (default: 32) */
+	clusters?: number;
+	/** Standard deviation of the vectors around their cluster center (default: 0.1) */
+	spread?: number;
+	/** Seed of the generator, the same seed always yields the same dataset (default: 42) */
+	seed?: number;
+};
+
+/**
+ * Reads vectors from an `.fvecs` file.
+ *
+ * Each vector is stored as its dimension (little-endian int32) followed by
+ * that many little-endian float32 components.
+ *
+ * @param path Path of the file
+ * @param limit Maximum number of vectors to read (default: all)
+ * @returns The vectors
+ */
+export async function read_fvecs(
+	path: string,
+	limit?: number,
+): Promise<Point[]> {
+	return read_vecs(path, limit, (buf, offset) => buf.readFloatLE(offset));
+}
+
+/**
+ * Reads integer vectors from an `.ivecs` file, e.g. the ground truth of a dataset.
+ *
+ * Same layout as `.fvecs`, with little-endian int32 components.
+ *
+ * @param path Path of the file
+ * @param limit Maximum number of vectors to read (default: all)
+ * @returns The vectors
+ */
+export async function read_ivecs(
+	path: string,
+	limit?: number,
+): Promise<number[][]> {
+	return read_vecs(path, limit, (buf, offset) => buf.readInt32LE(offset));
+}
+
+/**
+ * Generates vectors drawn around random cluster centers.
+ *
+ * Clustered data is harder for HNSW than uniform noise, and closer to real
+ * embeddings. Queries come from the same distribution as the base vectors.
+ *
+ * @param options Size and shape of the dataset
+ * @returns The generated dataset, without ground truth
+ */
+export function synthetic_clusters(options: SyntheticOptions = {}): Dataset {
+	const {
+		n = 10000,
+		queries = 100,
+		dim = 64,
+		clusters = 32,
+		spread = 0.1,
+		seed = 42,
+	} = options;
+
+	const random = seeded_random(seed);
+	const gaussian = () =>
+		Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+
+	const centers = Array.from({ length: clusters }, () =>
+		Array.from({ length: dim }, () => random() * 2 - 1),
+	);
+	const sample = () => {
+		const center = centers[Math.floor(random() * clusters)];
+		return center.map((c) => c + gaussian() * spread);
+	};
+
+	return {
+		name: `synthetic-${n}x${dim}-c${clusters}-s${seed}`,
+		base: Array.from({ length: n }, sample),
+		queries: Array.from({ length: queries }, sample),
+	};
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), returning numbers in (0, 1]
+ *
+ * @param seed Any 32-bit integer
+ */
+export function seeded_random(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967296;
+	};
+}
+
+/**
+ * Reads a `.fvecs`-like file, each vector prefixed with its dimension
+ */
+async function read_vecs(
+	path: string,
+	limit: number | undefined,
+	read: (buf: Buffer, offset: number) => number,
+): Promise<number[][]> {
+	const buf = await readFile(path);
+	const vectors: number[][] = [];
+
+	let offset = 0;
+	while (
+		offset < buf.length &&
+		(limit === undefined || vectors.length < limit)
+	) {
+		const dim = buf.readInt32LE(offset);
+		offset += 4;
+		if (dim <= 0 || offset + dim * 4 > buf.length) {
+			throw new Error(`Corrupted vector file ${path} at byte ${offset - 4}`);
+		}
+
+		const v = new Array<number>(dim);
+		for (let d = 0; d < dim; d++) {
+			v[d] = read(buf, offset + d * 4);
+		}
+		vectors.push(v);
+		offset += dim * 4;
+	}
+
+	return vectors;
+}
@@ -0,0 +1,296 @@
+import { MemoryKV } from "../db/clients/memory";
+import { EizenMemory } from "../db/index";
+import type { KVClient } from "../db/interfaces";
+import { HNSW } from "../hnsw";
+import type { DistanceMetric, NeighborSelection, Quantization } from "../types";
+import { distance_functions } from "../utils";
+import { type Dataset, seeded_random } from "./datasets";
+
+/**
+ * HNSW Benchmark
+ * ==============
+ *
+ * Builds indexes over a dataset for every combination of the swept parameters
+ * and reports recall@k against brute-force ground truth, query throughput and
+ * the number of storage reads per query. Indexes live in memory, so the
+ * throughput only reflects the algorithm; the read counts are what matters for
+ * remote backends, where every read is a round trip.
+ *
+ * Layer selection is seeded, so two runs over the same dataset build the same
+ * graphs and report the same recall: results can be diffed between commits.
+ */
+
+/** Format version of the benchmark report, bumped when fields change */
+export const BENCHMARK_REPORT_VERSION = 2;
+
+/** Parameters to sweep, every combination is measured */
+export type BenchmarkConfig = {
+	/** Number of neighbors to retrieve (default: 10) */
+	k?: number;
+	/** Distance metric (default: l2, the metric of the standard datasets) */
+	metric?: DistanceMetric;
+	/** Vector compression (default: none) */
+	quantization?: Quantization;
+	/** Neighbor selection heuristic (default: the `HNSW` defaults) */
+	selection?: NeighborSelection;
+	/** Values of `m` to build with (default: [16]) */
+	m?: number[];
+	/** Values of `efConstruction` to build with (default: [128]) */
+	efConstruction?: number[];
+	/** Values of `efSearch` to query with, on every built index (default: [20, 50, 100]) */
+	efSearch?: number[];
+	/** Seed of the layer selection (default: 42) */
+	seed?: number;
+	/** Called after every measurement, e.g. to print progress */
+	onResult?: (result: BenchmarkResult) => void;
+};
+
+/** Measurements of one parameter combination */
+export type BenchmarkResult = {
+	m: number;
+	efConstruction: number;
+	efSearch: number;
+	/** Seconds spent inserting the whole dataset */
+	buildSeconds: number;
+	/** Storage reads per insert during the build */
+	buildReadsPerInsert: number;
+	/** Share of the true k nearest neighbors found, averaged over queries */
+	recall: number;
+	/** Queries per second */
+	qps: number;
+	/** Storage requests per query (`get` and `getMany` calls) */
+	readsPerQuery: number;
+	/** Keys read per query, a `getMany` counting once per key */
+	keysPerQuery: number;
+};
+
+/** Full benchmark report, meant to be stored as JSON */
+export type BenchmarkReport = {
+	version: number;
+	dataset: { name: string; size: number; queries: number; dim: number };
+	k: number;
+	metric: DistanceMetric;
+	quantization: Quantization;
+	selection: Required<NeighborSelection>;
+	seed: number;
+	results: BenchmarkResult[];
+};
+
+/**
+ * CountingKV - A key-value client counting the reads it serves
+ *
+ * Wraps another client, `MemoryKV` by default.
+ */
+export class CountingKV implements KVClient {
+	/** The wrapped client */
+	client: KVClient;
+	/** Number of `get` and `getMany` calls */
+	requests = 0;
+	/** Number of keys read */
+	keys = 0;
+
+	constructor(client: KVClient = new MemoryKV()) {
+		this.client = client;
+	}
+
+	async get(key: string): Promise<string | null> {
+		this.requests++;
+		this.keys++;
+		return this.client.get(key);
+	}
+
+	async getMany(keys: string[]): Promise<(string | null)[]> {
+		this.requests++;
+		this.keys += keys.length;
+		return this.client.getMany(keys);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		await this.client.set(key, value);
+	}
+
+	async setMany(keys: string[], values: string[]): Promise<void> {
+		await this.client.setMany(keys, values);
+	}
+
+	/** Reset the counters */
+	reset() {
+		this.requests = 0;
+		this.keys = 0;
+	}
+}
+
+/**
+ * Computes the exact k nearest neighbors of every query by brute force.
+ *
+ * @param dataset Base vectors and queries
+ * @param k Number of neighbors per query
+ * @param metric Distance metric
+ * @returns Indices of the k closest base vectors of each query, closest first
+ */
+export function ground_truth(
+	dataset: Dataset,
+	k: number,
+	metric: DistanceMetric,
+): number[][] {
+	const distance = distance_functions[metric];
+	return dataset.queries.map((q) =>
+		dataset.base
+			.map((p, idx) => [distance(q, p), idx])
+			.sort((a, b) => a[0] - b[0])
+			.slice(0, k)
+			.map(([, idx]) => idx),
+	);
+}
+
+/**
+ * Share of the true neighbors found, averaged over queries
+ *
+ * @param found Retrieved indices of each query
+ * @param truth True nearest neighbors of each query, at least k of them
+ * @param k Number of neighbors considered
+ */
+export function recall_at_k(
+	found: number[][],
+	truth: number[][],
+	k: number,
+): number {
+	let hits = 0;
+	found.forEach((ids, i) => {
+		const expected = new Set(truth[i].slice(0, k));
+		hits += ids.slice(0, k).filter((id) => expected.has(id)).length;
+	});
+	return hits / (found.length * k);
+}
+
+/**
+ * Runs a parameter sweep over a dataset.
+ *
+ * One index is built per (`m`, `efConstruction`) pair, then queried with every
+ * `efSearch`. Ground truth comes from the dataset when it has at least `k`
+ * neighbors per query (and must then match the metric), and is computed by
+ * brute force otherwise.
+ *
+ * @param dataset The vectors to index and the queries to run
+ * @param config The parameters to sweep
+ * @returns The report of every combination
+ *
+ * @example
+ * ```typescript
+ * const report = await run_benchmark(synthetic_clusters({ n: 5000 }), {
+ *   m: [8, 16],
+ *   efSearch: [20, 50],
+ * });
+ * console.log(JSON.stringify(report, null, 2));
+ * ```
+ */
+export async function run_benchmark(
+	dataset: Dataset,
+	config: BenchmarkConfig = {},
+): Promise<BenchmarkReport> {
+	const {
+		k = 10,
+		metric = "l2",
+		quantization = "none",
+		m = [16],
+		efConstruction = [128],
+		efSearch = [20, 50, 100],
+		selection = {},
+		seed = 42,
+	} = config;
+
+	if (dataset.base.length === 0 || dataset.queries.length === 0) {
+		throw new Error("The dataset needs base vectors and queries");
+	}
+
+	const truth =
+		dataset.groundTruth && dataset.groundTruth[0]?.length >= k
+			? dataset.groundTruth
+			: ground_truth(dataset, k, metric);
+
+	const results: BenchmarkResult[] = [];
+	for (const m_i of m) {
+		for (const efc of efConstruction) {
+			const kv = new CountingKV();
+			const hnsw = new HNSW(
+				new EizenMemory(kv),
+				m_i,
+				efc,
+				efSearch[0],
+				metric,
+				{
+					type: quantization,
+				},
+				selection,
+			);
+
+			// Seed the layer selection so that graphs are reproducible
+			const random = seeded_random(seed);
+			hnsw.select_layer = () => Math.floor(-Math.log(random()) * hnsw.ml);
+
+			// Quantized indexes are calibrated on the whole dataset
+			if (quantization !== "none") {
+				await hnsw.calibrate(dataset.base);
+			}
+			kv.reset();
+
+			const buildStart = performance.now();
+			for (const p of dataset.base) {
+				await hnsw.insert(p);
+			}
+			const buildSeconds = (performance.now() - buildStart) / 1000;
+			const buildReadsPerInsert = kv.requests / dataset.base.length;
+
+			for (const ef of efSearch) {
+				hnsw.ef = ef;
+				kv.reset();
+
+				const found: number[][] = [];
+				const start = performance.now();
+				for (const q of dataset.queries) {
+					const res = await hnsw.knn_search(q, k);
+					found.push(res.map((r) => r.id));
+				}
+				const seconds = (performance.now() - start) / 1000;
+
+				const result: BenchmarkResult = {
+					m: m_i,
+					efConstruction: efc,
+					efSearch: ef,
+					buildSeconds: round(buildSeconds),
+					buildReadsPerInsert: round(buildReadsPerInsert),
+					recall: round(recall_at_k(found, truth, k)),
+					qps: round(dataset.queries.length / seconds),
+					readsPerQuery: round(kv.requests / dataset.queries.length),
+					keysPerQuery: round(kv.keys / dataset.queries.length),
+				};
+				results.push(result);
+				config.onResult?.(result);
+			}
+		}
+	}
+
+	return {
+		version: BENCHMARK_REPORT_VERSION,
+		dataset: {
+			name: dataset.name,
+			size: dataset.base.length,
+			queries: dataset.queries.length,
+			dim: dataset.base[0].length,
+		},
+		k,
+		metric,
+		quantization,
+		selection: {
+			extendCandidates: selection.extendCandidates ?? false,
+			keepPrunedConnections: selection.keepPrunedConnections ?? true,
+		},
+		seed,
+		results,
+	};
+}
+
+/** Rounds measurements so that reports stay readable and diffable */
+function round(x: number): number {
+	return Math.round(x * 10000) / 10000;
+}
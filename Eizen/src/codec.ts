@@ -1,4 +1,5 @@
 import { index_buffer } from "../proto/hnsw_comm";
+import type { QuantizerState } from "./types";
 
 /** Encodes a point to protobuf & base64's it. */
 export function encodePoint(q: index_buffer.IPoint): string {
@@ -16,7 +17,7 @@ export function decodePoint(data: string): index_buffer.IPoint {
 export function encodeLayerNode(n: index_buffer.ILayerNode): string {
 	const ne = index_buffer.LayerNode.encode({
 		...n,
-		visible: n.visible || true, // is visible unless otherwise specified
+		visible: n.visible ?? true, // is visible unless otherwise specified
 	}).finish();
 	return Buffer.from(ne).toString("base64");
 }
@@ -26,3 +27,72 @@ export function decodeLayerNode(data: string): index_buffer.ILayerNode {
 	const dec = Buffer.from(data, "base64");
 	return index_buffer.LayerNode.decode(dec);
 }
+
+/** Encodes a quantized point to protobuf & base64's it. */
+export function encodePointQuant(q: index_buffer.IPointQuant): string {
+	const qe = index_buffer.PointQuant.encode(q).finish();
+	return Buffer.from(qe).toString("base64");
+}
+
+/** Decodes a quantized point from base64 encoded protobuf. */
+export function decodePointQuant(data: string): index_buffer.IPointQuant {
+	const dec = Buffer.from(data, "base64");
+	return index_buffer.PointQuant.decode(dec);
+}
+
+/**
+ * Encodes a quantizer calibration to JSON.
+ * PQ codebooks are large, so each one is stored as base64'd float32s.
+ */
+export function encodeQuantizer(state: QuantizerState): string {
+	if (state.type !== "pq") return JSON.stringify(state);
+
+	return JSON.stringify({
+		type: state.type,
+		dims: state.centroids.map((codebook) => codebook[0].length),
+		centroids: state.centroids.map((codebook) =>
+			Buffer.from(new Float32Array(codebook.flat()).buffer).toString("base64"),
+		),
+	});
+}
+
+/** Decodes a quantizer calibration encoded with `encodeQuantizer`. */
+export function decodeQuantizer(data: string): QuantizerState {
+	const state = JSON.parse(data);
+	if (state.type !== "pq") return state;
+
+	const dims: number[] = state.dims;
+	return {
+		type: "pq",
+		centroids: (state.centroids as string[]).map((codebook, s) => {
+			// Copy the bytes, the decoded buffer may not be 4-byte aligned
+			const bytes = new Uint8Array(Buffer.from(codebook, "base64"));
+			const flat = Array.from(new Float32Array(bytes.buffer));
+			return Array.from({ length: flat.length / dims[s] }, (_, c) =>
+				flat.slice(c * dims[s], (c + 1) * dims[s]),
+			);
+		}),
+	};
+}
+
+/** Magic bytes at the start of every snapshot file */
+const SNAPSHOT_MAGIC = Buffer.from("EZSN");
+
+/** Encodes an index snapshot to protobuf, prefixed with the magic bytes. */
+export function encodeSnapshot(s: index_buffer.ISnapshot): Uint8Array {
+	const se = index_buffer.Snapshot.encode(s).finish();
+	return Buffer.concat([SNAPSHOT_MAGIC, se]);
+}
+
+/**
+ * Decodes an index snapshot encoded with `encodeSnapshot`.
+ *
+ * @throws {Error} If the data does not start with the snapshot magic bytes
+ */
+export function decodeSnapshot(data: Uint8Array): index_buffer.Snapshot {
+	const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+	if (!buf.subarray(0, SNAPSHOT_MAGIC.length).equals(SNAPSHOT_MAGIC)) {
+		throw new Error("Not an Eizen snapshot");
+	}
+	return index_buffer.Snapshot.decode(buf.subarray(SNAPSHOT_MAGIC.length));
+}
@@ -0,0 +1,51 @@
+import { expect, test, vi } from "vitest";
+import { EizenMemory } from "..";
+import { MemoryKV } from "../clients/memory";
+import { CachedDB } from ".";
+import { LRUCache } from "./lru";
+
+type Metadata = { n: number };
+
+test("reads are served from the cache until a write evicts them", async () => {
+	const db = new EizenMemory<Metadata>(new MemoryKV());
+	const cached = new CachedDB(db, { lru: new LRUCache() });
+	await cached.new_point([1, 2]);
+	await cached.set_metadata(0, { n: 1 });
+
+	const read = vi.spyOn(db, "get_metadatas");
+	expect(await cached.get_metadata(0)).toEqual({ n: 1 });
+	expect(await cached.get_metadata(0)).toEqual({ n: 1 });
+	expect(read).toHaveBeenCalledTimes(1);
+
+	await cached.set_metadata(0, { n: 2 });
+	expect(await cached.get_metadata(0)).toEqual({ n: 2 });
+	expect(read).toHaveBeenCalledTimes(2);
+});
+
+test("batches neither cache their unflushed writes nor leave stale values behind", async () => {
+	const kv = new MemoryKV();
+	const lru = new LRUCache();
+	const writer = new CachedDB(new EizenMemory<Metadata>(kv), { lru });
+	const reader = new CachedDB(new EizenMemory<Metadata>(kv), { lru });
+	await writer.new_point([1, 2]);
+	await writer.set_metadata(0, { n: 1 });
+
+	// A discarded batch leaves nothing in the cache
+	await expect(
+		writer.batch(async () => {
+			await writer.set_metadata(0, { n: 2 });
+			expect(await writer.get_metadata(0)).toEqual({ n: 2 });
+			throw new Error("Embedding failed");
+		}),
+	).rejects.toThrow("Embedding failed");
+	expect(await writer.get_metadata(0)).toEqual({ n: 1 });
+
+	// Another reader caches the old value while the batch is running,
+	// the flushed write evicts it again
+	await writer.batch(async () => {
+		await writer.set_metadata(0, { n: 3 });
+		expect(await reader.get_metadata(0)).toEqual({ n: 1 });
+	});
+	expect(await reader.get_metadata(0)).toEqual({ n: 3 });
+	expect(await writer.get_metadata(0)).toEqual({ n: 3 });
+});
@@ -0,0 +1,341 @@
+import type {
+	DistanceMetric,
+	Graph,
+	LayerNode,
+	Point,
+	QuantizerState,
+} from "../../types";
+import { keys } from "../common";
+import type { CacheStore, DBInterface } from "../interfaces";
+import type { LRUCache } from "./lru";
+
+/**
+ * CachedDB - A read-through caching decorator for any `DBInterface`
+ *
+ * Points, layer nodes, metadata, visibility flags and the entry point are served
+ * from an in-process LRU first, then from an optional remote cache (e.g. Redis),
+ * and only then from the wrapped database. Writes go straight to the wrapped
+ * database and evict the affected entries.
+ *
+ * Counters (number of layers, data size) are always read from the wrapped
+ * database, since they change on every insert. So are the metric and quantizer,
+ * which are only read once per index instance anyway.
+ *
+ * NOTE: the in-process LRU is only kept coherent with writes made through this
+ * process. If several processes write to the same index, rely on the remote
+ * cache alone.
+ *
+ * @template M - Type for optional metadata associated with points
+ */
+export class CachedDB<M = unknown> implements DBInterface<M> {
+	/** The wrapped database */
+	db: DBInterface<M>;
+
+	private lru?: LRUCache;
+	private remote?: CacheStore;
+	private prefix: string;
+
+	/** Nesting depth of `batch` calls, nothing is cached while it is positive */
+	private batching = 0;
+	/** Keys evicted during the current batch, evicted again once it is flushed */
+	private batchEvicted = new Set<string>();
+
+	/**
+	 * @param db - The database to cache reads of
+	 * @param options - Cache layers to use:
+	 * - `lru`: In-process cache, can be shared by several databases
+	 * - `remote`: Shared cache such as Redis, checked after the LRU
+	 * - `prefix`: Prepended to every cache key, required when sharing a cache
+	 */
+	constructor(
+		db: DBInterface<M>,
+		options: { lru?: LRUCache; remote?: CacheStore; prefix?: string },
+	) {
+		this.db = db;
+		this.lru = options.lru;
+		this.remote = options.remote;
+		this.prefix = options.prefix ?? "";
+	}
+
+	// === Graph Structure ===
+
+	async new_neighbor(idx: number): Promise<void> {
+		const layer = await this.db.get_num_layers();
+		await this.db.new_neighbor(idx);
+		await this.evict([keys.neighbor(layer, idx), visibleKey(idx)]);
+	}
+
+	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
+		const [node] = await this.get_neighbors_list(layer, [idx]);
+		return node;
+	}
+
+	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
+		const nodes = await this.get_neighbors_list(layer, idxs);
+		return Object.fromEntries(idxs.map((idx, i) => [idx, nodes[i]]));
+	}
+
+	async upsert_neighbor(
+		layer: number,
+		idx: number,
+		node: LayerNode,
+	): Promise<void> {
+		await this.db.upsert_neighbor(layer, idx, node);
+		await this.evict(neighborKeys(layer, [idx]));
+	}
+
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		visible?: boolean,
+	): Promise<void> {
+		await this.db.upsert_neighbors(layer, nodes, visible);
+		await this.evict(
+			neighborKeys(
+				layer,
+				Object.keys(nodes).map((idx) => Number.parseInt(idx)),
+			),
+		);
+	}
+
+	async get_num_layers(): Promise<number> {
+		return this.db.get_num_layers();
+	}
+
+	async set_num_layers(n: number): Promise<void> {
+		await this.db.set_num_layers(n);
+	}
+
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		return this.db.has_neighbors(layer, idxs);
+	}
+
+	// === Points ===
+
+	async new_point(q: Point): Promise<number> {
+		return this.db.new_point(q);
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		await this.db.set_point(idx, q);
+		await this.evict([keys.point(idx), keys.exact(idx)]);
+	}
+
+	async get_point(idx: number): Promise<Point> {
+		const [point] = await this.get_points([idx]);
+		return point;
+	}
+
+	async get_points(idxs: number[]): Promise<Point[]> {
+		return this.read_through(
+			idxs.map((idx) => keys.point(idx)),
+			(missing) => this.db.get_points(missing.map((i) => idxs[i])),
+		);
+	}
+
+	async get_exact_points(idxs: number[]): Promise<Point[]> {
+		return this.read_through(
+			idxs.map((idx) => keys.exact(idx)),
+			(missing) => this.db.get_exact_points(missing.map((i) => idxs[i])),
+		);
+	}
+
+	async get_datasize(): Promise<number> {
+		return this.db.get_datasize();
+	}
+
+	// === Entry Point, Metric & Quantizer ===
+
+	async get_ep(): Promise<number | null> {
+		const [ep] = await this.read_through([keys.ep], async () => [
+			await this.db.get_ep(),
+		]);
+		return ep;
+	}
+
+	async set_ep(ep: number): Promise<void> {
+		await this.db.set_ep(ep);
+		await this.evict([keys.ep]);
+	}
+
+	async get_metric(): Promise<DistanceMetric | null> {
+		return this.db.get_metric();
+	}
+
+	async set_metric(metric: DistanceMetric): Promise<void> {
+		await this.db.set_metric(metric);
+	}
+
+	async get_quantizer(): Promise<QuantizerState | null> {
+		return this.db.get_quantizer();
+	}
+
+	async set_quantizer(state: QuantizerState): Promise<void> {
+		await this.db.set_quantizer(state);
+	}
+
+	// === Metadata ===
+
+	async get_metadata(idx: number): Promise<M | null> {
+		const [metadata] = await this.get_metadatas([idx]);
+		return metadata;
+	}
+
+	async get_metadatas(idxs: number[]): Promise<(M | null)[]> {
+		return this.read_through(
+			idxs.map((idx) => keys.metadata(idx)),
+			(missing) => this.db.get_metadatas(missing.map((i) => idxs[i])),
+		);
+	}
+
+	async set_metadata(idx: number, data: M): Promise<void> {
+		await this.db.set_metadata(idx, data);
+		await this.evict([keys.metadata(idx)]);
+	}
+
+	// === Deletion ===
+
+	async set_visible(idx: number, visible: boolean): Promise<void> {
+		await this.db.set_visible(idx, visible);
+		await this.evict([visibleKey(idx)]);
+	}
+
+	async get_visibles(idxs: number[]): Promise<boolean[]> {
+		return this.read_through(idxs.map(visibleKey), (missing) =>
+			this.db.get_visibles(missing.map((i) => idxs[i])),
+		);
+	}
+
+	// === Batching ===
+
+	/**
+	 * Run operations as a batch of the wrapped database
+	 *
+	 * Values read during the batch may not be written yet, so they are not cached.
+	 * Evicted keys are evicted again after the flush, in case another reader
+	 * cached their old value in the meantime.
+	 */
+	async batch<T>(fn: () => Promise<T>): Promise<T> {
+		this.batching++;
+		try {
+			return await this.db.batch(fn);
+		} finally {
+			this.batching--;
+			if (this.batching === 0 && this.batchEvicted.size > 0) {
+				const evicted = [...this.batchEvicted];
+				this.batchEvicted.clear();
+				await this.evict(evicted);
+			}
+		}
+	}
+
+	// === Private Utility Methods ===
+
+	/**
+	 * Layer nodes are cached per layer, so they are read through separately
+	 */
+	private async get_neighbors_list(
+		layer: number,
+		idxs: number[],
+	): Promise<LayerNode[]> {
+		return this.read_through(
+			idxs.map((idx) => keys.neighbor(layer, idx)),
+			async (missing) => {
+				const missingIdxs = missing.map((i) => idxs[i]);
+				const graph = await this.db.get_neighbors(layer, missingIdxs);
+				return missingIdxs.map((idx) => graph[idx]);
+			},
+		);
+	}
+
+	/**
+	 * Look keys up in the cache layers, fetching and caching the misses
+	 *
+	 * @param cacheKeys - Cache keys of the values, without prefix
+	 * @param fetch - Loads the values at the given positions from the wrapped database
+	 * @returns Values in the same order as the keys
+	 */
+	private async read_through<T>(
+		cacheKeys: string[],
+		fetch: (missing: number[]) => Promise<T[]>,
+	): Promise<T[]> {
+		if (cacheKeys.length === 0) return [];
+		const prefixed = cacheKeys.map((key) => this.prefix + key);
+
+		// In-process cache first
+		const cached: (string | null)[] = this.lru
+			? await this.lru.get(prefixed)
+			: prefixed.map(() => null);
+
+		// Then the remote cache, warming the in-process one with its hits
+		let missing = positionsOf(cached, null);
+		if (this.remote && missing.length > 0) {
+			const remoteHits = await this.remote.get(missing.map((i) => prefixed[i]));
+			const warm: [string, string][] = [];
+			missing.forEach((pos, i) => {
+				const value = remoteHits[i];
+				if (value !== null) {
+					cached[pos] = value;
+					warm.push([prefixed[pos], value]);
+				}
+			});
+			if (this.lru && warm.length > 0) {
+				await this.lru.set(warm);
+			}
+			missing = positionsOf(cached, null);
+		}
+
+		const values = cached.map((value) =>
+			value === null ? undefined : (JSON.parse(value) as T),
+		);
+		if (missing.length === 0) return values as T[];
+
+		// Finally the wrapped database
+		const fetched = await fetch(missing);
+		const entries: [string, string][] = [];
+		missing.forEach((pos, i) => {
+			values[pos] = fetched[i];
+			entries.push([prefixed[pos], JSON.stringify(fetched[i])]);
+		});
+
+		if (this.batching === 0) {
+			await this.lru?.set(entries);
+			await this.remote?.set(entries);
+		}
+
+		return values as T[];
+	}
+
+	/**
+	 * Evict keys from every cache layer
+	 *
+	 * @param cacheKeys - Cache keys to evict, without prefix
+	 */
+	private async evict(cacheKeys: string[]) {
+		if (this.batching > 0) {
+			for (const key of cacheKeys) {
+				this.batchEvicted.add(key);
+			}
+		}
+
+		const prefixed = cacheKeys.map((key) => this.prefix + key);
+		await this.lru?.delete(prefixed);
+		await this.remote?.delete(prefixed);
+	}
+}
+
+/** Cache key of a point's visibility flag, which is not a database key of its own */
+function visibleKey(idx: number) {
+	return `v:${idx}`;
+}
+
+/** Cache keys touched by a write to layer nodes, including visibility on layer 0 */
+function neighborKeys(layer: number, idxs: number[]) {
+	const cacheKeys: string[] = idxs.map((idx) => keys.neighbor(layer, idx));
+	return layer === 0 ? [...cacheKeys, ...idxs.map(visibleKey)] : cacheKeys;
+}
+
+/** Positions of the array holding the given value */
+function positionsOf<T>(values: T[], value: T) {
+	return values.flatMap((v, i) => (v === value ? [i] : []));
+}
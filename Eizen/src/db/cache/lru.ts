@@ -0,0 +1,74 @@
+import type { CacheStore } from "../interfaces";
+
+/**
+ * LRUCache - An in-process least-recently-used cache
+ *
+ * Relies on `Map` keeping insertion order: a hit moves the entry to the end,
+ * and once the capacity is exceeded the entries at the front are evicted.
+ * A single instance can be shared by several databases, see `CachedDB`'s prefix.
+ */
+export class LRUCache implements CacheStore {
+	/** Maximum number of entries kept */
+	capacity: number;
+
+	private entries = new Map<string, string>();
+
+	/**
+	 * @param capacity - Maximum number of entries kept (default: 10000)
+	 */
+	constructor(capacity = 10000) {
+		this.capacity = capacity;
+	}
+
+	/** Number of cached entries */
+	get size() {
+		return this.entries.size;
+	}
+
+	/**
+	 * Retrieve cached values, marking the hits as recently used
+	 */
+	async get(keys: string[]): Promise<(string | null)[]> {
+		return keys.map((key) => {
+			const value = this.entries.get(key);
+			if (value === undefined) return null;
+
+			// Move to the most recently used position
+			this.entries.delete(key);
+			this.entries.set(key, value);
+			return value;
+		});
+	}
+
+	/**
+	 * Cache several key-value pairs, evicting the least recently used ones if full
+	 */
+	async set(entries: [key: string, value: string][]): Promise<void> {
+		for (const [key, value] of entries) {
+			this.entries.delete(key);
+			this.entries.set(key, value);
+		}
+
+		while (this.entries.size > this.capacity) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	/**
+	 * Evict several keys
+	 */
+	async delete(keys: string[]): Promise<void> {
+		for (const key of keys) {
+			this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * Evict everything
+	 */
+	clear() {
+		this.entries.clear();
+	}
+}
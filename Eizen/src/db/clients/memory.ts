@@ -0,0 +1,49 @@
+import type { KVClient } from "../interfaces";
+
+/**
+ * MemoryKV - A key-value client that keeps everything in a `Map`
+ *
+ * Nothing is persisted: the data lives as long as the instance does.
+ * Meant for unit tests, local development and as a fast reference backend
+ * to compare results against the blockchain one.
+ */
+export class MemoryKV implements KVClient {
+	/** Stored key-value pairs */
+	store = new Map<string, string>();
+
+	/**
+	 * Retrieve the value stored at a key
+	 */
+	async get(key: string): Promise<string | null> {
+		return this.store.get(key) ?? null;
+	}
+
+	/**
+	 * Retrieve the values stored at several keys, null for missing ones
+	 */
+	async getMany(keys: string[]): Promise<(string | null)[]> {
+		return keys.map((key) => this.store.get(key) ?? null);
+	}
+
+	/**
+	 * Store a value at a key
+	 */
+	async set(key: string, value: string): Promise<void> {
+		this.store.set(key, value);
+	}
+
+	/**
+	 * Store several key-value pairs at once
+	 *
+	 * @throws {Error} If keys and values arrays have different lengths
+	 */
+	async setMany(keys: string[], values: string[]): Promise<void> {
+		if (keys.length !== values.length) {
+			throw new Error("Keys and values arrays must have the same length");
+		}
+
+		keys.forEach((key, i) => {
+			this.store.set(key, values[i]);
+		});
+	}
+}
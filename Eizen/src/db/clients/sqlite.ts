@@ -0,0 +1,101 @@
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import type { KVClient } from "../interfaces";
+
+/**
+ * SQLiteKV - A file-backed key-value client on top of `node:sqlite`
+ *
+ * All pairs live in a single `kv` table. Batch writes run in one transaction,
+ * so a failing `setMany` leaves the file untouched.
+ * Meant for local development and offline deployments without Arweave.
+ *
+ * NOTE: `node:sqlite` ships with Node.js 22.13+ (earlier 22.x releases need
+ * the `--experimental-sqlite` flag). It is only loaded by `SQLiteKV.open`.
+ */
+export class SQLiteKV implements KVClient {
+	db: DatabaseSync;
+
+	private getStmt: StatementSync;
+	private setStmt: StatementSync;
+
+	/**
+	 * Wrap an already opened database, creating the `kv` table if needed
+	 *
+	 * @param db - An open `node:sqlite` database
+	 */
+	constructor(db: DatabaseSync) {
+		this.db = db;
+		this.db.exec(
+			"CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL) WITHOUT ROWID",
+		);
+
+		this.getStmt = this.db.prepare("SELECT value FROM kv WHERE key = ?");
+		this.setStmt = this.db.prepare(
+			"INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+		);
+	}
+
+	/**
+	 * Open (or create) a SQLite database file
+	 *
+	 * @param filename - Path of the database file, or ":memory:" for a temporary one
+	 * @returns A client over the opened database
+	 */
+	static async open(filename: string): Promise<SQLiteKV> {
+		const { DatabaseSync } = await import("node:sqlite");
+		return new SQLiteKV(new DatabaseSync(filename));
+	}
+
+	/**
+	 * Retrieve the value stored at a key
+	 */
+	async get(key: string): Promise<string | null> {
+		const row = this.getStmt.get(key) as { value: string } | undefined;
+		return row ? row.value : null;
+	}
+
+	/**
+	 * Retrieve the values stored at several keys, null for missing ones
+	 */
+	async getMany(keys: string[]): Promise<(string | null)[]> {
+		return keys.map((key) => {
+			const row = this.getStmt.get(key) as { value: string } | undefined;
+			return row ? row.value : null;
+		});
+	}
+
+	/**
+	 * Store a value at a key
+	 */
+	async set(key: string, value: string): Promise<void> {
+		this.setStmt.run(key, value);
+	}
+
+	/**
+	 * Store several key-value pairs in a single transaction
+	 *
+	 * @throws {Error} If keys and values arrays have different lengths
+	 */
+	async setMany(keys: string[], values: string[]): Promise<void> {
+		if (keys.length !== values.length) {
+			throw new Error("Keys and values arrays must have the same length");
+		}
+
+		this.db.exec("BEGIN");
+		try {
+			keys.forEach((key, i) => {
+				this.setStmt.run(key, values[i]);
+			});
+			this.db.exec("COMMIT");
+		} catch (err) {
+			this.db.exec("ROLLBACK");
+			throw err;
+		}
+	}
+
+	/**
+	 * Close the underlying database
+	 */
+	close() {
+		this.db.close();
+	}
+}
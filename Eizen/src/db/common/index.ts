@@ -1,11 +1,34 @@
-export const keys = {
-	layers: "layers",
-	ep: "ep",
-	points: "points",
-	metadata: (idx: number) => `m:${idx}` as const,
-	point: (idx: number) => `${idx}` as const,
-	neighbor: (layer: number, idx: number) => `${layer}__${idx}` as const,
-} as const;
+/**
+ * Builds the storage keys of an index
+ *
+ * Keys of a namespaced index are prefixed with `${namespace}/`, so several
+ * indexes can share one storage. Unprefixed keys never contain a slash, and
+ * stay those of the default, unnamespaced index.
+ *
+ * @param namespace - Optional name of the index within the storage
+ */
+export function keysFor(namespace?: string) {
+	const p = namespace ? `${namespace}/` : "";
+	return {
+		layers: `${p}layers`,
+		ep: `${p}ep`,
+		metric: `${p}metric`,
+		quantizer: `${p}quantizer`,
+		points: `${p}points`,
+		metadata: (idx: number) => `${p}m:${idx}`,
+		point: (idx: number) => `${p}${idx}`,
+		exact: (idx: number) => `${p}x:${idx}`,
+		neighbor: (layer: number, idx: number) => `${p}${layer}__${idx}`,
+		keywordStats: `${p}kw:stats`,
+		posting: (term: string, shard: number) => `${p}kw:t:${term}:${shard}`,
+		keywordDoc: (idx: number) => `${p}kw:d:${idx}`,
+	} as const;
+}
+
+export type Keys = ReturnType<typeof keysFor>;
+
+/** Keys of the default, unnamespaced index */
+export const keys: Keys = keysFor();
 
 /** Parse JSON string, returns null for falsy values */
 export function safeParse<V = unknown>(
@@ -0,0 +1,88 @@
+import { expect, test, vi } from "vitest";
+import { MemoryKV } from "./clients/memory";
+import { EizenMemory } from "./index";
+
+/** Memory client refusing to read or write one key */
+class BrokenKeyKV extends MemoryKV {
+	constructor(private broken: string) {
+		super();
+	}
+
+	override async getMany(keys: string[]) {
+		if (keys.includes(this.broken)) {
+			throw new Error(`Can't read ${this.broken}`);
+		}
+		return super.getMany(keys);
+	}
+
+	override async setMany(keys: string[], values: string[]) {
+		if (keys.includes(this.broken)) {
+			throw new Error(`Can't write ${this.broken}`);
+		}
+		return super.setMany(keys, values);
+	}
+}
+
+test("a key failing on its own fails reads and writes instead of splitting forever", async () => {
+	const db = new EizenMemory(new BrokenKeyKV("0__1"));
+	for (let i = 0; i < 3; i++) {
+		await db.new_point([i, 1]);
+		await db.upsert_neighbor(0, i, {});
+	}
+
+	await expect(db.get_visibles([0, 1, 2])).rejects.toThrow("Can't read 0__1");
+	await expect(db.upsert_neighbors(0, { 0: {}, 1: {}, 2: {} })).rejects.toThrow(
+		"Can't write 0__1",
+	);
+
+	// The other keys are still served, split from the failing one
+	expect(await db.get_visibles([0, 2])).toEqual([true, true]);
+});
+
+test("batch holds writes back until it ends, and its reads see them", async () => {
+	const kv = new MemoryKV();
+	const db = new EizenMemory(kv);
+	const setMany = vi.spyOn(kv, "setMany");
+
+	await db.batch(async () => {
+		await db.new_point([1, 2]);
+		await db.batch(() => db.new_point([3, 4]));
+		expect(await db.get_points([0, 1])).toEqual([
+			[1, 2],
+			[3, 4],
+		]);
+		expect(await db.get_datasize()).toBe(2);
+		expect(kv.store.size).toBe(0);
+	});
+
+	// Nested batches join the outer one, flushed in a single write
+	expect(setMany).toHaveBeenCalledTimes(1);
+	expect(await new EizenMemory(kv).get_points([0, 1])).toEqual([
+		[1, 2],
+		[3, 4],
+	]);
+});
+
+test("a failing batch writes nothing, a failing flush says some writes may be stored", async () => {
+	const kv = new MemoryKV();
+	const db = new EizenMemory(kv);
+
+	await expect(
+		db.batch(async () => {
+			await db.new_point([1, 2]);
+			throw new Error("Embedding failed");
+		}),
+	).rejects.toThrow("Embedding failed");
+	expect(kv.store.size).toBe(0);
+	expect(await db.get_datasize()).toBe(0);
+
+	const broken = new EizenMemory(new BrokenKeyKV("0__1"));
+	await expect(
+		broken.batch(async () => {
+			await broken.upsert_neighbor(0, 1, {});
+			await broken.upsert_neighbor(0, 2, {});
+		}),
+	).rejects.toThrow(
+		"Failed to flush batch, some of its 2 writes may be stored: Can't write 0__1",
+	);
+});
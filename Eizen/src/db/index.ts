@@ -1,13 +1,24 @@
-import type { SetSDK } from "hollowdb";
+import type { ContractState, SetSDK } from "hollowdb";
 import {
 	decodeLayerNode,
 	decodePoint,
+	decodePointQuant,
+	decodeQuantizer,
 	encodeLayerNode,
 	encodePoint,
+	encodePointQuant,
+	encodeQuantizer,
 } from "../codec";
-import type { Graph, LayerNode, Point } from "../types";
-import { keys, safeParse } from "./common";
-import type { DBInterface } from "./interfaces";
+import { dequantize, quantize } from "../quantization";
+import type {
+	DistanceMetric,
+	Graph,
+	LayerNode,
+	Point,
+	QuantizerState,
+} from "../types";
+import { type Keys, keysFor, safeParse } from "./common";
+import type { DBInterface, KVClient } from "./interfaces";
 
 /**
  * EizenMemory - A distributed memory implementation for vector similarity search
@@ -21,10 +32,25 @@ import type { DBInterface } from "./interfaces";
  * - Neighbors: Connected nodes in each layer forming the searchable graph
  * - Entry Point (EP): Starting node for search operations
  *
+ * Points of a quantized index are stored as `PointQuant` codes and decoded back
+ * into approximate vectors on read, see `set_quantizer`.
+ *
+ * Storage goes through a plain key-value client: a HollowDB `SetSDK` for Arweave,
+ * or `MemoryKV` / `SQLiteKV` for tests, local development and offline use.
+ *
  * @template M - Type for optional metadata associated with points
  */
 export class EizenMemory<M = unknown> implements DBInterface<M> {
-	client: SetSDK<string>;
+	client: KVClient;
+
+	/** Writes held back while a `batch` is running, flushed together at its end */
+	private pending: Map<string, string> | null = null;
+
+	/** Quantizer used to encode points, undefined until loaded */
+	private quantizer: QuantizerState | null | undefined = undefined;
+
+	/** Storage keys, prefixed with the namespace if there is one */
+	private keys: Keys;
 
 	/**
 	 * Deploy a new contract for this database instance
@@ -32,13 +58,16 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @param initialState - Initial state configuration for the contract
 	 * @param source - ( Optional) source transaction ID for contract deployment
 	 * @returns The deployed contract transaction ID
+	 * @throws Error if the client is not a HollowDB SDK
 	 */
-	async deploy(
-		initialState: Awaited<ReturnType<typeof this.client.getState>>,
-		source = "",
-	) {
-		const { contractTxId } = await this.client.warp.deployFromSourceTx({
-			wallet: this.client.signer,
+	async deploy(initialState: ContractState, source = "") {
+		if (!("warp" in this.client)) {
+			throw new Error("Only HollowDB-backed databases can be deployed");
+		}
+
+		const client = this.client as SetSDK<string>;
+		const { contractTxId } = await client.warp.deployFromSourceTx({
+			wallet: client.signer,
 			srcTxId: source,
 			initState: JSON.stringify(initialState),
 		});
@@ -46,8 +75,14 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		return contractTxId;
 	}
 
-	constructor(client: SetSDK<string>) {
+	/**
+	 * @param client - Key-value client storing the index
+	 * @param namespace - Optional prefix of every key, so that several indexes
+	 *   (each with its own entry point and layers) can share one storage
+	 */
+	constructor(client: KVClient, namespace?: string) {
 		this.client = client;
+		this.keys = keysFor(namespace);
 	}
 
 	// === Entry Point Management ===
@@ -57,7 +92,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * The entry point is the starting node for navigating the graph structure
 	 */
 	async get_ep(): Promise<number | null> {
-		const ep = await this.client.get(keys.ep);
+		const ep = await this.read(this.keys.ep);
 		return ep === null ? null : Number.parseInt(ep);
 	}
 
@@ -66,7 +101,45 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Should typically be a well-connected node in the highest layer
 	 */
 	async set_ep(ep: number): Promise<void> {
-		await this.client.set(keys.ep, ep.toString());
+		await this.write(this.keys.ep, ep.toString());
+	}
+
+	// === Distance Metric ===
+
+	/**
+	 * Get the distance metric the index was built with
+	 * Returns null for empty indexes and for indexes created before metrics were recorded
+	 */
+	async get_metric(): Promise<DistanceMetric | null> {
+		const metric = await this.read(this.keys.metric);
+		return metric === null ? null : (metric as DistanceMetric);
+	}
+
+	/**
+	 * Record the distance metric of the index
+	 */
+	async set_metric(metric: DistanceMetric): Promise<void> {
+		await this.write(this.keys.metric, metric);
+	}
+
+	// === Quantization ===
+
+	/**
+	 * Get the quantizer calibration of the index
+	 * Returns null for indexes storing full-precision vectors, and for uncalibrated ones
+	 */
+	async get_quantizer(): Promise<QuantizerState | null> {
+		const state = await this.read(this.keys.quantizer);
+		return state === null ? null : decodeQuantizer(state);
+	}
+
+	/**
+	 * Record the quantizer calibration of the index
+	 * Points written from now on are quantized, so it must be set while the index is empty
+	 */
+	async set_quantizer(state: QuantizerState): Promise<void> {
+		await this.write(this.keys.quantizer, encodeQuantizer(state));
+		this.quantizer = state;
 	}
 
 	// === Point (Vector) Operations ===
@@ -79,15 +152,11 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @throws Error if point doesn't exist or has no value
 	 */
 	async get_point(idx: number): Promise<Point> {
-		const data = await this.client.get(keys.point(idx));
+		const data = await this.read(this.keys.point(idx));
 		if (!data) {
 			throw new Error(`No point with index ${idx}`);
 		}
-		const point = decodePoint(data);
-		if (!point.v) {
-			throw new Error(`Point at index ${idx} has no value`);
-		}
-		return point.v;
+		return this.decode_point(idx, data, await this.point_quantizer());
 	}
 
 	/**
@@ -99,7 +168,9 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 */
 	async get_points(idxs: number[]): Promise<Point[]> {
 		if (idxs.length === 0) return [];
-		const datas = await this.safe_get_many(idxs.map((idx) => keys.point(idx)));
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.point(idx)),
+		);
 
 		// Validate all points exist before processing
 		const nullPos = datas.indexOf(null);
@@ -108,18 +179,36 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		}
 
 		// Decode all points and validate they have values
-		const points = datas.map((data, i) => {
+		const quantizer = await this.point_quantizer();
+		return datas.map((data, i) => {
 			if (data === null) {
 				throw new Error(`No data for point at index ${idxs[i]}`);
 			}
-			return decodePoint(data);
+			return this.decode_point(idxs[i], data, quantizer);
 		});
+	}
 
-		return points.map((point, i) => {
-			if (!point.v) {
-				throw new Error(`Point at index ${idxs[i]} has no value`);
+	/**
+	 * Retrieve the full-precision vectors of multiple points
+	 * Only product-quantized indexes store them separately, for reranking
+	 *
+	 * @param idxs - Array of point indices to retrieve
+	 * @returns Array of points in the same order as input indices
+	 * @throws Error if any point is missing or invalid
+	 */
+	async get_exact_points(idxs: number[]): Promise<Point[]> {
+		const quantizer = await this.point_quantizer();
+		if (quantizer?.type !== "pq") return this.get_points(idxs);
+		if (idxs.length === 0) return [];
+
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.exact(idx)),
+		);
+		return datas.map((data, i) => {
+			if (data === null) {
+				throw new Error(`No exact vector for point at index ${idxs[i]}`);
 			}
-			return point.v;
+			return this.decode_point(idxs[i], data, null);
 		});
 	}
 
@@ -132,13 +221,30 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	async new_point(q: Point): Promise<number> {
 		const idx = await this.get_datasize();
 
-		const point = encodePoint({ v: q, idx });
-		await this.client.set(keys.point(idx), point);
-		await this.client.set(keys.points, (idx + 1).toString());
+		await this.set_point(idx, q);
+		await this.write(this.keys.points, (idx + 1).toString());
 
 		return idx;
 	}
 
+	/**
+	 * Overwrite the vector stored at an existing index
+	 * Quantized indexes store its codes, plus the exact vector for product quantization
+	 */
+	async set_point(idx: number, q: Point): Promise<void> {
+		const quantizer = await this.point_quantizer();
+		if (!quantizer) {
+			await this.write(this.keys.point(idx), encodePoint({ v: q, idx }));
+			return;
+		}
+
+		const codes = encodePointQuant({ v: quantize(quantizer, q), idx });
+		await this.write(this.keys.point(idx), codes);
+		if (quantizer.type === "pq") {
+			await this.write(this.keys.exact(idx), encodePoint({ v: q, idx }));
+		}
+	}
+
 	// === Graph Structure Queries ===
 
 	/**
@@ -146,16 +252,24 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Higher layers have fewer, more connected nodes for efficient search
 	 */
 	async get_num_layers(): Promise<number> {
-		const numLayers = await this.client.get(keys.layers);
+		const numLayers = await this.read(this.keys.layers);
 		return numLayers ? Number.parseInt(numLayers) : 0;
 	}
 
+	/**
+	 * Overwrite the total number of layers
+	 * Only used when deleting the entry point shrinks the hierarchy
+	 */
+	async set_num_layers(n: number): Promise<void> {
+		await this.write(this.keys.layers, n.toString());
+	}
+
 	/**
 	 * Get the total number of points stored in the database
 	 * This represents the next available index for new points
 	 */
 	async get_datasize(): Promise<number> {
-		const datasize = await this.client.get(keys.points);
+		const datasize = await this.read(this.keys.points);
 		return datasize ? Number.parseInt(datasize) : 0;
 	}
 
@@ -170,7 +284,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @throws Error if node doesn't exist or has no neighbors
 	 */
 	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
-		const data = await this.client.get(keys.neighbor(layer, idx));
+		const data = await this.read(this.keys.neighbor(layer, idx));
 		if (!data) {
 			throw new Error(`No neighbors at layer ${layer}, index ${idx}"`);
 		}
@@ -191,7 +305,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 */
 	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
 		const datas = await this.safe_get_many(
-			idxs.map((idx) => keys.neighbor(layer, idx)),
+			idxs.map((idx) => this.keys.neighbor(layer, idx)),
 		);
 
 		// Validate all nodes exist
@@ -224,6 +338,21 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		return Object.fromEntries(idxs.map((idx, i) => [idx, neighbors[i]]));
 	}
 
+	/**
+	 * Check which nodes exist in a layer (batch operation)
+	 *
+	 * @param layer - Layer level to query
+	 * @param idxs - Array of node indices to check
+	 * @returns Array of flags in the same order as input indices
+	 */
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.neighbor(layer, idx)),
+		);
+		return datas.map((data) => data !== null);
+	}
+
 	/**
 	 * Create or update neighbor connections for a single node
 	 *
@@ -241,7 +370,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 			level: layer,
 			neighbors: node,
 		});
-		await this.client.set(keys.neighbor(layer, idx), data);
+		await this.write(this.keys.neighbor(layer, idx), data);
 	}
 
 	/**
@@ -250,16 +379,22 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 *
 	 * @param layer - Layer level to update
 	 * @param nodes - Graph mapping node indices to their new neighbor connections
+	 * @param visible - Whether the nodes are visible, false to keep tombstoned ones so
 	 */
-	async upsert_neighbors(layer: number, nodes: Graph): Promise<void> {
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		visible = true,
+	): Promise<void> {
 		await this.safe_set_many(
 			Object.keys(nodes).map((idx) => {
 				const i = Number.parseInt(idx);
-				const key = keys.neighbor(layer, i);
+				const key = this.keys.neighbor(layer, i);
 				const value = encodeLayerNode({
 					idx: i,
 					level: layer,
 					neighbors: nodes[i],
+					visible,
 				});
 
 				return [key, value];
@@ -281,7 +416,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 
 		// NOTE: if `new_neighbor` is run in parallel,
 		// this might cause a race-condition
-		await this.client.set(keys.layers, (l + 1).toString());
+		await this.write(this.keys.layers, (l + 1).toString());
 	}
 
 	// === Metadata Operations ===
@@ -293,7 +428,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @returns Metadata object or null if none exists
 	 */
 	async get_metadata(idx: number): Promise<M | null> {
-		const data = await this.client.get(keys.metadata(idx));
+		const data = await this.read(this.keys.metadata(idx));
 		return safeParse<M>(data);
 	}
 
@@ -316,11 +451,159 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @param data - Metadata to associate with this point
 	 */
 	async set_metadata(idx: number, data: M): Promise<void> {
-		await this.client.set(keys.metadata(idx), JSON.stringify(data));
+		await this.write(this.keys.metadata(idx), JSON.stringify(data));
+	}
+
+	// === Deletion Operations ===
+
+	/**
+	 * Tombstone or restore a point by flipping the `visible` flag of its
+	 * layer nodes. The flag is rewritten on every layer the point belongs to.
+	 *
+	 * NOTE: `upsert_neighbor(s)` always writes visible nodes, so callers must
+	 * not rewrite the neighbors of a tombstoned point (except to clear them).
+	 *
+	 * @param idx - Point index
+	 * @param visible - false to tombstone the point, true to restore it
+	 */
+	async set_visible(idx: number, visible: boolean): Promise<void> {
+		const numLayers = await this.get_num_layers();
+		const layers = Array.from({ length: numLayers }, (_, l) => l);
+		const datas = await this.safe_get_many(
+			layers.map((layer) => this.keys.neighbor(layer, idx)),
+		);
+
+		const entries: [key: string, value: string][] = [];
+		datas.forEach((data, layer) => {
+			if (data === null) return;
+			const node = decodeLayerNode(data);
+			entries.push([
+				this.keys.neighbor(layer, idx),
+				encodeLayerNode({
+					idx,
+					level: layer,
+					neighbors: node.neighbors,
+					visible,
+				}),
+			]);
+		});
+
+		if (entries.length > 0) {
+			await this.safe_set_many(entries);
+		}
+	}
+
+	/**
+	 * Retrieve visibility flags for multiple points
+	 * Visibility is read from the base layer, which contains every point
+	 *
+	 * @param idxs - Array of point indices
+	 * @returns Array of flags (false for tombstoned or missing points)
+	 */
+	async get_visibles(idxs: number[]): Promise<boolean[]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.neighbor(0, idx)),
+		);
+		return datas.map(
+			(data) => data !== null && decodeLayerNode(data).visible === true,
+		);
+	}
+
+	// === Batching ===
+
+	/**
+	 * Run several operations with their writes grouped together
+	 *
+	 * Writes are held in memory while `fn` runs (reads see them), then flushed
+	 * through `safe_set_many` in as few transactions as possible. If `fn` throws,
+	 * nothing is written. Nested calls join the outer batch.
+	 *
+	 * The flush is only atomic when the client takes it in one transaction.
+	 * Larger flushes are split, so a failing flush may leave some of its writes
+	 * stored; its error says so.
+	 *
+	 * @param fn - Operations to run
+	 * @returns The result of `fn`
+	 */
+	async batch<T>(fn: () => Promise<T>): Promise<T> {
+		if (this.pending) return fn();
+
+		this.pending = new Map();
+		try {
+			const result = await fn();
+			const entries = [...this.pending];
+			this.pending = null;
+			if (entries.length > 0) {
+				try {
+					await this.safe_set_many(entries);
+				} catch (err) {
+					throw new Error(
+						`Failed to flush batch, some of its ${entries.length} writes may be stored: ${err instanceof Error ? err.message : err}`,
+					);
+				}
+			}
+			return result;
+		} catch (err) {
+			// The discarded writes may include the quantizer
+			this.quantizer = undefined;
+			throw err;
+		} finally {
+			this.pending = null;
+		}
 	}
 
 	// === Private Utility Methods ===
 
+	/**
+	 * Get the quantizer points are encoded with, read once per instance
+	 *
+	 * The calibration is only set on empty indexes and never changes afterwards,
+	 * so it is kept in memory (and forgotten if the batch that set it is discarded).
+	 */
+	private async point_quantizer(): Promise<QuantizerState | null> {
+		if (this.quantizer === undefined) {
+			this.quantizer = await this.get_quantizer();
+		}
+		return this.quantizer;
+	}
+
+	/**
+	 * Decode a stored point, dequantizing it if the index is quantized
+	 *
+	 * @throws Error if the point has no value
+	 */
+	private decode_point(
+		idx: number,
+		data: string,
+		quantizer: QuantizerState | null,
+	): Point {
+		const point = quantizer ? decodePointQuant(data) : decodePoint(data);
+		if (!point.v) {
+			throw new Error(`Point at index ${idx} has no value`);
+		}
+		return quantizer ? dequantize(quantizer, point.v) : point.v;
+	}
+
+	/**
+	 * Read a single key, preferring writes pending in the current batch
+	 */
+	private async read(key: string): Promise<string | null> {
+		const pending = this.pending?.get(key);
+		return pending !== undefined ? pending : await this.client.get(key);
+	}
+
+	/**
+	 * Write a single key, or hold it back if a batch is running
+	 */
+	private async write(key: string, value: string): Promise<void> {
+		if (this.pending) {
+			this.pending.set(key, value);
+			return;
+		}
+		await this.client.set(key, value);
+	}
+
 	/**
 	 * Safely retrieve multiple keys with automatic request splitting
 	 *
@@ -329,16 +612,37 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Uses recursive binary splitting on errors.
 	 */
 	private async safe_get_many(keys: string[]): Promise<(string | null)[]> {
+		// Serve keys written in the current batch, fetch the others
+		const { pending } = this;
+		if (pending && keys.some((key) => pending.has(key))) {
+			const missing = keys.filter((key) => !pending.has(key));
+			const fetched =
+				missing.length > 0 ? await this.safe_get_many_unbuffered(missing) : [];
+			let i = 0;
+			return keys.map((key) => pending.get(key) ?? fetched[i++]);
+		}
+		return this.safe_get_many_unbuffered(keys);
+	}
+
+	/**
+	 * Retrieve multiple keys from the client, splitting the request on failure
+	 */
+	private async safe_get_many_unbuffered(
+		keys: string[],
+	): Promise<(string | null)[]> {
 		try {
 			return await this.client.getMany(keys);
 		} catch (err) {
+			// A single read can't be split any further
+			if (keys.length <= 1) throw err;
+
 			// TODO: check error type
 			const half = Math.floor(keys.length >> 1);
 
 			// prettier-ignore
 			return await Promise.all([
-				this.safe_get_many(keys.slice(0, half)),
-				this.safe_get_many(keys.slice(half)),
+				this.safe_get_many_unbuffered(keys.slice(0, half)),
+				this.safe_get_many_unbuffered(keys.slice(half)),
 			]).then((results) => results.flat());
 		}
 	}
@@ -352,12 +656,23 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	private async safe_set_many(
 		entries: [key: string, value: string][],
 	): Promise<void> {
+		// Inside a batch, hold the writes back until it is flushed
+		if (this.pending) {
+			for (const [key, value] of entries) {
+				this.pending.set(key, value);
+			}
+			return;
+		}
+
 		try {
 			await this.client.setMany(
 				entries.map((e) => e[0]),
 				entries.map((e) => e[1]),
 			);
 		} catch (err) {
+			// A single write can't be split any further
+			if (entries.length <= 1) throw err;
+
 			//TODO: check error type
 			const half = Math.floor(entries.length >> 1);
 
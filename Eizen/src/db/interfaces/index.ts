@@ -1,4 +1,10 @@
-import type { Graph, LayerNode, Point } from "../../types";
+import type {
+	DistanceMetric,
+	Graph,
+	LayerNode,
+	Point,
+	QuantizerState,
+} from "../../types";
 
 /**
  * Database interface for HNSW (Hierarchical Navigable Small World) implementation.
@@ -37,8 +43,13 @@ export interface DBInterface<M = unknown> {
 	/**
 	 * Batch update/insert of neighbor connections.
 	 * More efficient than multiple individual upsert_neighbor calls.
+	 * Nodes are written visible unless `visible` is false.
 	 */
-	upsert_neighbors(layer: number, nodes: Graph): Promise<void>;
+	upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		visible?: boolean,
+	): Promise<void>;
 
 	/**
 	 * Returns the total number of layers in the HNSW structure.
@@ -46,6 +57,18 @@ export interface DBInterface<M = unknown> {
 	 */
 	get_num_layers(): Promise<number>;
 
+	/**
+	 * Overwrites the total number of layers.
+	 * Used when removing the entry point leaves the top layers empty.
+	 */
+	set_num_layers(n: number): Promise<void>;
+
+	/**
+	 * Batch check of which nodes exist in a given layer.
+	 * Returns array with same length as input.
+	 */
+	has_neighbors(layer: number, idxs: number[]): Promise<boolean[]>;
+
 	/////////////// POINT STORAGE OPERATIONS ///////////////
 
 	/**
@@ -56,6 +79,12 @@ export interface DBInterface<M = unknown> {
 	 */
 	new_point(q: Point): Promise<number>;
 
+	/**
+	 * Overwrites the vector stored at an existing index.
+	 * The graph connections of the point are left untouched.
+	 */
+	set_point(idx: number, q: Point): Promise<void>;
+
 	/**
 	 * Retrieves a single point by its index.
 	 */
@@ -68,6 +97,13 @@ export interface DBInterface<M = unknown> {
 	 */
 	get_points(idxs: number[]): Promise<Point[]>;
 
+	/**
+	 * Batch retrieval of the full-precision vectors of multiple points.
+	 * Product-quantized indexes keep these next to the codes, for reranking;
+	 * any other index returns the same vectors as `get_points`.
+	 */
+	get_exact_points(idxs: number[]): Promise<Point[]>;
+
 	/**
 	 * Returns the total number of points stored in the database.
 	 * Equivalent to the next index that would be assigned to a new point.
@@ -90,6 +126,37 @@ export interface DBInterface<M = unknown> {
 	 */
 	set_ep(ep: number): Promise<void>;
 
+	/////////////// DISTANCE METRIC ///////////////
+
+	/**
+	 * Gets the distance metric the index was built with.
+	 *
+	 * @returns The stored metric, or null if none has been recorded yet
+	 */
+	get_metric(): Promise<DistanceMetric | null>;
+
+	/**
+	 * Records the distance metric of the index.
+	 * Should only be set once, when the first point is inserted.
+	 */
+	set_metric(metric: DistanceMetric): Promise<void>;
+
+	/////////////// QUANTIZATION ///////////////
+
+	/**
+	 * Gets the quantizer calibration of the index.
+	 * Points are stored quantized once it is set.
+	 *
+	 * @returns The calibration, or null for indexes storing full-precision vectors
+	 */
+	get_quantizer(): Promise<QuantizerState | null>;
+
+	/**
+	 * Records the quantizer calibration of the index.
+	 * Must be set before the first point is inserted, and never changed afterwards.
+	 */
+	set_quantizer(state: QuantizerState): Promise<void>;
+
 	/////////////// METADATA OPERATIONS ///////////////
 
 	/**
@@ -111,4 +178,67 @@ export interface DBInterface<M = unknown> {
 	 * Overwrites existing metadata if present.
 	 */
 	set_metadata(idx: number, data: M): Promise<void>;
+
+	/////////////// DELETION OPERATIONS ///////////////
+
+	/**
+	 * Marks a point as deleted (tombstoned) or visible again, on every layer it belongs to.
+	 * Tombstoned points stay in the graph for navigation but are never returned by searches.
+	 */
+	set_visible(idx: number, visible: boolean): Promise<void>;
+
+	/**
+	 * Batch retrieval of visibility flags for multiple points.
+	 * Returns false for tombstoned (or missing) points.
+	 */
+	get_visibles(idxs: number[]): Promise<boolean[]>;
+
+	/////////////// BATCHING ///////////////
+
+	/**
+	 * Runs several operations with their writes grouped into as few
+	 * transactions as possible. Reads inside the batch see its pending writes,
+	 * and nothing is written if the operations throw. A flush split over
+	 * several transactions may be partially stored if it fails.
+	 *
+	 * @returns The result of the operations
+	 */
+	batch<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Minimal key-value client the storage layer is built on.
+ *
+ * HollowDB's `SetSDK` satisfies it, as do the in-memory and SQLite clients,
+ * so the same `EizenMemory` logic runs on every backend.
+ */
+export interface KVClient {
+	/** Returns the value stored at a key, or null if there is none */
+	get(key: string): Promise<string | null>;
+
+	/** Batch version of `get`, returning values in the same order as the keys */
+	getMany(keys: string[]): Promise<(string | null)[]>;
+
+	/** Stores a value at a key, overwriting any previous value */
+	set(key: string, value: string): Promise<void>;
+
+	/** Batch version of `set`, keys and values must have the same length */
+	setMany(keys: string[], values: string[]): Promise<void>;
+}
+
+/**
+ * Key-value store used to cache database reads.
+ *
+ * Implemented in-process by `LRUCache`; remote stores (e.g. Redis) can be
+ * plugged in by implementing the same three batch operations.
+ */
+export interface CacheStore {
+	/** Returns the cached values in the same order as the keys, null on a miss */
+	get(keys: string[]): Promise<(string | null)[]>;
+
+	/** Caches several key-value pairs */
+	set(entries: [key: string, value: string][]): Promise<void>;
+
+	/** Evicts several keys, ignoring the ones that are not cached */
+	delete(keys: string[]): Promise<void>;
 }
@@ -0,0 +1,262 @@
+import { expect, test, vi } from "vitest";
+import { EizenMemory } from "./db";
+import { MemoryKV } from "./db/clients/memory";
+import { HNSW } from "./hnsw";
+
+type Metadata = Record<string, number>;
+
+// Small m so that a handful of points already spans several layers
+const memoryIndex = () =>
+	new HNSW<Metadata>(new EizenMemory(new MemoryKV()), 5, 64, 20);
+
+const randomVector = (dim: number) =>
+	Array.from({ length: dim }, () => Math.random() * 2 - 1);
+
+test("hard_delete of the only point leaves an index later inserts connect to", async () => {
+	// Layers are drawn at random, repeat to cover new points landing below the old ones
+	for (let run = 0; run < 20; run++) {
+		const vectordb = memoryIndex();
+		await vectordb.insert(randomVector(8));
+		await vectordb.hard_delete(0);
+
+		const points = Array.from({ length: 5 }, () => randomVector(8));
+		for (const point of points) {
+			await vectordb.insert(point);
+		}
+
+		const results = await vectordb.knn_search(points[0], 5);
+		expect(results.map(({ id }) => id).sort()).toEqual([1, 2, 3, 4, 5]);
+		expect(results[0].id).toBe(1);
+	}
+});
+
+test("delete hides a point from searches, which still route through it", async () => {
+	const vectordb = memoryIndex();
+	const points = Array.from({ length: 20 }, () => randomVector(8));
+	for (const [i, point] of points.entries()) {
+		await vectordb.insert(point, { n: i });
+	}
+
+	const [first] = await vectordb.knn_search(points[7], 1);
+	expect(first).toMatchObject({ id: 7, metadata: { n: 7 } });
+	expect(first.distance).toBeCloseTo(0);
+
+	await vectordb.delete(7);
+	const results = await vectordb.knn_search(points[7], 19);
+	expect(results).toHaveLength(19);
+	expect(results.map(({ id }) => id)).not.toContain(7);
+	expect(await vectordb.db.get_visibles([7, 8])).toEqual([false, true]);
+
+	// Its connections are kept, so the graph around it stays navigable
+	const [connected] = await vectordb.db.has_neighbors(0, [7]);
+	expect(connected).toBe(true);
+	expect(Object.keys(await vectordb.db.get_neighbor(0, 7))).not.toHaveLength(0);
+
+	await expect(vectordb.delete(20)).rejects.toThrow("No point with index 20");
+});
+
+test("update moves a point to its new vector, keeping its index", async () => {
+	const vectordb = memoryIndex();
+	for (let i = 0; i < 20; i++) {
+		await vectordb.insert(randomVector(8), { n: i });
+	}
+
+	const moved = randomVector(8);
+	await vectordb.update(3, moved, { n: 42 });
+
+	const [first] = await vectordb.knn_search(moved, 1);
+	expect(first).toMatchObject({ id: 3, metadata: { n: 42 } });
+	expect(first.distance).toBeCloseTo(0);
+	expect(await vectordb.db.get_datasize()).toBe(20);
+
+	// Every other point is still reachable after the point was relinked
+	const results = await vectordb.knn_search(moved, 20);
+	expect(results.map(({ id }) => id).sort((a, b) => a - b)).toEqual(
+		Array.from({ length: 20 }, (_, i) => i),
+	);
+
+	await vectordb.delete(3);
+	await expect(vectordb.update(3, moved)).rejects.toThrow(
+		"No point with index 3",
+	);
+});
+
+test("searches keep finding visible points among soft and hard deleted ones", async () => {
+	const vectordb = memoryIndex();
+	for (let i = 0; i < 400; i++) {
+		await vectordb.insert(randomVector(8));
+	}
+	for (let i = 0; i < 400; i++) {
+		if (i % 5 === 0) await vectordb.hard_delete(i);
+		else if (i % 3 === 0) await vectordb.delete(i);
+		else if (i % 7 === 0) await vectordb.update(i, randomVector(8));
+	}
+
+	// Hard deleted points are left without connections, searches must route around them
+	const removed = Array.from({ length: 80 }, (_, i) => i * 5);
+	const nodes = await vectordb.db.get_neighbors(0, removed);
+	expect(
+		Object.values(nodes).every((node) => Object.keys(node).length === 0),
+	).toBe(true);
+
+	for (let query = 0; query < 50; query++) {
+		const results = await vectordb.knn_search(randomVector(8), 5);
+		expect(results).toHaveLength(5);
+		for (const { id } of results) {
+			expect(id % 5 !== 0 && id % 3 !== 0).toBe(true);
+		}
+	}
+});
+
+test("compact removes tombstoned points from the graph, once", async () => {
+	const kv = new MemoryKV();
+	const vectordb = new HNSW(new EizenMemory(kv), 5, 64, 20);
+	for (let i = 0; i < 100; i++) {
+		await vectordb.insert(randomVector(8));
+	}
+	const deleted = Array.from({ length: 20 }, (_, i) => i * 5);
+	for (const idx of deleted) {
+		await vectordb.delete(idx);
+	}
+
+	expect(await vectordb.compact()).toBe(20);
+
+	// No visible point links to a deleted one anymore
+	const visible = Array.from({ length: 100 }, (_, i) => i).filter(
+		(i) => i % 5 !== 0,
+	);
+	for (let layer = 0; layer < (await vectordb.db.get_num_layers()); layer++) {
+		const exists = await vectordb.db.has_neighbors(layer, visible);
+		const nodes = await vectordb.db.get_neighbors(
+			layer,
+			visible.filter((_, i) => exists[i]),
+		);
+		for (const node of Object.values(nodes)) {
+			expect(Object.keys(node).filter((k) => Number(k) % 5 === 0)).toEqual([]);
+		}
+	}
+
+	// Points removed by the previous run are not processed again
+	const set = vi.spyOn(kv, "set");
+	const setMany = vi.spyOn(kv, "setMany");
+	expect(await vectordb.compact()).toBe(0);
+	expect(set).not.toHaveBeenCalled();
+	expect(setMany).not.toHaveBeenCalled();
+
+	await vectordb.delete(1);
+	expect(await vectordb.compact()).toBe(1);
+
+	const results = await vectordb.knn_search(randomVector(8), 10);
+	expect(results).toHaveLength(10);
+	expect(results.every(({ id }) => id % 5 !== 0 && id !== 1)).toBe(true);
+});
+
+test("each metric ranks points by its own distance", async () => {
+	const points = [
+		[1, 0],
+		[10, 0],
+		[0.6, 0.8],
+	];
+	const nearest = async (metric: "cosine" | "l2" | "ip") => {
+		const vectordb = new HNSW(
+			new EizenMemory(new MemoryKV()),
+			5,
+			64,
+			20,
+			metric,
+		);
+		await vectordb.insert_many(points);
+		return vectordb.knn_search([2, 0], 3);
+	};
+
+	const l2 = await nearest("l2");
+	expect(l2.map(({ id }) => id)).toEqual([0, 2, 1]);
+	expect(l2[0].distance).toBeCloseTo(1);
+
+	// Larger dot products rank first, their distance is negated
+	const ip = await nearest("ip");
+	expect(ip.map(({ id }) => id)).toEqual([1, 0, 2]);
+	expect(ip[0].distance).toBeCloseTo(-20);
+
+	// Only directions count
+	const cosine = await nearest("cosine");
+	expect(cosine.map(({ distance }) => distance)).toEqual([
+		expect.closeTo(0),
+		expect.closeTo(0),
+		expect.closeTo(0.4),
+	]);
+});
+
+test("an index can't be opened with another metric than it was built with", async () => {
+	const db = new EizenMemory(new MemoryKV());
+	await new HNSW(db, 5, 64, 20, "l2").insert([1, 2]);
+
+	await expect(
+		new HNSW(db, 5, 64, 20, "cosine").knn_search([1, 2], 1),
+	).rejects.toThrow(
+		'Index was built with the "l2" distance metric, but "cosine" was requested',
+	);
+	await expect(new HNSW(db, 5, 64, 20, "ip").insert([3, 4])).rejects.toThrow(
+		'"l2" distance metric',
+	);
+	expect(await new HNSW(db, 5, 64, 20, "l2").knn_search([1, 2], 1)).toEqual([
+		{ id: 0, distance: 0, metadata: null },
+	]);
+});
+
+test("filtered searches return k matching points, even past ef", async () => {
+	const vectordb = memoryIndex();
+	for (let i = 0; i < 300; i++) {
+		await vectordb.insert(randomVector(8), { group: i % 10 });
+	}
+	await vectordb.delete(3);
+
+	// 29 visible points match, more than ef (20)
+	const results = await vectordb.knn_search(
+		randomVector(8),
+		25,
+		(metadata) => metadata?.group === 3,
+	);
+	expect(results).toHaveLength(25);
+	expect(results.every(({ metadata }) => metadata?.group === 3)).toBe(true);
+	expect(results.map(({ id }) => id)).not.toContain(3);
+	const distances = results.map(({ distance }) => distance);
+	expect(distances).toEqual([...distances].sort((a, b) => a - b));
+
+	// The whole graph is traversed before giving up on a filter
+	const all = await vectordb.knn_search(
+		randomVector(8),
+		50,
+		(metadata) => metadata?.group === 3,
+	);
+	expect(all).toHaveLength(29);
+	expect(
+		await vectordb.knn_search(randomVector(8), 5, (metadata) => !metadata),
+	).toEqual([]);
+});
+
+test("insert_many stores every point or, when an insertion fails, none", async () => {
+	const kv = new MemoryKV();
+	const vectordb = new HNSW<Metadata>(new EizenMemory(kv), 5, 64, 20);
+	const points = Array.from({ length: 30 }, () => randomVector(8));
+
+	const setMany = vi.spyOn(kv, "setMany");
+	const ids = await vectordb.insert_many(
+		points,
+		points.map((_, i) => ({ n: i })),
+	);
+	expect(ids).toEqual(Array.from({ length: 30 }, (_, i) => i));
+	expect(setMany).toHaveBeenCalledTimes(1);
+	const [first] = await vectordb.knn_search(points[12], 1);
+	expect(first).toMatchObject({ id: 12, metadata: { n: 12 } });
+
+	const stored = new Map(kv.store);
+	const insert = vi.spyOn(vectordb, "insert");
+	insert.mockImplementationOnce(HNSW.prototype.insert);
+	insert.mockRejectedValueOnce(new Error("Insertion failed"));
+	await expect(
+		vectordb.insert_many([randomVector(8), randomVector(8)]),
+	).rejects.toThrow("Insertion failed");
+	expect(kv.store).toEqual(stored);
+	expect(await vectordb.db.get_datasize()).toBe(30);
+});
@@ -1,6 +1,18 @@
 import type { DBInterface } from "./db/interfaces";
-import type { KNNResult, LayerNode, Node, Point } from "./types";
-import { NodeHeap, compareNode, cosine_distance } from "./utils";
+import { train_quantizer } from "./quantization";
+import type {
+	DistanceMetric,
+	Graph,
+	KNNResult,
+	LayerNode,
+	MetadataFilter,
+	NeighborSelection,
+	Node,
+	NodeFilter,
+	Point,
+	QuantizationOptions,
+} from "./types";
+import { NodeHeap, compareNode, distance_functions } from "./utils";
 
 /**
  * Hierarchical Navigable Small Worlds (HNSW) Implementation
@@ -25,6 +37,20 @@ export class HNSW<M = unknown> {
 	ml: number;
 	ef_construction: number;
 	ef: number;
+	/** Distance metric used to compare points, stored in the index on first insert */
+	metric: DistanceMetric;
+	/** Distance function matching the metric */
+	distance: (a: Point, b: Point) => number;
+	/** Whether the stored metric has already been checked against this instance */
+	private metric_checked = false;
+	/** Compression of stored vectors, calibrated and stored in the index on first insert */
+	quantization: QuantizationOptions;
+	/** Whether the stored quantizer has already been checked against this instance */
+	private quantization_checked = false;
+	/** Whether neighbor selection also considers the neighbors of the candidates */
+	extend_candidates: boolean;
+	/** Whether neighbor selection fills free slots with discarded candidates */
+	keep_pruned_connections: boolean;
 
 	/**
 	 * Constructs a new HNSW index with the specified parameters.
@@ -33,12 +59,18 @@ export class HNSW<M = unknown> {
 	 * @param M Maximum number of connections per node (recommended: 16, range: [5-48])
 	 * @param ef_construction Size of candidate list during construction (recommended: 200)
 	 * @param ef_search Size of candidate list during search (recommended: 50, must be >= k)
+	 * @param metric Distance metric, must match the one the index was built with (default: cosine)
+	 * @param quantization Compression of stored vectors, must match the one the index was built with (default: none)
+	 * @param selection Options of the neighbor selection heuristic (default: no extension, keep pruned connections)
 	 */
 	constructor(
 		db: DBInterface<M>,
 		M: number,
 		ef_construction: number,
 		ef_search: number,
+		metric: DistanceMetric = "cosine",
+		quantization: QuantizationOptions = { type: "none" },
+		selection: NeighborSelection = {},
 	) {
 		this.db = db;
 
@@ -50,13 +82,125 @@ export class HNSW<M = unknown> {
 		// Search quality parameters
 		this.ef_construction = ef_construction;
 		this.ef = ef_search;
+
+		// Distance metric
+		if (!(metric in distance_functions)) {
+			throw new Error(`Unknown distance metric: ${metric}`);
+		}
+		this.metric = metric;
+		this.distance = distance_functions[metric];
+
+		// Vector compression
+		if (!["none", "int8", "uint8", "pq"].includes(quantization.type)) {
+			throw new Error(`Unknown quantization: ${quantization.type}`);
+		}
+		this.quantization = quantization;
+
+		// Neighbor selection heuristic
+		this.extend_candidates = selection.extendCandidates ?? false;
+		this.keep_pruned_connections = selection.keepPrunedConnections ?? true;
+	}
+
+	/**
+	 * Verifies that the index was built with the same distance metric as this instance.
+	 *
+	 * The metric is recorded when the first point is inserted. Indexes created before
+	 * metrics were recorded are assumed to use cosine distance, the former hardcoded one.
+	 * The database is only read once per instance.
+	 *
+	 * @throws {Error} If the index was built with a different metric
+	 */
+	async check_metric() {
+		if (this.metric_checked) return;
+
+		let stored = await this.db.get_metric();
+		if (stored === null) {
+			if ((await this.db.get_datasize()) === 0) {
+				await this.db.set_metric(this.metric);
+				stored = this.metric;
+			} else {
+				stored = "cosine";
+			}
+		}
+
+		if (stored !== this.metric) {
+			throw new Error(
+				`Index was built with the "${stored}" distance metric, but "${this.metric}" was requested`,
+			);
+		}
+		this.metric_checked = true;
+	}
+
+	/**
+	 * Verifies that the index stores vectors with the same quantization as this instance.
+	 *
+	 * Indexes holding points but no quantizer store full-precision vectors. An empty,
+	 * uncalibrated index is calibrated from `samples` when they are given (i.e. on the
+	 * first insert), see `calibrate`. The database is only read once per instance.
+	 *
+	 * @param samples Vectors about to be inserted, used to calibrate an empty index
+	 * @throws {Error} If the index was built with a different quantization
+	 */
+	async check_quantization(samples?: Point[]) {
+		if (this.quantization_checked) return;
+
+		const stored = await this.db.get_quantizer();
+		if (stored === null && (await this.db.get_datasize()) === 0) {
+			if (this.quantization.type === "none") {
+				this.quantization_checked = true;
+			} else if (samples) {
+				await this.calibrate(samples);
+			}
+			return;
+		}
+
+		const type = stored?.type ?? "none";
+		if (type !== this.quantization.type) {
+			throw new Error(
+				`Index was built with "${type}" quantization, but "${this.quantization.type}" was requested`,
+			);
+		}
+		this.quantization_checked = true;
+	}
+
+	/**
+	 * Calibrates the quantizer of an empty index and stores it.
+	 *
+	 * Scalar quantization records the min/max component value of the samples, and
+	 * later values outside of that range are clamped. Product quantization trains
+	 * its codebooks on the samples and needs at least 256 of them.
+	 *
+	 * Without an explicit call the index is calibrated on the vectors of the first
+	 * insert, which is fine for `insert_many` but a single vector is a poor sample:
+	 * calibrate with vectors representative of the data whenever possible.
+	 *
+	 * @param samples Vectors representative of the data to index
+	 * @throws {Error} If the index is not quantized, or already holds points
+	 *
+	 * @example
+	 * ```typescript
+	 * const hnsw = new HNSW(db, 16, 200, 50, "cosine", { type: "pq", subvectors: 48 });
+	 * await hnsw.calibrate(sampleEmbeddings); // at least 256 vectors
+	 * ```
+	 */
+	async calibrate(samples: Point[]) {
+		if (this.quantization.type === "none") {
+			throw new Error("Only quantized indexes can be calibrated");
+		}
+		if ((await this.db.get_datasize()) > 0) {
+			throw new Error("Quantization can only be calibrated on an empty index");
+		}
+
+		await this.db.set_quantizer(train_quantizer(this.quantization, samples));
+		this.quantization_checked = true;
 	}
 
 	/**
 	 * Retrieves a vector and its associated metadata by index.
 	 *
 	 * This is a convenience method that fetches both the vector data and any
-	 * metadata stored with it in a single operation.
+	 * metadata stored with it in a single operation. Scalar-quantized indexes
+	 * return the decoded, approximate vector.
 	 *
 	 * @param idx The index of the vector to retrieve
 	 * @returns Object containing the vector data and metadata (null if no metadata exists)
@@ -72,7 +216,7 @@ export class HNSW<M = unknown> {
 		point: Point;
 		metadata: M | null;
 	}> {
-		const point = await this.db.get_point(idx);
+		const [point] = await this.db.get_exact_points([idx]);
 		const metadata = await this.db.get_metadata(idx);
 		return { point, metadata };
 	}
@@ -119,11 +263,15 @@ export class HNSW<M = unknown> {
 	 *
 	 * @param q The vector to insert (array of numbers representing the point in space)
 	 * @param metadata Optional metadata to associate with this point (e.g., document ID, labels)
+	 * @returns The index assigned to the new point
 	 *
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 1 (page 7)
 	 */
-	async insert(q: Point, metadata?: M) {
+	async insert(q: Point, metadata?: M): Promise<number> {
+		await this.check_metric();
+		await this.check_quantization([q]);
+
 		// Get current state of the index
 		const ep_index = await this.db.get_ep();
 		const L = (await this.db.get_num_layers()) - 1; // Current top layer (0-indexed)
@@ -137,75 +285,30 @@ export class HNSW<M = unknown> {
 
 		// CASE 1: Index is not empty - need to find entry point and insert into layers
 		if (ep_index !== null) {
-			const dist = cosine_distance(q, await this.db.get_point(ep_index));
+			const dist = this.distance(q, await this.db.get_point(ep_index));
 
 			// PHASE 1: Search from top layer (L) down to layer (l+1) to find entry point
 			// This is a greedy search that finds the closest point in each layer
-			let ep = [[dist, ep_index] as Node];
-			for (let i = L; i > l; i--) {
-				const ep_copy: Node[] = ep.map((e) => [e[0], e[1]]);
-
-				// Search with ef=1 (only find the single closest neighbor)
-				const W = await this.search_layer(q, ep_copy, 1, i);
-
-				// Update entry point if we found something closer
-				if (W.length > 0 && ep[0][0] > W[0][0]) {
-					ep = W;
-				}
-			}
+			let ep = await this.route(q, [[dist, ep_index]], L, l);
 
 			// PHASE 2: Insert the point into each layer from min(L, l) down to 0
 			for (let l_c = Math.min(L, l); l_c >= 0; l_c--) {
 				// Search for neighbors in current layer with larger candidate list
 				const W = await this.search_layer(q, ep, this.ef_construction, l_c);
-				const newNode: LayerNode = {}; // Connections for the new point
 
 				// Update entry point for next layer
 				ep = W.map((e) => [e[0], e[1]] as Node);
 
-				// Select the best neighbors using Algorithm 4 (neighbor selection heuristic)
-				const neighbors = this.select_neighbors(q, W, l_c);
-				const indices = neighbors.map(([, idx]) => idx);
-				const nodes = await this.db.get_neighbors(l_c, indices);
-
-				// Determine maximum connections allowed for this layer
-				const M = l_c === 0 ? this.m_max0 : this.m;
-
-				// PHASE 3: Create bidirectional connections between new point and selected neighbors
-				for (const e of neighbors) {
-					newNode[e[1]] = e[0]; // Connect new point to neighbor
-					nodes[e[1]][idx] = e[0]; // Connect neighbor back to new point
-				}
-
-				// PHASE 4: Prune connections if any neighbor now has too many connections
-				for (const e of neighbors) {
-					// Get all connections for this neighbor
-					const eConn = Object.entries(nodes[e[1]]).map(
-						([k, v]) => [v, Number.parseInt(k)] as Node,
-					);
-
-					// If neighbor has too many connections, prune to the best ones
-					if (eConn.length > M) {
-						// Use neighbor selection heuristic to keep only the best connections
-						const eNewConn = this.select_neighbors(
-							await this.db.get_point(e[1]),
-							eConn,
-							l_c,
-						);
-
-						// Convert selected connections back to dictionary format
-						const dict: Record<number, number> = {};
-						for (const eNew of eNewConn) {
-							dict[eNew[1]] = eNew[0];
-						}
-
-						nodes[e[1]] = dict; // Update neighbor's connection list
-					}
-				}
+				// Tombstoned points still route the search but never receive new connections
+				const visible = await this.db.get_visibles(W.map(([, id]) => id));
 
-				// Save the new connections to the database
-				await this.db.upsert_neighbor(l_c, idx, newNode);
-				await this.db.upsert_neighbors(l_c, nodes);
+				// PHASE 3 & 4: Link the new point to its best neighbors and prune overfull ones
+				await this.connect(
+					idx,
+					q,
+					W.filter((_, i) => visible[i]),
+					l_c,
+				);
 			}
 		}
 
@@ -221,6 +324,232 @@ export class HNSW<M = unknown> {
 		for (let i = LL; i < l + 1; i++) {
 			await this.db.new_neighbor(idx);
 		}
+
+		return idx;
+	}
+
+	/**
+	 * Inserts several points at once, grouping their database writes.
+	 *
+	 * Points are inserted one after the other exactly as with `insert`, but every
+	 * write is held back and flushed in as few transactions as possible at the end.
+	 * Either all points are stored or, if an insertion fails, none of them.
+	 * An empty quantized index is calibrated on all the points.
+	 *
+	 * @param points The vectors to insert
+	 * @param metadatas Optional metadata for each vector, in the same order
+	 * @returns The indices assigned to the new points, in the same order
+	 *
+	 * @example
+	 * ```typescript
+	 * const ids = await hnsw.insert_many(
+	 *   [[0.1, 0.2, 0.3], [0.4, 0.5, 0.6]],
+	 *   [{ title: 'first' }, { title: 'second' }],
+	 * );
+	 * ```
+	 */
+	async insert_many(points: Point[], metadatas?: (M | undefined)[]) {
+		try {
+			return await this.db.batch(async () => {
+				await this.check_quantization(points);
+
+				const idxs: number[] = [];
+				for (let i = 0; i < points.length; i++) {
+					idxs.push(await this.insert(points[i], metadatas?.[i]));
+				}
+				return idxs;
+			});
+		} catch (err) {
+			// A metric or quantizer recorded by the batch was discarded with it
+			this.metric_checked = false;
+			this.quantization_checked = false;
+			throw err;
+		}
+	}
+
+	/**
+	 * Replaces the vector of an existing point and re-links it in the graph.
+	 *
+	 * On every layer the point belongs to, its old connections are removed and its
+	 * former neighbors reconnected (as in `hard_delete`), then it is linked to the
+	 * best neighbors of the new vector (as in `insert`). The point keeps its index,
+	 * its layers and, if it was the entry point, that role.
+	 *
+	 * @param idx The index of the point to update
+	 * @param q The new vector
+	 * @param metadata Optional metadata replacing the current one
+	 * @throws {Error} If no visible point exists at the given index
+	 *
+	 * @example
+	 * ```typescript
+	 * await hnsw.update(42, newEmbedding, { content: "favorite color is green" });
+	 * ```
+	 */
+	async update(idx: number, q: Point, metadata?: M) {
+		const [visible] = await this.db.get_visibles([idx]);
+		if (!visible) {
+			throw new Error(`No point with index ${idx}`);
+		}
+		await this.check_metric();
+		await this.check_quantization();
+
+		const ep_index = await this.db.get_ep();
+		const L = await this.db.get_num_layers();
+
+		// Find the highest layer the point belongs to
+		let top = 0;
+		for (let l_c = L - 1; l_c > 0; l_c--) {
+			const [exists] = await this.db.has_neighbors(l_c, [idx]);
+			if (exists) {
+				top = l_c;
+				break;
+			}
+		}
+
+		// PHASE 1: Detach the point from every layer, keeping track of its former neighbors
+		const orphans: Node[][] = [];
+		for (let l_c = top; l_c >= 0; l_c--) {
+			orphans[l_c] = await this.detach(idx, l_c);
+		}
+
+		await this.db.set_point(idx, q);
+		if (metadata) {
+			await this.db.set_metadata(idx, metadata);
+		}
+
+		// PHASE 2: Route from the entry point down to the point's top layer
+		let ep: Node[] = [];
+		if (ep_index !== null && ep_index !== idx) {
+			ep = await this.route(
+				q,
+				[[this.distance(q, await this.db.get_point(ep_index)), ep_index]],
+				L - 1,
+				top,
+			);
+		}
+
+		// PHASE 3: Link the point again on each of its layers
+		for (let l_c = top; l_c >= 0; l_c--) {
+			// If the point is the entry point, its former neighbors lead back into the layer
+			if (ep.length === 0 && orphans[l_c].length > 0) {
+				const ids = orphans[l_c].map(([, id]) => id);
+				const points = await this.db.get_points(ids);
+				ep = ids.map((id, i) => [this.distance(q, points[i]), id] as Node);
+			}
+			if (ep.length === 0) continue; // The point is alone in this layer
+
+			const W = await this.search_layer(q, ep, this.ef_construction, l_c);
+			ep = W.map((e) => [e[0], e[1]] as Node);
+
+			// Skip tombstoned points and the point itself, which may still be reachable
+			const visible = await this.db.get_visibles(W.map(([, id]) => id));
+			await this.connect(
+				idx,
+				q,
+				W.filter(([, id], i) => visible[i] && id !== idx),
+				l_c,
+			);
+		}
+	}
+
+	/**
+	 * Links a point to its best neighbors within a single layer.
+	 *
+	 * Selects neighbors among the candidates, creates bidirectional connections
+	 * and prunes neighbors that end up with too many connections.
+	 *
+	 * @param idx The index of the point being linked
+	 * @param q The vector of the point being linked
+	 * @param W Candidate neighbors with their distances to q: [distance, point_id]
+	 * @param l_c The layer to link in
+	 */
+	private async connect(idx: number, q: Point, W: Node[], l_c: number) {
+		const newNode: LayerNode = {}; // Connections for the point
+
+		// Select the best neighbors using Algorithm 4 (neighbor selection heuristic)
+		const neighbors = await this.select_neighbors(q, W, l_c);
+		const indices = neighbors.map(([, idx]) => idx);
+		const nodes = await this.db.get_neighbors(l_c, indices);
+
+		// Determine maximum connections allowed for this layer
+		const M = l_c === 0 ? this.m_max0 : this.m;
+
+		// Create bidirectional connections between the point and selected neighbors
+		for (const e of neighbors) {
+			newNode[e[1]] = e[0]; // Connect point to neighbor
+			nodes[e[1]][idx] = e[0]; // Connect neighbor back to point
+		}
+
+		// Prune connections if any neighbor now has too many connections
+		for (const e of neighbors) {
+			// Get all connections for this neighbor
+			const eConn = Object.entries(nodes[e[1]]).map(
+				([k, v]) => [v, Number.parseInt(k)] as Node,
+			);
+
+			// If neighbor has too many connections, prune to the best ones
+			if (eConn.length > M) {
+				// Use neighbor selection heuristic to keep only the best connections
+				const eNewConn = await this.select_neighbors(
+					await this.db.get_point(e[1]),
+					eConn,
+					l_c,
+					e[1],
+				);
+
+				// Convert selected connections back to dictionary format
+				const dict: Record<number, number> = {};
+				for (const eNew of eNewConn) {
+					dict[eNew[1]] = eNew[0];
+				}
+
+				nodes[e[1]] = dict; // Update neighbor's connection list
+			}
+		}
+
+		// Save the new connections to the database
+		await this.db.upsert_neighbor(l_c, idx, newNode);
+		await this.db.upsert_neighbors(l_c, nodes);
+	}
+
+	/**
+	 * Routes a query greedily through the upper layers, from `top` down to `bottom` (excluded).
+	 *
+	 * Each layer is searched with ef=1 from the closest point found on the layer
+	 * above. Tombstoned points route like visible ones, but a point removed by
+	 * `hard_delete` has no connections left and would end the search there, so
+	 * it is never picked even when a one-way connection still leads to it.
+	 *
+	 * @param q The query vector
+	 * @param ep The entry point on the top layer
+	 * @param top The first layer to search
+	 * @param bottom The layer whose entry point is returned
+	 * @returns The closest routable point found, to enter layer `bottom` from
+	 */
+	private async route(
+		q: Point,
+		ep: Node[],
+		top: number,
+		bottom: number,
+	): Promise<Node[]> {
+		for (let l_c = top; l_c > bottom; l_c--) {
+			const routable: NodeFilter = async (idxs) => {
+				const visible = await this.db.get_visibles(idxs);
+				const tombstoned = idxs.filter((_, i) => !visible[i]);
+				if (tombstoned.length === 0) return visible;
+
+				const nodes = await this.db.get_neighbors(l_c, tombstoned);
+				return idxs.map(
+					(idx, i) => visible[i] || Object.keys(nodes[idx]).length > 0,
+				);
+			};
+
+			const W = await this.search_layer(q, ep, 1, l_c, routable);
+			if (W.length > 0 && ep[0][0] > W[0][0]) {
+				ep = W;
+			}
+		}
+		return ep;
 	}
 
 	/**
@@ -242,6 +571,8 @@ export class HNSW<M = unknown> {
 	 * @param ep Array of entry points to start the search from (typically 1 point, but can be multiple)
 	 * @param ef Maximum number of neighbors to return (controls search scope vs speed)
 	 * @param l_c The layer to search in (0 = base layer with all points, higher = sparser layers)
+	 * @param accept Optional predicate restricting which points may be returned. Rejected points
+	 *               are still expanded, so the search keeps going until `ef` accepted points are found
 	 *
 	 * @returns Array of [distance, point_id] pairs representing the closest neighbors found
 	 *
@@ -255,16 +586,29 @@ export class HNSW<M = unknown> {
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 2 (page 8)
 	 */
-	async search_layer(q: Point, ep: Node[], ef: number, l_c: number) {
+	async search_layer(
+		q: Point,
+		ep: Node[],
+		ef: number,
+		l_c: number,
+		accept?: NodeFilter,
+	) {
 		// Initialize visited set with entry points to avoid revisiting them
 		const V = new Set<number>(ep.map(([, id]) => id));
 
 		// Candidates queue (min-heap): points to explore next, ordered by distance to query
 		const C = new NodeHeap(ep);
 
+		// Only accepted entry points can be part of the results
+		const epAccepted = accept
+			? await accept(ep.map(([, id]) => id))
+			: ep.map(() => true);
+
 		// Dynamic list (max-heap): current best neighbors found
 		// We negate distances to turn min-heap into max-heap (furthest neighbor at top)
-		const W = new NodeHeap(ep.map(([mdist, p]) => [-mdist, p]));
+		const W = new NodeHeap(
+			ep.filter((_, i) => epAccepted[i]).map(([mdist, p]) => [-mdist, p]),
+		);
 
 		// Main search loop: expand outward from entry points
 		while (!C.isEmpty()) {
@@ -273,13 +617,17 @@ export class HNSW<M = unknown> {
 
 			const c_v: number = c[0]; // Distance from query to candidate
 			const topW = W.top(1)[0];
-			if (!topW) break; // Safety check for empty heap
+			if (!topW && !accept) break; // Safety check for empty heap
 
-			const f_dist = -topW[0]; // Distance to furthest point in results (undo negation)
+			// Distance to furthest point in results (undo negation)
+			// With a filter the results may still be empty, in which case nothing is out of reach
+			const f_dist = topW ? -topW[0] : Number.POSITIVE_INFINITY;
 
 			// Stopping condition: if closest candidate is further than furthest result,
-			// we won't find any better neighbors, so stop searching
-			if (c_v > f_dist) {
+			// we won't find any better neighbors, so stop searching.
+			// With a filter we only stop once the results are full, since rejected
+			// points may lead to accepted ones further away
+			if (c_v > f_dist && (!accept || W.length >= ef)) {
 				break;
 			}
 
@@ -291,7 +639,19 @@ export class HNSW<M = unknown> {
 
 			// Calculate distances from query to all neighbors
 			const points = await this.db.get_points(neighbors);
-			const dists = points.map((p) => cosine_distance(p, q));
+			const dists = points.map((p) => this.distance(p, q));
+
+			// Only ask the filter about neighbors that can still make it into the results
+			const reachable = neighbors.filter(
+				(_, i) => dists[i] < f_dist || W.length < ef,
+			);
+			const accepted = new Set<number>(reachable);
+			if (accept && reachable.length > 0) {
+				const flags = await accept(reachable);
+				reachable.forEach((e, i) => {
+					if (!flags[i]) accepted.delete(e);
+				});
+			}
 
 			// Process each neighbor
 			dists.forEach((dist, i) => {
@@ -303,6 +663,9 @@ export class HNSW<M = unknown> {
 				// 2. We don't have enough results yet (W.length < ef)
 				if (dist < f_dist || W.length < ef) {
 					C.push([dist, e]); // Add to candidates for future exploration
+
+					// Rejected neighbors are explored but never returned
+					if (!accepted.has(e)) return;
 					W.push([-dist, e]); // Add to results (with negated distance)
 
 					// If we have too many results, remove the furthest one
@@ -330,27 +693,28 @@ export class HNSW<M = unknown> {
 	}
 
 	/**
-	 * Selects the best neighbors from a candidate set using a simple heuristic.
+	 * Selects diverse neighbors from a candidate set using the neighbor selection heuristic.
 	 *
-	 * This implements Algorithm 4 from the HNSW paper (Simple heuristic for selecting neighbors).
-	 * The goal is to select diverse, high-quality connections that:
-	 * 1. Are close to the query point
-	 * 2. Provide good graph connectivity
-	 * 3. Don't create redundant paths
+	 * This implements Algorithm 4 from the HNSW paper (heuristic for selecting neighbors).
+	 * Candidates are considered from the closest to the furthest, and a candidate is only
+	 * selected if it is closer to the query point than to every neighbor selected so far.
+	 * Candidates that are already "covered" by a selected neighbor are discarded, so the
+	 * selected neighbors point in different directions. On clustered data this keeps the
+	 * links between clusters that greedily picking the closest candidates would drop.
 	 *
-	 * The algorithm works by:
-	 * 1. Always preferring closer neighbors first (greedy selection)
-	 * 2. Optionally keeping some pruned connections to maintain graph connectivity
+	 * Two options, set in the constructor, refine the selection:
+	 * - `extend_candidates`: the candidates' own neighbors in the layer are considered too
+	 * - `keep_pruned_connections`: slots left free by the pruning are filled with the
+	 *   closest discarded candidates
 	 *
-	 * This is a simplified version of the neighbor selection heuristic. The paper also
-	 * describes a more complex "extended heuristic" (Algorithm 4*) that considers
-	 * the distance between candidates to avoid clustering, but this implementation
-	 * uses the simpler approach for performance.
+	 * Candidate vectors are read from the database in one request (four more when
+	 * extending candidates), to measure the distances between candidates.
 	 *
 	 * @param q The query point (either a new point being inserted or existing point being pruned)
 	 * @param C Candidate neighbors with their distances: [distance, point_id]
 	 * @param l_c Current layer (affects maximum number of connections allowed)
-	 * @param keepPrunedConnections Whether to fill remaining slots with pruned candidates (recommended: true)
+	 * @param self Index of the query point when it is already in the graph, so that
+	 *             extending the candidates never selects it as its own neighbor
 	 *
 	 * @returns Array of selected neighbors, up to M (or M_max0 for layer 0) neighbors
 	 *
@@ -358,42 +722,66 @@ export class HNSW<M = unknown> {
 	 * ```typescript
 	 * // Select best neighbors for a point in layer 1
 	 * const candidates = [[0.1, 5], [0.2, 10], [0.15, 8], [0.3, 15]];
-	 * const selected = hnsw.select_neighbors(queryPoint, candidates, 1, true);
-	 * // Returns: [[0.1, 5], [0.15, 8]] (assuming M=2)
+	 * const selected = await hnsw.select_neighbors(queryPoint, candidates, 1);
+	 * // Returns: [[0.1, 5], [0.3, 15]] if point 8 and 10 are closer to 5 than to the query (M=2)
 	 * ```
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 4 (page 9)
 	 */
-	select_neighbors(
+	async select_neighbors(
 		q: Point,
 		C: Node[],
 		l_c: number,
-		keepPrunedConnections = true,
-	) {
-		// Priority queue for selected neighbors (min-heap by distance)
-		const R = new NodeHeap();
-		// Working copy of candidates (min-heap by distance)
-		const W = new NodeHeap(C);
+		self?: number,
+	): Promise<Node[]> {
 		// Maximum connections allowed for this layer
 		const M = l_c > 0 ? this.m : this.m_max0;
 
-		// Queue for discarded candidates (for potential reuse if keepPrunedConnections=true)
-		const W_d = new NodeHeap();
+		// Working queue of candidates (min-heap by distance)
+		const W = new NodeHeap(C.map(([dist, id]) => [dist, id] as Node));
+		const ids = C.map(([, id]) => id);
+		const vectors = new Map<number, Point>();
+		(await this.db.get_points(ids)).forEach((p, i) => vectors.set(ids[i], p));
+
+		// Optionally add the candidates' neighbors to the working queue
+		if (this.extend_candidates && ids.length > 0) {
+			// The point being inserted may be a candidate before its own node is stored
+			const exists = await this.db.has_neighbors(l_c, ids);
+			const linked = ids.filter((_, i) => exists[i]);
+			const nodes = await this.db.get_neighbors(l_c, linked);
+			const adjacent = new Set<number>();
+			for (const id of linked) {
+				for (const k of Object.keys(nodes[id])) {
+					const n = Number.parseInt(k);
+					if (n !== self && !vectors.has(n)) adjacent.add(n);
+				}
+			}
+
+			// Tombstoned points never receive new connections
+			const extra = [...adjacent];
+			const visible = await this.db.get_visibles(extra);
+			const alive = extra.filter((_, i) => visible[i]);
+			const points = await this.db.get_points(alive);
+			alive.forEach((n, i) => {
+				vectors.set(n, points[i]);
+				W.push([this.distance(q, points[i]), n]);
+			});
+		}
 
-		// PHASE 1: Greedy selection of closest neighbors
+		// Selected neighbors, and discarded candidates (both closest first)
+		const R: Node[] = [];
+		const W_d: Node[] = [];
+
+		// PHASE 1: Keep the candidates that are closer to q than to any selected neighbor
 		while (W.length > 0 && R.length < M) {
 			const e = W.pop(); // Get closest remaining candidate
 			if (!e) break; // Safety check for empty heap
 
-			const r_top = R.top(1)[0] as Node | undefined; // Current closest selected neighbor
-
-			// Select this candidate if:
-			// 1. No neighbors selected yet (R is empty), OR
-			// 2. This candidate is closer to query than our current closest selected neighbor
-			//
-			// Note: This is the "simple heuristic" - it just picks closest neighbors greedily
-			// The "extended heuristic" would also consider distances between candidates
-			if (R.length === 0 || (r_top && e[0] < r_top[0])) {
+			const v = vectors.get(e[1]) as Point;
+			const diverse = R.every(
+				([, r]) => e[0] < this.distance(v, vectors.get(r) as Point),
+			);
+			if (diverse) {
 				R.push([e[0], e[1]]);
 			} else {
 				// Candidate was not selected, save it for potential later use
@@ -402,18 +790,15 @@ export class HNSW<M = unknown> {
 		}
 
 		// PHASE 2: Fill remaining slots with pruned connections (if enabled)
-		// This helps maintain graph connectivity even when the greedy selection
-		// doesn't fill all available connection slots
-		if (keepPrunedConnections) {
-			while (W_d.length > 0 && R.length < M) {
-				const discarded = W_d.pop();
-				if (discarded) {
-					R.push(discarded);
-				}
+		// This keeps the degree of nodes up when the candidates are tightly clustered
+		if (this.keep_pruned_connections) {
+			for (const discarded of W_d) {
+				if (R.length >= M) break;
+				R.push(discarded);
 			}
 		}
 
-		return R.heapArray;
+		return R;
 	}
 
 	/**
@@ -436,6 +821,9 @@ export class HNSW<M = unknown> {
 	 *
 	 * @param q The query vector to search for
 	 * @param K Number of nearest neighbors to return
+	 * @param filter Optional metadata predicate. Non-matching points are skipped but still
+	 *               traversed, and they don't count towards `ef`, so the search keeps expanding
+	 *               until `K` matching points are found or the graph is exhausted
 	 *
 	 * @returns Array of KNNResult objects containing id, distance, and metadata for each neighbor,
 	 *          sorted by distance (closest first). Returns empty array if no points in index.
@@ -459,38 +847,74 @@ export class HNSW<M = unknown> {
 	 *     console.log(`  Metadata:`, result.metadata);
 	 *   }
 	 * }
+	 *
+	 * // Only return points tagged as research
+	 * const research = await hnsw.knn_search(query, 5, (m) => m?.category === 'research');
 	 * ```
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 5 (page 10)
 	 */
-	async knn_search(q: Point, K: number): Promise<KNNResult<M>[]> {
+	async knn_search(
+		q: Point,
+		K: number,
+		filter?: MetadataFilter<M>,
+	): Promise<KNNResult<M>[]> {
 		// Get the entry point (starting point for search)
 		const ep_index = await this.db.get_ep();
 
 		// Handle edge case: empty index
 		if (ep_index === null) return [];
 
+		await this.check_metric();
+		await this.check_quantization();
+
 		// Get the current top layer and calculate initial distance
 		const L = (await this.db.get_num_layers()) - 1;
-		const dist = cosine_distance(q, await this.db.get_point(ep_index));
+		const dist = this.distance(q, await this.db.get_point(ep_index));
 
 		// PHASE 1: Routing through upper layers (L down to 1)
 		// Use ef=1 for fast navigation - we only need to find a good entry point for layer 0
-		let ep: Node[] = [[dist, ep_index]];
-		for (let l_c = L; l_c > 0; l_c--) {
-			ep = await this.search_layer(q, ep, 1, l_c);
-		} 
+		let ep = await this.route(q, [[dist, ep_index]], L, 0);
+
+		// Metadata read by the filter, reused for the results
+		const seen = new Map<number, M | null>();
+
+		// Skip tombstoned points, and points not matching the filter if there is one
+		const accept: NodeFilter = async (idxs) => {
+			const visible = await this.db.get_visibles(idxs);
+			if (!filter) return visible;
+
+			// Only fetch metadata for visible points
+			const candidates = idxs.filter((_, i) => visible[i]);
+			const metadatas = await this.db.get_metadatas(candidates);
+			const matches = new Set<number>();
+			candidates.forEach((idx, i) => {
+				seen.set(idx, metadatas[i]);
+				if (filter(metadatas[i])) matches.add(idx);
+			});
+			return idxs.map((idx) => matches.has(idx));
+		};
 
 		// PHASE 2: Comprehensive search in base layer (layer 0)
-		// Use the configured ef parameter for quality search
-		ep = await this.search_layer(q, ep, this.ef, 0);
+		// Use the configured ef parameter for quality search, widened to K when filtering
+		// so that a selective filter still yields K results whenever they exist
+		const ef = filter ? Math.max(this.ef, K) : this.ef;
+		ep = await this.search_layer(q, ep, ef, 0, accept);
+
+		// Product-quantized distances are rough, rerank the candidates on their exact vectors
+		if (this.quantization.type === "pq" && ep.length > 0) {
+			const exact = await this.db.get_exact_points(ep.map(([, idx]) => idx));
+			ep = ep.map(([, idx], i) => [this.distance(q, exact[i]), idx] as Node);
+		}
 
 		// Sort results by distance and take top K
 		ep.sort(compareNode);
 		const ep_topk = ep.slice(0, K);
 
-		// Fetch metadata for all results in batch for efficiency
-		const metadatas = await this.db.get_metadatas(ep_topk.map((ep) => ep[1]));
+		// Fetch metadata for all results in batch for efficiency, unless the filter already did
+		const metadatas = filter
+			? ep_topk.map(([, idx]) => seen.get(idx) ?? null)
+			: await this.db.get_metadatas(ep_topk.map((ep) => ep[1]));
 
 		// Combine results with metadata and return in the expected format
 		return ep_topk.map((ep, i) => ({
@@ -499,4 +923,245 @@ export class HNSW<M = unknown> {
 			metadata: metadatas[i],
 		}));
 	}
+
+	/**
+	 * Soft-deletes a point by tombstoning it.
+	 *
+	 * The point keeps its connections so searches can still route through it,
+	 * but it is never returned by `knn_search` and never receives new connections.
+	 * Use `hard_delete` or `compact` to remove it from the graph for good.
+	 *
+	 * @param idx The index of the point to delete
+	 * @throws {Error} If no point exists at the given index
+	 *
+	 * @example
+	 * ```typescript
+	 * await hnsw.delete(42);
+	 * const results = await hnsw.knn_search(query, 5); // never contains 42
+	 * ```
+	 */
+	async delete(idx: number) {
+		const size = await this.db.get_datasize();
+		if (idx < 0 || idx >= size) {
+			throw new Error(`No point with index ${idx}`);
+		}
+
+		await this.db.set_visible(idx, false);
+	}
+
+	/**
+	 * Deletes a point and removes it from the graph.
+	 *
+	 * The point is tombstoned, then on every layer it belongs to its former
+	 * neighbors are reconnected among themselves (and to their remaining
+	 * neighbors) using the neighbor selection heuristic, so the graph stays
+	 * navigable. If the point was the entry point, its closest neighbor on the
+	 * highest shared layer takes over and the layers above are dropped. Without
+	 * visible neighbors, any visible point takes over (see `replace_ep`).
+	 *
+	 * Points that link to the deleted point without being linked back keep a
+	 * dangling connection to a dead end. Searches never route through it (see
+	 * `route`), and `compact` cleans those connections up.
+	 *
+	 * @param idx The index of the point to delete
+	 * @throws {Error} If no point exists at the given index
+	 */
+	async hard_delete(idx: number) {
+		await this.delete(idx);
+		await this.check_metric();
+
+		const ep_index = await this.db.get_ep();
+		const L = await this.db.get_num_layers();
+		let ep_moved = ep_index !== idx;
+
+		// Walk from the top layer down so the entry point lands on the highest layer possible
+		for (let l_c = L - 1; l_c >= 0; l_c--) {
+			const [exists] = await this.db.has_neighbors(l_c, [idx]);
+			if (!exists) continue;
+
+			const orphans = await this.detach(idx, l_c);
+
+			// The closest surviving neighbor on the highest shared layer becomes the entry point
+			if (!ep_moved && orphans.length > 0) {
+				const [, newEp] = orphans.sort(compareNode)[0];
+				await this.db.set_ep(newEp);
+				await this.db.set_num_layers(l_c + 1);
+				ep_moved = true;
+			}
+		}
+
+		// Clearing the connections rewrote the point as visible, tombstone it again
+		await this.db.set_visible(idx, false);
+
+		// No neighbor could take over, any visible point on the highest layer will
+		if (!ep_moved) {
+			await this.replace_ep(L);
+		}
+	}
+
+	/**
+	 * Moves the entry point to a visible point on the highest layer that has one.
+	 *
+	 * When no visible point is left the layer count drops to zero, so the next
+	 * insert starts a new graph and becomes the entry point.
+	 *
+	 * @param L The number of layers before the entry point was deleted
+	 */
+	private async replace_ep(L: number) {
+		const size = await this.db.get_datasize();
+		const idxs = Array.from({ length: size }, (_, i) => i);
+		const visible = await this.db.get_visibles(idxs);
+		const alive = idxs.filter((_, i) => visible[i]);
+
+		for (let l_c = L - 1; l_c >= 0 && alive.length > 0; l_c--) {
+			const exists = await this.db.has_neighbors(l_c, alive);
+			const member = alive.find((_, i) => exists[i]);
+			if (member !== undefined) {
+				await this.db.set_ep(member);
+				await this.db.set_num_layers(l_c + 1);
+				return;
+			}
+		}
+
+		await this.db.set_num_layers(0);
+	}
+
+	/**
+	 * Removes a point's connections within a single layer and reconnects its former neighbors.
+	 *
+	 * Each visible former neighbor is relinked among its remaining neighbors and the
+	 * other former neighbors, using the neighbor selection heuristic. Tombstoned
+	 * former neighbors only lose their connection to the point and stay tombstoned,
+	 * so searches routing through them can't step into the detached point.
+	 *
+	 * @param idx The index of the point to detach
+	 * @param l_c The layer to detach it from
+	 * @returns The visible former neighbors with their distances to the point
+	 */
+	private async detach(idx: number, l_c: number): Promise<Node[]> {
+		const node = await this.db.get_neighbor(l_c, idx);
+		const orphans = Object.keys(node)
+			.map((k) => Number.parseInt(k))
+			.filter((k) => k !== idx);
+
+		// Clear the point's own connections
+		await this.db.upsert_neighbor(l_c, idx, {});
+
+		if (orphans.length === 0) return []; // The point was alone in this layer
+
+		// Only visible orphans are rewired, tombstoned ones must not gain connections
+		const orphanVisible = await this.db.get_visibles(orphans);
+		const alive = orphans.filter((_, i) => orphanVisible[i]);
+		const dead = orphans.filter((_, i) => !orphanVisible[i]);
+		if (dead.length > 0) {
+			const deadNodes = await this.db.get_neighbors(l_c, dead);
+			for (const o of dead) {
+				delete deadNodes[o][idx];
+			}
+			await this.db.upsert_neighbors(l_c, deadNodes, false);
+		}
+		if (alive.length === 0) return [];
+		const nodes = await this.db.get_neighbors(l_c, alive);
+		const points = await this.db.get_points(alive);
+
+		// Candidate connections: each orphan's remaining neighbors plus the other orphans
+		const candidateIdxs = new Set<number>();
+		for (const o of alive) {
+			delete nodes[o][idx];
+			for (const k of Object.keys(nodes[o])) {
+				candidateIdxs.add(Number.parseInt(k));
+			}
+		}
+		const candidates = [...candidateIdxs];
+		const candidateVisible = await this.db.get_visibles(candidates);
+		const tombstoned = new Set(
+			candidates.filter((_, i) => !candidateVisible[i]),
+		);
+
+		for (const [i, o] of alive.entries()) {
+			const conn = new Map<number, number>();
+			for (const [k, v] of Object.entries(nodes[o])) {
+				const n = Number.parseInt(k);
+				if (!tombstoned.has(n)) conn.set(n, v);
+			}
+			alive.forEach((other, j) => {
+				if (other !== o && !conn.has(other)) {
+					conn.set(other, this.distance(points[i], points[j]));
+				}
+			});
+
+			const selected = await this.select_neighbors(
+				points[i],
+				[...conn].map(([n, dist]) => [dist, n] as Node),
+				l_c,
+				o,
+			);
+			nodes[o] = Object.fromEntries(selected.map(([dist, n]) => [n, dist]));
+		}
+
+		await this.db.upsert_neighbors(l_c, nodes);
+
+		return alive.map((o) => [node[o], o] as Node);
+	}
+
+	/**
+	 * Permanently removes every tombstoned point from the graph.
+	 *
+	 * Each tombstoned point still connected goes through `hard_delete`, then
+	 * every layer is scanned once to drop the remaining one-way connections to
+	 * deleted points. Points removed before, which `hard_delete` left without
+	 * connections, are skipped, so a run with nothing new to remove writes
+	 * nothing. This reads the whole index, so it is meant to run as a
+	 * maintenance job.
+	 *
+	 * @returns The number of points removed from the graph
+	 */
+	async compact(): Promise<number> {
+		const size = await this.db.get_datasize();
+		const idxs = Array.from({ length: size }, (_, i) => i);
+		const visible = await this.db.get_visibles(idxs);
+		const deleted = new Set(idxs.filter((_, i) => !visible[i]));
+		if (deleted.size === 0) return 0;
+
+		// Points already removed have no connections, unless one is the entry point
+		const ep_index = await this.db.get_ep();
+		const tombstones = [...deleted];
+		const nodes = await this.db.get_neighbors(0, tombstones);
+		const pending = tombstones.filter(
+			(idx) => idx === ep_index || Object.keys(nodes[idx]).length > 0,
+		);
+		if (pending.length === 0) return 0;
+
+		for (const idx of pending) {
+			await this.hard_delete(idx);
+		}
+
+		// Drop dangling connections that point at deleted points
+		const alive = idxs.filter((i) => !deleted.has(i));
+		const L = await this.db.get_num_layers();
+		for (let l_c = 0; l_c < L; l_c++) {
+			const exists = await this.db.has_neighbors(l_c, alive);
+			const members = alive.filter((_, i) => exists[i]);
+			const nodes = await this.db.get_neighbors(l_c, members);
+
+			const changed: Graph = {};
+			for (const m of members) {
+				const stale = Object.keys(nodes[m])
+					.map((k) => Number.parseInt(k))
+					.filter((k) => deleted.has(k));
+				if (stale.length === 0) continue;
+
+				for (const k of stale) {
+					delete nodes[m][k];
+				}
+				changed[m] = nodes[m];
+			}
+
+			if (Object.keys(changed).length > 0) {
+				await this.db.upsert_neighbors(l_c, changed);
+			}
+		}
+
+		return pending.length;
+	}
 }
@@ -2,8 +2,60 @@ import type { ContractState } from "hollowdb";
 import { SetSDK } from "hollowdb";
 import type { JWKInterface, Warp } from "warp-contracts";
 import { ArweaveSigner } from "warp-contracts-plugin-deploy";
+import { CachedDB } from "./db/cache";
+import type { LRUCache } from "./db/cache/lru";
+import { MemoryKV } from "./db/clients/memory";
+import { SQLiteKV } from "./db/clients/sqlite";
 import { EizenMemory } from "./db/index";
+import type { CacheStore, KVClient } from "./db/interfaces";
 import { HNSW } from "./hnsw";
+import {
+	export_snapshot,
+	import_snapshot,
+	type SnapshotInfo,
+	snapshot_info,
+} from "./snapshot";
+import type { DistanceMetric, Quantization } from "./types";
+
+export { CachedDB } from "./db/cache";
+export { LRUCache } from "./db/cache/lru";
+export { MemoryKV } from "./db/clients/memory";
+export { SQLiteKV } from "./db/clients/sqlite";
+export type { CacheStore, KVClient } from "./db/interfaces";
+export { KeywordIndex, type KeywordResult } from "./keyword";
+export { SNAPSHOT_VERSION, type SnapshotInfo } from "./snapshot";
+export type { DistanceMetric, MetadataFilter, Quantization } from "./types";
+
+/** Optional HNSW algorithm parameters for `EizenDbVector` */
+export type EizenDbVectorOptions = {
+	/** Maximum number of bidirectional connections per node (default: 5) */
+	m?: number;
+	/** Size of candidate list during graph construction (default: 128) */
+	efConstruction?: number;
+	/** Size of candidate list during search (default: 20) */
+	efSearch?: number;
+	/** Distance metric used to compare vectors (default: cosine) */
+	metric?: DistanceMetric;
+	/** Compression of stored vectors (default: none) */
+	quantization?: Quantization;
+	/** Number of sub-vectors for product quantization (default: one per 8 dimensions) */
+	pqSubvectors?: number;
+	/** Also consider the candidates' neighbors when linking a point (default: false) */
+	extendCandidates?: boolean;
+	/** Fill free connection slots with candidates discarded for diversity (default: true) */
+	keepPrunedConnections?: boolean;
+	/** Prefix of every key, so several indexes can share one storage (default: none) */
+	namespace?: string;
+	/** Read-through cache in front of the storage (default: none), see `CachedDB` */
+	cache?: {
+		/** In-process LRU, can be shared by several databases */
+		lru?: LRUCache;
+		/** Shared remote cache such as Redis */
+		remote?: CacheStore;
+		/** Prepended to every cache key, required when sharing a cache */
+		prefix?: string;
+	};
+};
 
 
 export class EizenCompatSDK extends SetSDK<string> {
@@ -48,8 +100,8 @@ export class EizenCompatSDK extends SetSDK<string> {
  * @template M Type of metadata associated with each vector
  */
 export class EizenDbVector<M = unknown> extends HNSW<M> {
-	/** Database SDK instance for persistent storage operations */
-	sdk: SetSDK<string>;
+	/** Key-value client for persistent storage operations */
+	sdk: KVClient;
 
 	/**
 	 * Creates a new HNSW vector database instance.
@@ -58,35 +110,156 @@ export class EizenDbVector<M = unknown> extends HNSW<M> {
 	 * - Vectors are encoded using protobuf and stored as base64 strings
 	 * - Metadata is stored as JSON-stringified values
 	 * - For legacy contracts using `upsertVectorMulti`, use `EizenCompatSDK`
+	 * - Any other `KVClient` works too, see `EizenDbVector.memory` and `EizenDbVector.sqlite`
 	 *
 	 * @param options Optional HNSW algorithm parameters:
 	 * - `m`: Maximum connections per node (default: 5, range: 5-48, higher for better quality)
 	 * - `efConstruction`: Build-time candidate list size (default: 128, higher for better graph quality)
 	 * - `efSearch`: Search-time candidate list size (default: 20, higher for better recall)
+	 * - `metric`: Distance metric, `cosine`, `l2` or `ip` (default: cosine). It is stored in the
+	 *   index on first insert, and reopening the index with a different metric throws
+	 * - `quantization`: Vector compression, `none`, `int8`, `uint8` or `pq` (default: none).
+	 *   Calibrated and stored in the index on first insert (see `calibrate`), and reopening
+	 *   the index with a different quantization throws
+	 * - `pqSubvectors`: Codes stored per vector with `pq` (default: one per 8 dimensions)
+	 * - `extendCandidates`: Neighbor selection also considers the candidates' neighbors
+	 *   (default: false, can help on extremely clustered data at the cost of more reads)
+	 * - `keepPrunedConnections`: Neighbor selection fills free slots with candidates it
+	 *   discarded for diversity (default: true)
+	 * - `cache`: Read-through cache for points, layer nodes and metadata (default: none)
+	 * - `namespace`: Keeps the index under its own key prefix, with its own entry point
+	 *   and layers, so several indexes can live in one contract (default: none). Use a
+	 *   distinct cache `prefix` per namespace when sharing a cache
 	 *
 	 * @template M Type of metadata associated with each vector
 	 *
 	 */
-	constructor(
-		contractSDK: SetSDK<string>,
-		options?: {
-			/** Maximum number of bidirectional connections per node (default: 5) */
-			m?: number;
-			/** Size of candidate list during graph construction (default: 128) */
-			efConstruction?: number;
-			/** Size of candidate list during search (default: 20) */
-			efSearch?: number;
-		},
-	) {
+	constructor(contractSDK: KVClient, options?: EizenDbVectorOptions) {
 		const m = options?.m ?? 5;
 		const ef_construction = options?.efConstruction ?? 128;
 		const ef_search = options?.efSearch ?? 20;
+		const metric = options?.metric ?? "cosine";
+		const quantization = {
+			type: options?.quantization ?? "none",
+			subvectors: options?.pqSubvectors,
+		};
 
-		super(new EizenMemory<M>(contractSDK), m, ef_construction, ef_search);
+		const memory = new EizenMemory<M>(contractSDK, options?.namespace);
+
+		super(
+			options?.cache ? new CachedDB<M>(memory, options.cache) : memory,
+			m,
+			ef_construction,
+			ef_search,
+			metric,
+			quantization,
+			{
+				extendCandidates: options?.extendCandidates,
+				keepPrunedConnections: options?.keepPrunedConnections,
+			},
+		);
 
 		this.sdk = contractSDK;
 	}
 
+	/**
+	 * Creates a vector database that lives entirely in memory.
+	 *
+	 * Nothing is persisted and no Arweave connection is needed, which makes it
+	 * suited for unit tests, local development and as a reference backend.
+	 *
+	 * @param options Optional HNSW algorithm parameters (same as the constructor)
+	 * @returns A new, empty vector database
+	 *
+	 * @example
+	 * ```typescript
+	 * const vectordb = EizenDbVector.memory<{ title: string }>({ m: 16 });
+	 * await vectordb.insert([0.1, 0.2, 0.3], { title: "hello" });
+	 * ```
+	 */
+	static memory<M = unknown>(options?: EizenDbVectorOptions): EizenDbVector<M> {
+		return new EizenDbVector<M>(new MemoryKV(), options);
+	}
+
+	/**
+	 * Opens (or creates) a vector database stored in a SQLite file.
+	 *
+	 * Uses the built-in `node:sqlite` module (Node.js 22.13+), for offline
+	 * deployments and local development without Arweave.
+	 *
+	 * @param filename Path of the database file, or ":memory:" for a temporary one
+	 * @param options Optional HNSW algorithm parameters (same as the constructor)
+	 * @returns The vector database stored in the file
+	 *
+	 * @example
+	 * ```typescript
+	 * const vectordb = await EizenDbVector.sqlite("./vectors.db", { metric: "l2" });
+	 * const results = await vectordb.knn_search([0.1, 0.2, 0.3], 5);
+	 * ```
+	 */
+	static async sqlite<M = unknown>(
+		filename: string,
+		options?: EizenDbVectorOptions,
+	): Promise<EizenDbVector<M>> {
+		return new EizenDbVector<M>(await SQLiteKV.open(filename), options);
+	}
+
+	/**
+	 * Exports the whole index as a portable snapshot.
+	 *
+	 * The snapshot is a versioned binary file holding points, every layer's nodes,
+	 * metadata, entry point, layer count, metric, quantizer and HNSW parameters.
+	 * It can be imported into any backend with `importSnapshot`. Entries of the
+	 * application can be carried along, `snapshotInfo` reads them back.
+	 *
+	 * @param extras Entries to carry along with the index (default: none)
+	 * @returns The encoded snapshot
+	 *
+	 * @example
+	 * ```typescript
+	 * const snapshot = await vectordb.exportSnapshot();
+	 * await writeFile("./backup.eizen", snapshot);
+	 * ```
+	 */
+	async exportSnapshot(
+		extras: Record<string, string> = {},
+	): Promise<Uint8Array> {
+		return export_snapshot(this, extras);
+	}
+
+	/**
+	 * Imports a snapshot produced by `exportSnapshot` into this database.
+	 *
+	 * The database must be empty, and opened with the same metric and quantization
+	 * as the exported one (see `EizenDbVector.snapshotInfo`). Nothing is written
+	 * if the snapshot is invalid; a failing write can leave a large one partly
+	 * imported. Vectors keep their indices, so nothing needs to be re-embedded.
+	 *
+	 * @param data The snapshot to import
+	 * @returns The number of imported points, including deleted ones
+	 * @throws {Error} If the database is not empty, or the snapshot is invalid or incompatible
+	 *
+	 * @example
+	 * ```typescript
+	 * const target = new EizenDbVector(newContractSdk, { metric: "cosine" });
+	 * await target.importSnapshot(await readFile("./backup.eizen"));
+	 * ```
+	 */
+	async importSnapshot(data: Uint8Array): Promise<number> {
+		return import_snapshot(this, data);
+	}
+
+	/**
+	 * Reads the parameters and point counts of a snapshot without importing it.
+	 *
+	 * @param data A snapshot produced by `exportSnapshot`
+	 * @returns The snapshot summary
+	 * @throws {Error} If the snapshot is invalid or of an unsupported version
+	 */
+	static snapshotInfo(data: Uint8Array): SnapshotInfo {
+		return snapshot_info(data);
+	}
+
 	/**
 	 * Deploys a new vector storage contract on Arweave.
 	 *
@@ -0,0 +1,66 @@
+import { expect, test, vi } from "vitest";
+import { MemoryKV } from "./db/clients/memory";
+import { KeywordIndex, tokenize } from "./keyword";
+
+test("identifiers are kept whole along with their parts, stop words are dropped", () => {
+	expect(tokenize("Mail jane.doe@acme.io about the E_CONN_RESET")).toEqual([
+		"mail",
+		"jane.doe@acme.io",
+		"jane",
+		"doe",
+		"acme",
+		"io",
+		"about",
+		"e_conn_reset",
+		"e",
+		"conn",
+		"reset",
+	]);
+});
+
+test("search ranks documents with BM25, re-indexing and removal included", async () => {
+	const keywords = new KeywordIndex(new MemoryKV());
+	await keywords.add_many([
+		{ id: 0, text: "Deploy of project ORION failed with E_CONN_RESET" },
+		{ id: 1, text: "Project ORION kickoff, ORION is due in May" },
+		{ id: 2, text: "Lunch with the project team" },
+	]);
+
+	// Rare terms weigh more, and so do repeated ones
+	expect((await keywords.search("e_conn_reset")).map(({ id }) => id)).toEqual([
+		0,
+	]);
+	expect((await keywords.search("orion")).map(({ id }) => id)).toEqual([1, 0]);
+	const [first, second] = await keywords.search("project orion");
+	expect(first.score).toBeGreaterThan(second.score);
+	expect(await keywords.search("project", 2)).toHaveLength(2);
+	expect(await keywords.search("the")).toEqual([]);
+
+	await keywords.add(1, "Lunch moved to Friday");
+	expect((await keywords.search("orion")).map(({ id }) => id)).toEqual([0]);
+	await keywords.remove(0);
+	await keywords.remove(7);
+	expect(await keywords.search("orion")).toEqual([]);
+	expect((await keywords.search("lunch")).map(({ id }) => id)).toEqual([1, 2]);
+});
+
+test("writes only rewrite the posting list shards of their documents", async () => {
+	const kv = new MemoryKV();
+	const keywords = new KeywordIndex(kv, "work");
+	await keywords.add(0, "ORION launch");
+	await keywords.add(300, "ORION retro");
+
+	const setMany = vi.spyOn(kv, "setMany");
+	await keywords.add(301, "ORION budget");
+	const [written] = setMany.mock.calls[0];
+	expect(written).toContain("work/kw:t:orion:1");
+	expect(written).not.toContain("work/kw:t:orion:0");
+
+	// Every shard is searched
+	expect((await keywords.search("orion")).map(({ id }) => id)).toEqual([
+		0, 300, 301,
+	]);
+
+	// Namespaces are indexes of their own
+	expect(await new KeywordIndex(kv).search("orion")).toEqual([]);
+});
@@ -0,0 +1,325 @@
+import { type Keys, keysFor, safeParse } from "./db/common";
+import type { KVClient } from "./db/interfaces";
+
+/**
+ * Keyword Index
+ * =============
+ *
+ * An inverted index scoring documents with BM25, stored in the same key-value
+ * store as the vector index. It finds exact tokens that embeddings blur, such as
+ * codenames, emails or error codes.
+ *
+ * Every term has a posting list holding, for each document containing it, the
+ * term frequency and the document length, so scoring a query only reads the
+ * posting lists of its terms. Each document also records its terms, so that it
+ * can be re-indexed or removed.
+ *
+ * Posting lists are split in shards of consecutive documents, stored under
+ * their own keys: a write only rewrites the shards of the documents it
+ * touches, whose size is bounded however many documents contain the term.
+ * Writes are read-modify-write, so concurrent writes to documents of the same
+ * shard can still lose postings of one another; documents of other shards
+ * are not affected.
+ */
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 document length normalization */
+const BM25_B = 0.75;
+
+/** Documents per posting list shard */
+const POSTING_SHARD_SIZE = 256;
+
+/** Longer tokens are truncated, keeping keys short */
+const MAX_TOKEN_LENGTH = 64;
+
+/** Words too common to be worth a posting list */
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"has",
+	"in",
+	"is",
+	"it",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"were",
+	"with",
+]);
+
+/** Documents of a term: document index → [term frequency, document length] */
+type Posting = Record<number, [number, number]>;
+
+/** Global statistics of the index */
+type KeywordStats = {
+	/** Number of indexed documents */
+	docs: number;
+	/** Sum of the lengths of all indexed documents, in tokens */
+	length: number;
+	/** Number of posting list shards, up to the one of the highest indexed document */
+	shards: number;
+};
+
+/** A document matching a keyword query */
+export type KeywordResult = {
+	id: number;
+	/** BM25 score, higher is more relevant */
+	score: number;
+};
+
+/** Shard of the posting lists a document is stored in */
+const shardOf = (id: number) => Math.floor(id / POSTING_SHARD_SIZE);
+
+/**
+ * Splits a text into lowercase search tokens.
+ *
+ * Identifiers made of words joined by `.`, `_`, `-` or `@` (emails, error
+ * codes, versions) are kept whole, and their parts are added as well, so that
+ * `jane.doe@acme.io` matches both itself and `acme`.
+ *
+ * @param text The text to tokenize
+ * @returns The tokens, in order and with repetitions
+ */
+export function tokenize(text: string): string[] {
+	const tokens: string[] = [];
+	const words =
+		text.toLowerCase().match(/[\p{L}\p{N}]+(?:[._@-][\p{L}\p{N}]+)*/gu) ?? [];
+
+	for (const word of words) {
+		const parts = word.split(/[._@-]/);
+		if (parts.length > 1) {
+			tokens.push(word.slice(0, MAX_TOKEN_LENGTH));
+		}
+		for (const part of parts) {
+			if (!STOP_WORDS.has(part)) {
+				tokens.push(part.slice(0, MAX_TOKEN_LENGTH));
+			}
+		}
+	}
+	return tokens;
+}
+
+/**
+ * KeywordIndex - BM25 full-text index over a key-value store
+ *
+ * Documents are identified by the index of their point in the vector index.
+ * Keys are prefixed with `kw:`, so it can share the store of an `EizenDbVector`.
+ * Pass the namespace of that database to index the documents of a namespaced one.
+ *
+ * @example
+ * ```typescript
+ * const keywords = new KeywordIndex(sdk);
+ * await keywords.add(idx, "Deploy of project ORION failed with E_CONN_RESET");
+ * const results = await keywords.search("E_CONN_RESET", 5);
+ * ```
+ */
+export class KeywordIndex {
+	/** Key-value client storing the index */
+	client: KVClient;
+
+	/** Storage keys, prefixed with the namespace if there is one */
+	private keys: Keys;
+
+	constructor(client: KVClient, namespace?: string) {
+		this.client = client;
+		this.keys = keysFor(namespace);
+	}
+
+	/**
+	 * Indexes a document, replacing its previous text if it was already indexed.
+	 *
+	 * @param id Index of the document
+	 * @param text Text of the document
+	 */
+	async add(id: number, text: string) {
+		await this.write([{ id, tokens: tokenize(text) }]);
+	}
+
+	/**
+	 * Indexes several documents at once, each posting list shard being written only once.
+	 *
+	 * @param docs The documents to index
+	 */
+	async add_many(docs: { id: number; text: string }[]) {
+		await this.write(
+			docs.map(({ id, text }) => ({ id, tokens: tokenize(text) })),
+		);
+	}
+
+	/**
+	 * Removes a document from the index, nothing happens if it is not indexed.
+	 *
+	 * @param id Index of the document
+	 */
+	async remove(id: number) {
+		await this.write([{ id, tokens: null }]);
+	}
+
+	/**
+	 * Finds the documents matching the most query terms, ranked with BM25.
+	 *
+	 * @param query The text to search for
+	 * @param limit Maximum number of results (default: all matching documents)
+	 * @returns The matching documents, most relevant first
+	 */
+	async search(query: string, limit?: number): Promise<KeywordResult[]> {
+		const terms = [...new Set(tokenize(query))];
+		if (terms.length === 0) return [];
+
+		const stats = await this.read_stats();
+		if (stats.docs === 0) return [];
+		const avgLength = stats.length / stats.docs;
+
+		// Every shard of every term, in term order
+		const postings = await this.read_postings(
+			terms.flatMap((term) =>
+				Array.from({ length: stats.shards }, (_, shard) =>
+					this.keys.posting(term, shard),
+				),
+			),
+		);
+		const scores = new Map<number, number>();
+		for (let i = 0; i < terms.length; i++) {
+			const entries = postings
+				.slice(i * stats.shards, (i + 1) * stats.shards)
+				.flatMap((posting) => Object.entries(posting));
+			if (entries.length === 0) continue;
+
+			// Rare terms weigh more
+			const idf = Math.log(
+				1 + (stats.docs - entries.length + 0.5) / (entries.length + 0.5),
+			);
+			for (const [id, [tf, length]] of entries) {
+				const norm = BM25_K1 * (1 - BM25_B + (BM25_B * length) / avgLength);
+				const score = (idf * tf * (BM25_K1 + 1)) / (tf + norm);
+				const idx = Number.parseInt(id);
+				scores.set(idx, (scores.get(idx) ?? 0) + score);
+			}
+		}
+
+		const results = [...scores]
+			.map(([id, score]) => ({ id, score }))
+			.sort((a, b) => b.score - a.score || a.id - b.id);
+		return limit === undefined ? results : results.slice(0, limit);
+	}
+
+	/**
+	 * Applies document changes, reading and writing every touched key once.
+	 *
+	 * @param docs The new tokens of each document, or null to remove it
+	 */
+	private async write(docs: { id: number; tokens: string[] | null }[]) {
+		if (docs.length === 0) return;
+
+		// Terms each document was indexed with
+		const previous = (
+			await this.client.getMany(docs.map(({ id }) => this.keys.keywordDoc(id)))
+		).map((data) => safeParse<string[]>(data));
+
+		// Term frequencies of the new version of each document
+		const counts = docs.map(({ tokens }) => {
+			if (!tokens) return null;
+			const tf = new Map<string, number>();
+			for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+			return tf;
+		});
+
+		// Posting list shards holding the documents, by storage key
+		const postingKeys = new Set<string>();
+		docs.forEach(({ id }, i) => {
+			for (const term of previous[i] ?? []) {
+				postingKeys.add(this.keys.posting(term, shardOf(id)));
+			}
+			for (const term of counts[i]?.keys() ?? []) {
+				postingKeys.add(this.keys.posting(term, shardOf(id)));
+			}
+		});
+		const keyList = [...postingKeys];
+		const postings = new Map(
+			(await this.read_postings(keyList)).map((p, i) => [keyList[i], p]),
+		);
+		const stats = await this.read_stats();
+
+		const changedKeys: string[] = [];
+		const changedValues: string[] = [];
+		docs.forEach(({ id, tokens }, i) => {
+			// Drop the previous version
+			const old = previous[i];
+			if (old) {
+				for (const term of old) {
+					const posting = postings.get(
+						this.keys.posting(term, shardOf(id)),
+					) as Posting;
+					const entry = posting[id];
+					if (entry) {
+						stats.length -= entry[0];
+						delete posting[id];
+					}
+				}
+				stats.docs--;
+			}
+
+			// Index the new version
+			const tf = counts[i];
+			if (tokens && tf) {
+				for (const [term, count] of tf) {
+					(postings.get(this.keys.posting(term, shardOf(id))) as Posting)[id] =
+						[count, tokens.length];
+				}
+				stats.length += tokens.length;
+				stats.docs++;
+				stats.shards = Math.max(stats.shards, shardOf(id) + 1);
+			}
+
+			// Removed documents get an empty value, which reads as not indexed
+			if (old || tf) {
+				changedKeys.push(this.keys.keywordDoc(id));
+				changedValues.push(tf ? JSON.stringify([...tf.keys()]) : "");
+			}
+		});
+
+		for (const [key, posting] of postings) {
+			changedKeys.push(key);
+			changedValues.push(JSON.stringify(posting));
+		}
+		changedKeys.push(this.keys.keywordStats);
+		changedValues.push(JSON.stringify(stats));
+
+		await this.client.setMany(changedKeys, changedValues);
+	}
+
+	/** Reads the global statistics, zero for an empty index */
+	private async read_stats(): Promise<KeywordStats> {
+		return (
+			safeParse<KeywordStats>(
+				await this.client.get(this.keys.keywordStats),
+			) ?? {
+				docs: 0,
+				length: 0,
+				shards: 0,
+			}
+		);
+	}
+
+	/** Reads posting list shards by storage key, empty for unknown ones */
+	private async read_postings(keys: string[]): Promise<Posting[]> {
+		if (keys.length === 0) return [];
+		const datas = await this.client.getMany(keys);
+		return datas.map((data) => safeParse<Posting>(data) ?? {});
+	}
+}
@@ -0,0 +1,67 @@
+import { expect, test } from "vitest";
+import { EizenMemory } from "./db";
+import { MemoryKV } from "./db/clients/memory";
+import { HNSW } from "./hnsw";
+import { dequantize, quantize, train_quantizer } from "./quantization";
+import { cosine_distance } from "./utils";
+
+const randomVector = (dim: number) =>
+	Array.from({ length: dim }, () => Math.random() * 2 - 1);
+
+test("scalar quantization keeps components within half a step, clamping the others", () => {
+	const samples = Array.from({ length: 10 }, () => randomVector(16));
+	for (const type of ["int8", "uint8"] as const) {
+		const state = train_quantizer({ type }, samples);
+		const codes = quantize(state, samples[0]);
+		expect(codes.every((code) => code >= 0 && code <= 255)).toBe(true);
+
+		const decoded = dequantize(state, codes);
+		for (const [i, v] of samples[0].entries()) {
+			expect(Math.abs(decoded[i] - v)).toBeLessThanOrEqual(1 / 254 + 1e-12);
+		}
+	}
+
+	const state = train_quantizer({ type: "uint8" }, [[-1, 1]]);
+	expect(dequantize(state, quantize(state, [-5, 5]))).toEqual([-1, 1]);
+});
+
+test("product quantization needs enough samples to train its codebooks", () => {
+	expect(() =>
+		train_quantizer({ type: "pq" }, [randomVector(8), randomVector(8)]),
+	).toThrow("Product quantization needs at least 256 sample vectors, got 2");
+	expect(() =>
+		train_quantizer(
+			{ type: "pq", subvectors: 9 },
+			Array.from({ length: 256 }, () => randomVector(8)),
+		),
+	).toThrow("Cannot split 8-dimensional vectors into 9 sub-vectors");
+});
+
+test("product-quantized searches rerank their results on the exact vectors", async () => {
+	const db = new EizenMemory(new MemoryKV());
+	const vectordb = new HNSW(db, 5, 64, 20, "cosine", {
+		type: "pq",
+		subvectors: 2,
+	});
+	const points = Array.from({ length: 300 }, () => randomVector(8));
+	await vectordb.insert_many(points);
+
+	const query = randomVector(8);
+	const results = await vectordb.knn_search(query, 5);
+	expect(results).toHaveLength(5);
+	for (const { id, distance } of results) {
+		expect(distance).toBeCloseTo(cosine_distance(query, points[id]), 5);
+	}
+
+	// Only the codes are used to traverse the graph, the exact vectors are kept
+	const stored = await db.get_points(points.map((_, i) => i));
+	expect(stored.some((point, i) => point[0] !== points[i][0])).toBe(true);
+	const { point } = await vectordb.get_vector(0);
+	point.forEach((v, i) => {
+		expect(v).toBeCloseTo(points[0][i], 5);
+	});
+
+	await expect(new HNSW(db, 5, 64, 20).knn_search(query, 5)).rejects.toThrow(
+		'Index was built with "pq" quantization, but "none" was requested',
+	);
+});
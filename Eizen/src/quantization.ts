@@ -0,0 +1,221 @@
+import type { Point, QuantizationOptions, QuantizerState } from "./types";
+
+/**
+ * Vector Quantization
+ * ===================
+ *
+ * Compresses stored vectors into small unsigned integer codes (see `PointQuant`
+ * in `hnsw_comm.proto`), trading some accuracy for storage:
+ *
+ * - Scalar quantization (`int8` / `uint8`) maps every component to one of 256 levels
+ *   between the calibrated min and max
+ * - Product quantization (`pq`) splits vectors into sub-vectors and stores, for each,
+ *   the index of the closest centroid of a codebook learned with k-means
+ */
+
+/** Number of centroids per codebook, so that every PQ code fits in a byte */
+export const PQ_CENTROIDS = 256;
+
+/** Maximum number of k-means iterations when training codebooks */
+const KMEANS_ITERATIONS = 20;
+
+/** Default number of dimensions per PQ sub-vector */
+const PQ_SUBVECTOR_DIMS = 8;
+
+/**
+ * Calibrates a quantizer from sample vectors.
+ *
+ * Scalar quantizers record the min/max component value of the samples. Product
+ * quantizers train a codebook of `PQ_CENTROIDS` centroids per sub-vector, so they
+ * need at least that many samples.
+ *
+ * @param options The requested quantization
+ * @param samples Vectors representative of the data to index
+ * @returns The calibration to store in the index
+ * @throws {Error} If there are not enough samples, or the quantization needs no calibration
+ */
+export function train_quantizer(
+	options: QuantizationOptions,
+	samples: Point[],
+): QuantizerState {
+	if (samples.length === 0) {
+		throw new Error("Quantization needs at least one sample vector");
+	}
+
+	switch (options.type) {
+		case "int8":
+		case "uint8": {
+			let min = Number.POSITIVE_INFINITY;
+			let max = Number.NEGATIVE_INFINITY;
+			for (const sample of samples) {
+				for (const v of sample) {
+					if (v < min) min = v;
+					if (v > max) max = v;
+				}
+			}
+			return { type: options.type, min, max };
+		}
+		case "pq": {
+			if (samples.length < PQ_CENTROIDS) {
+				throw new Error(
+					`Product quantization needs at least ${PQ_CENTROIDS} sample vectors, got ${samples.length}`,
+				);
+			}
+
+			const dim = samples[0].length;
+			const subvectors =
+				options.subvectors ?? Math.max(1, Math.floor(dim / PQ_SUBVECTOR_DIMS));
+			if (subvectors < 1 || subvectors > dim) {
+				throw new Error(
+					`Cannot split ${dim}-dimensional vectors into ${subvectors} sub-vectors`,
+				);
+			}
+
+			// Slice boundaries, spread as evenly as possible
+			const bounds = Array.from({ length: subvectors + 1 }, (_, s) =>
+				Math.round((s * dim) / subvectors),
+			);
+			const centroids = Array.from({ length: subvectors }, (_, s) =>
+				kmeans(
+					samples.map((sample) => sample.slice(bounds[s], bounds[s + 1])),
+					PQ_CENTROIDS,
+				),
+			);
+			return { type: "pq", centroids };
+		}
+		default:
+			throw new Error(`Quantization "${options.type}" needs no calibration`);
+	}
+}
+
+/**
+ * Encodes a vector into quantized codes.
+ *
+ * @param state The calibration of the index
+ * @param q The vector to encode
+ * @returns One code per component (scalar) or per sub-vector (PQ), all within [0, 255]
+ * @throws {Error} If the vector does not have the dimensions the PQ codebooks were trained on
+ */
+export function quantize(state: QuantizerState, q: Point): number[] {
+	if (state.type === "pq") {
+		const dim = state.centroids.reduce((sum, c) => sum + c[0].length, 0);
+		if (q.length !== dim) {
+			throw new Error(
+				`Expected a ${dim}-dimensional vector, got ${q.length} dimensions`,
+			);
+		}
+
+		let offset = 0;
+		return state.centroids.map((codebook) => {
+			const sub = q.slice(offset, offset + codebook[0].length);
+			offset += sub.length;
+			return nearest(codebook, sub);
+		});
+	}
+
+	const { scale, zero } = scalar_params(state);
+	return q.map((v) => Math.min(255, Math.max(0, Math.round(v / scale + zero))));
+}
+
+/**
+ * Decodes quantized codes back into an approximate vector.
+ *
+ * @param state The calibration of the index
+ * @param codes Codes produced by `quantize`
+ * @returns The reconstructed vector
+ */
+export function dequantize(state: QuantizerState, codes: number[]): Point {
+	if (state.type === "pq") {
+		return codes.flatMap((code, s) => state.centroids[s][code]);
+	}
+
+	const { scale, zero } = scalar_params(state);
+	return codes.map((code) => (code - zero) * scale);
+}
+
+/**
+ * Step and code of zero for scalar quantization.
+ *
+ * `int8` is symmetric: zero is exactly representable and the step covers the largest
+ * absolute value. Codes are offset by 127 since `PointQuant` components are unsigned.
+ * `uint8` spreads its 256 levels between min and max.
+ */
+function scalar_params(state: {
+	type: "int8" | "uint8";
+	min: number;
+	max: number;
+}) {
+	if (state.type === "int8") {
+		const absmax = Math.max(Math.abs(state.min), Math.abs(state.max));
+		return { scale: absmax / 127 || 1, zero: 127 };
+	}
+
+	const scale = (state.max - state.min) / 255 || 1;
+	return { scale, zero: -state.min / scale };
+}
+
+/**
+ * Clusters vectors with Lloyd's k-means, using squared Euclidean distances.
+ *
+ * Centroids start on evenly spaced samples, so training is deterministic.
+ * A centroid whose cluster empties keeps its previous position.
+ *
+ * @param vectors The vectors to cluster, at least `k` of them
+ * @param k Number of centroids
+ * @returns The centroids
+ */
+function kmeans(vectors: Point[], k: number): Point[] {
+	const dim = vectors[0].length;
+	const centroids = Array.from({ length: k }, (_, c) => [
+		...vectors[Math.floor((c * vectors.length) / k)],
+	]);
+	const assignments = new Array<number>(vectors.length).fill(-1);
+
+	for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+		// Assign every vector to its closest centroid
+		let changed = false;
+		vectors.forEach((v, i) => {
+			const c = nearest(centroids, v);
+			if (assignments[i] !== c) {
+				assignments[i] = c;
+				changed = true;
+			}
+		});
+		if (!changed) break;
+
+		// Move every centroid to the mean of its cluster
+		const sums = Array.from({ length: k }, () =>
+			new Array<number>(dim).fill(0),
+		);
+		const counts = new Array<number>(k).fill(0);
+		vectors.forEach((v, i) => {
+			const c = assignments[i];
+			counts[c]++;
+			for (let d = 0; d < dim; d++) sums[c][d] += v[d];
+		});
+		for (let c = 0; c < k; c++) {
+			if (counts[c] === 0) continue;
+			centroids[c] = sums[c].map((sum) => sum / counts[c]);
+		}
+	}
+
+	return centroids;
+}
+
+/** Index of the centroid closest to a vector (squared Euclidean distance) */
+function nearest(centroids: Point[], v: Point): number {
+	let best = 0;
+	let bestDist = Number.POSITIVE_INFINITY;
+	centroids.forEach((centroid, c) => {
+		let dist = 0;
+		for (let d = 0; d < v.length; d++) {
+			const diff = v[d] - centroid[d];
+			dist += diff * diff;
+		}
+		if (dist < bestDist) {
+			bestDist = dist;
+			best = c;
+		}
+	});
+	return best;
+}
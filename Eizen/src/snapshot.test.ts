@@ -0,0 +1,82 @@
+import { expect, test } from "vitest";
+import { EizenMemory } from "./db";
+import { MemoryKV } from "./db/clients/memory";
+import { HNSW } from "./hnsw";
+import { export_snapshot, import_snapshot, snapshot_info } from "./snapshot";
+import type { DistanceMetric, QuantizationOptions } from "./types";
+
+type Metadata = { n: number };
+
+const memoryIndex = (
+	metric: DistanceMetric = "cosine",
+	quantization?: QuantizationOptions,
+) =>
+	new HNSW<Metadata>(
+		new EizenMemory(new MemoryKV()),
+		5,
+		64,
+		20,
+		metric,
+		quantization,
+	);
+
+const randomVector = (dim: number) =>
+	Array.from({ length: dim }, () => Math.random() * 2 - 1);
+
+test("an imported snapshot returns the same search results as the exported index", async () => {
+	const exported = memoryIndex("l2", { type: "int8" });
+	const points = Array.from({ length: 50 }, () => randomVector(8));
+	await exported.insert_many(
+		points,
+		points.map((_, i) => ({ n: i })),
+	);
+	await exported.delete(4);
+	await exported.hard_delete(5);
+
+	const data = await export_snapshot(exported, { model: "all-minilm-l6-v2" });
+	expect(snapshot_info(data)).toEqual({
+		version: 1,
+		metric: "l2",
+		quantization: "int8",
+		m: 5,
+		efConstruction: 64,
+		efSearch: 20,
+		points: 50,
+		visible: 48,
+		extras: { model: "all-minilm-l6-v2" },
+	});
+
+	const imported = memoryIndex("l2", { type: "int8" });
+	expect(await import_snapshot(imported, data)).toBe(50);
+	for (let i = 0; i < 10; i++) {
+		const query = randomVector(8);
+		expect(await imported.knn_search(query, 5)).toEqual(
+			await exported.knn_search(query, 5),
+		);
+	}
+	expect(await imported.get_vector(7)).toEqual(await exported.get_vector(7));
+});
+
+test("snapshots are only imported into empty indexes of the same metric and quantization", async () => {
+	const exported = memoryIndex();
+	await exported.insert([1, 2], { n: 0 });
+	const data = await export_snapshot(exported);
+
+	await expect(import_snapshot(exported, data)).rejects.toThrow(
+		"Snapshots can only be imported into an empty index",
+	);
+	await expect(import_snapshot(memoryIndex("ip"), data)).rejects.toThrow(
+		'Snapshot was built with the "cosine" distance metric, but "ip" was requested',
+	);
+	await expect(
+		import_snapshot(memoryIndex("cosine", { type: "uint8" }), data),
+	).rejects.toThrow(
+		'Snapshot was built with "none" quantization, but "uint8" was requested',
+	);
+
+	// Nothing was written by the refused imports
+	const empty = memoryIndex("ip");
+	await expect(import_snapshot(empty, data)).rejects.toThrow();
+	expect(await empty.db.get_datasize()).toBe(0);
+	expect(await empty.db.get_metric()).toBeNull();
+});
@@ -0,0 +1,282 @@
+import type { index_buffer } from "../proto/hnsw_comm";
+import {
+	decodeQuantizer,
+	decodeSnapshot,
+	encodeQuantizer,
+	encodeSnapshot,
+} from "./codec";
+import type { HNSW } from "./hnsw";
+import { dequantize, quantize } from "./quantization";
+import type { DistanceMetric, Graph, Point, Quantization } from "./types";
+
+/**
+ * Index Snapshots
+ * ===============
+ *
+ * A snapshot holds everything needed to rebuild an index on another backend:
+ * points, every layer's nodes (with their tombstones), metadata, entry point,
+ * layer count, metric, quantizer calibration and HNSW parameters. It is a single
+ * `Snapshot` protobuf message (see `hnsw_comm.proto`) behind 4 magic bytes.
+ * Applications can carry their own entries along in `extras`, Eizen doesn't
+ * read them.
+ *
+ * Stored values are copied as is, so an imported index returns exactly the same
+ * search results as the exported one.
+ */
+
+/** Version written in new snapshots, snapshots of later versions are refused */
+export const SNAPSHOT_VERSION = 1;
+
+/** Number of points read from the database at once while exporting */
+const EXPORT_CHUNK_SIZE = 500;
+
+/** Summary of a snapshot, readable without importing it */
+export type SnapshotInfo = {
+	/** Snapshot format version */
+	version: number;
+	/** Distance metric of the exported index */
+	metric: DistanceMetric;
+	/** Quantization of the exported index */
+	quantization: Quantization;
+	/** HNSW parameters of the exporting instance, for reference */
+	m: number;
+	efConstruction: number;
+	efSearch: number;
+	/** Number of stored points, including deleted ones */
+	points: number;
+	/** Number of points that are not deleted */
+	visible: number;
+	/** Entries the application exported along with the index */
+	extras: Record<string, string>;
+};
+
+/**
+ * Exports a whole index as a snapshot.
+ *
+ * Reads every point, node and metadata entry, so it is meant for backups and
+ * migrations rather than frequent use.
+ *
+ * @param hnsw The index to export
+ * @param extras Entries of the application to carry along (default: none)
+ * @returns The encoded snapshot
+ */
+export async function export_snapshot<M>(
+	hnsw: HNSW<M>,
+	extras: Record<string, string> = {},
+): Promise<Uint8Array> {
+	const { db } = hnsw;
+	const datasize = await db.get_datasize();
+	const num_layers = await db.get_num_layers();
+	const quantizer = await db.get_quantizer();
+
+	const snapshot: index_buffer.ISnapshot = {
+		version: SNAPSHOT_VERSION,
+		params: {
+			m: hnsw.m,
+			efConstruction: hnsw.ef_construction,
+			efSearch: hnsw.ef,
+			// Indexes created before metrics were recorded use cosine, see `check_metric`
+			metric:
+				(await db.get_metric()) ?? (datasize > 0 ? "cosine" : hnsw.metric),
+			quantization: quantizer?.type ?? "none",
+		},
+		numLayers: num_layers,
+		ep: (await db.get_ep()) ?? 0,
+		datasize,
+		quantizer: quantizer ? encodeQuantizer(quantizer) : "",
+		points: [],
+		quantPoints: [],
+		nodes: [],
+		metadata: {},
+		extras,
+	};
+
+	for (let start = 0; start < datasize; start += EXPORT_CHUNK_SIZE) {
+		const idxs = Array.from(
+			{ length: Math.min(EXPORT_CHUNK_SIZE, datasize - start) },
+			(_, i) => start + i,
+		);
+
+		// Scalar codes are decoded on read, quantizing them again gives back the stored codes
+		const points = await db.get_exact_points(idxs);
+		idxs.forEach((idx, i) => {
+			if (quantizer && quantizer.type !== "pq") {
+				snapshot.quantPoints?.push({ idx, v: quantize(quantizer, points[i]) });
+			} else {
+				snapshot.points?.push({ idx, v: points[i] });
+			}
+		});
+
+		const metadatas = await db.get_metadatas(idxs);
+		idxs.forEach((idx, i) => {
+			if (metadatas[i] !== null && snapshot.metadata) {
+				snapshot.metadata[idx] = JSON.stringify(metadatas[i]);
+			}
+		});
+
+		// Tombstones apply to every layer of a point
+		const visible = await db.get_visibles(idxs);
+		for (let level = 0; level < num_layers; level++) {
+			const exists = await db.has_neighbors(level, idxs);
+			const members = idxs.filter((_, i) => exists[i]);
+			if (members.length === 0) continue;
+
+			const nodes = await db.get_neighbors(level, members);
+			for (const idx of members) {
+				snapshot.nodes?.push({
+					level,
+					idx,
+					visible: visible[idx - start],
+					neighbors: nodes[idx],
+				});
+			}
+		}
+	}
+
+	return encodeSnapshot(snapshot);
+}
+
+/**
+ * Imports a snapshot into an empty index.
+ *
+ * The snapshot is checked before anything is written, then all writes go
+ * through a single batch. A snapshot too large for one transaction is flushed
+ * in several, so a failing flush can leave it partly imported (see
+ * `DBInterface.batch`). The metric and quantization of the snapshot must
+ * match the ones of the importing instance; its other HNSW parameters only
+ * describe how the graph was built and are not enforced.
+ *
+ * @param hnsw The empty index to import into
+ * @param data A snapshot produced by `export_snapshot`
+ * @returns The number of imported points, including deleted ones
+ * @throws {Error} If the index is not empty, or the snapshot is invalid or incompatible
+ */
+export async function import_snapshot<M>(
+	hnsw: HNSW<M>,
+	data: Uint8Array,
+): Promise<number> {
+	const snapshot = read_snapshot(data);
+	const { db } = hnsw;
+
+	if ((await db.get_datasize()) > 0) {
+		throw new Error("Snapshots can only be imported into an empty index");
+	}
+
+	const metric = snapshot.params?.metric as DistanceMetric;
+	if (metric !== hnsw.metric) {
+		throw new Error(
+			`Snapshot was built with the "${metric}" distance metric, but "${hnsw.metric}" was requested`,
+		);
+	}
+	const quantization = snapshot.params?.quantization || "none";
+	if (quantization !== hnsw.quantization.type) {
+		throw new Error(
+			`Snapshot was built with "${quantization}" quantization, but "${hnsw.quantization.type}" was requested`,
+		);
+	}
+
+	const quantizer = snapshot.quantizer
+		? decodeQuantizer(snapshot.quantizer)
+		: null;
+
+	// Gather the vectors by index, every index must be present
+	const vectors: Point[] = new Array(snapshot.datasize);
+	for (const p of snapshot.points) {
+		vectors[p.idx ?? 0] = p.v ?? [];
+	}
+	if (quantizer) {
+		for (const p of snapshot.quantPoints) {
+			vectors[p.idx ?? 0] = dequantize(quantizer, p.v ?? []);
+		}
+	}
+	for (let idx = 0; idx < snapshot.datasize; idx++) {
+		if (!vectors[idx]) {
+			throw new Error(`Snapshot has no point with index ${idx}`);
+		}
+	}
+
+	// Group the nodes by layer
+	const layers: Graph[] = Array.from(
+		{ length: snapshot.numLayers },
+		() => ({}),
+	);
+	const tombstoned: number[] = [];
+	for (const node of snapshot.nodes) {
+		const level = node.level ?? 0;
+		const idx = node.idx ?? 0;
+		if (level >= snapshot.numLayers || idx >= snapshot.datasize) {
+			throw new Error(`Snapshot node ${idx} on layer ${level} is out of range`);
+		}
+		layers[level][idx] = node.neighbors ?? {};
+		if (level === 0 && !node.visible) tombstoned.push(idx);
+	}
+
+	await db.batch(async () => {
+		await db.set_metric(metric);
+		if (quantizer) {
+			await db.set_quantizer(quantizer);
+		}
+
+		for (let idx = 0; idx < snapshot.datasize; idx++) {
+			await db.new_point(vectors[idx]);
+		}
+		for (const [idx, value] of Object.entries(snapshot.metadata)) {
+			await db.set_metadata(Number.parseInt(idx), JSON.parse(value) as M);
+		}
+
+		await db.set_num_layers(snapshot.numLayers);
+		for (let level = 0; level < layers.length; level++) {
+			if (Object.keys(layers[level]).length > 0) {
+				await db.upsert_neighbors(level, layers[level]);
+			}
+		}
+		for (const idx of tombstoned) {
+			await db.set_visible(idx, false);
+		}
+
+		if (snapshot.numLayers > 0) {
+			await db.set_ep(snapshot.ep);
+		}
+	});
+
+	return snapshot.datasize;
+}
+
+/**
+ * Reads the summary of a snapshot without importing it.
+ *
+ * @param data A snapshot produced by `export_snapshot`
+ * @returns The snapshot's parameters and point counts
+ * @throws {Error} If the snapshot is invalid or of an unsupported version
+ */
+export function snapshot_info(data: Uint8Array): SnapshotInfo {
+	const snapshot = read_snapshot(data);
+	const tombstoned = snapshot.nodes.filter(
+		(node) => (node.level ?? 0) === 0 && !node.visible,
+	).length;
+
+	return {
+		version: snapshot.version,
+		metric: snapshot.params?.metric as DistanceMetric,
+		quantization: (snapshot.params?.quantization || "none") as Quantization,
+		m: snapshot.params?.m ?? 0,
+		efConstruction: snapshot.params?.efConstruction ?? 0,
+		efSearch: snapshot.params?.efSearch ?? 0,
+		points: snapshot.datasize,
+		visible: snapshot.datasize - tombstoned,
+		extras: { ...snapshot.extras },
+	};
+}
+
+/**
+ * Decodes a snapshot and checks that its version is supported
+ */
+function read_snapshot(data: Uint8Array): index_buffer.Snapshot {
+	const snapshot = decodeSnapshot(data);
+	if (snapshot.version < 1 || snapshot.version > SNAPSHOT_VERSION) {
+		throw new Error(
+			`Unsupported snapshot version ${snapshot.version}, expected at most ${SNAPSHOT_VERSION}`,
+		);
+	}
+	return snapshot;
+}
@@ -12,6 +12,66 @@
  */
 export type Point = number[];
 
+/**
+ * Distance metric used to compare points.
+ *
+ * - `cosine`: cosine distance, for normalized embeddings (default)
+ * - `l2`: Euclidean distance
+ * - `ip`: negated inner product, so that larger dot products rank first
+ *
+ * The metric is fixed when the index is created and cannot change afterwards.
+ */
+export type DistanceMetric = "cosine" | "l2" | "ip";
+
+/**
+ * How stored vectors are compressed.
+ *
+ * - `none`: full-precision floats (default)
+ * - `int8`: one byte per component, symmetric around zero
+ * - `uint8`: one byte per component, spanning the calibrated min/max range
+ * - `pq`: product quantization, one byte per sub-vector, with an exact rerank of search results
+ *
+ * Like the metric, the quantization is fixed when the index is created.
+ */
+export type Quantization = "none" | "int8" | "uint8" | "pq";
+
+/**
+ * Quantization requested for an index.
+ *
+ * `subvectors` only applies to product quantization: the number of slices each
+ * vector is split into, i.e. the number of codes stored per vector
+ * (default: one per 8 dimensions).
+ */
+export type QuantizationOptions = {
+	type: Quantization;
+	subvectors?: number;
+};
+
+/**
+ * Options of the neighbor selection heuristic, see `HNSW.select_neighbors`.
+ *
+ * - `extendCandidates`: also consider the neighbors of the candidates, which only
+ *   pays off on extremely clustered data (default: false)
+ * - `keepPrunedConnections`: fill the slots left by the diversity pruning with the
+ *   closest discarded candidates, so that nodes keep a fixed degree (default: true)
+ */
+export type NeighborSelection = {
+	extendCandidates?: boolean;
+	keepPrunedConnections?: boolean;
+};
+
+/**
+ * Calibration of a quantized index, stored in the database on first insert.
+ *
+ * - Scalar quantization keeps the min/max component value seen during calibration,
+ *   values outside of that range are clamped
+ * - Product quantization keeps one codebook per sub-vector: `centroids[s][c]` is
+ *   centroid `c` of sub-vector `s`
+ */
+export type QuantizerState =
+	| { type: "int8" | "uint8"; min: number; max: number }
+	| { type: "pq"; centroids: number[][][] };
+
 /**
  * Represents the graph structure for a single layer in the HNSW index.
  *
@@ -37,6 +97,24 @@ export type LayerNode = Record<number, number>;
  */
 export type Node = [distance: number, id: number];
 
+/**
+ * Batch predicate deciding which points may appear in search results.
+ *
+ * Receives point indices and resolves to one flag per index. Rejected points
+ * are still traversed during search so the graph stays navigable.
+ */
+export type NodeFilter = (idxs: number[]) => Promise<boolean[]>;
+
+/**
+ * Metadata predicate restricting which points `knn_search` may return.
+ *
+ * Called with the metadata of each candidate point (null if it has none).
+ * Non-matching points are skipped in the results but still used for navigation.
+ *
+ * @template M The type of metadata associated with points
+ */
+export type MetadataFilter<M = unknown> = (metadata: M | null) => boolean;
+
 /**
  * Result object returned by k-nearest neighbor search.
  *
@@ -1,5 +1,5 @@
 import { Heap } from "heap-js";
-import type { Node, Point } from "../types";
+import type { DistanceMetric, Node, Point } from "../types";
 
 /**
  * HNSW Utility Functions
@@ -116,3 +116,32 @@ export function inner_product(a: Point, b: Point): number {
 export function l2_distance(a: Point, b: Point): number {
 	return Math.sqrt(a.reduce((sum, val, idx) => sum + (val - b[idx]) ** 2, 0));
 }
+
+/**
+ * Computes the inner product distance between two vectors.
+ *
+ * HNSW ranks candidates by ascending distance, so the inner product is negated:
+ * the larger the dot product, the closer the vectors. Unlike the other distances
+ * this one can be negative, and it is only meaningful for ranking.
+ *
+ * @param a First vector
+ * @param b Second vector
+ * @returns The negated inner product of the vectors
+ */
+export function ip_distance(a: Point, b: Point): number {
+	return -dot_product(a, b);
+}
+
+/**
+ * Distance functions for each supported metric.
+ *
+ * Used by HNSW to resolve the metric chosen at construction time.
+ */
+export const distance_functions: Record<
+	DistanceMetric,
+	(a: Point, b: Point) => number
+> = {
+	cosine: cosine_distance,
+	l2: l2_distance,
+	ip: ip_distance,
+};
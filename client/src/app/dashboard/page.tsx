@@ -16,6 +16,7 @@ import { useAuth, RedirectToSignIn } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
 import { usePaymentSuccess } from "@/hooks/usePaymentSuccess";
 import { CodeBlock } from "@/components/ui/code-block";
+import { MemoryGraph } from "@/components/layout/MemoryGraph";
 
 interface StatCardProps {
   title: string;
@@ -323,6 +324,11 @@ const DashboardContent: React.FC = () => {
               </ResponsiveContainer>
             </div>
           </div>
+
+          {/* Links between memories */}
+          <div className="mt-6">
+            <MemoryGraph token={contractHashFingerprint} />
+          </div>
         </main>
       </div>
     </div>
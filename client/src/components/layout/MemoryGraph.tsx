@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  getMemoryGraph,
+  type MemoryGraphEdge,
+  type MemoryGraphNode,
+  type MemoryLinkType,
+} from "@/lib/api";
+
+const WIDTH = 800;
+const HEIGHT = 480;
+
+const LINK_COLORS: Record<MemoryLinkType, string> = {
+  relates_to: "#3B82F6",
+  contradicts: "#EF4444",
+  supersedes: "#A855F7",
+  derived_from: "#22C55E",
+};
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+// Force-directed layout: linked memories attract, all memories repel
+function layoutGraph(
+  nodes: MemoryGraphNode[],
+  edges: MemoryGraphEdge[],
+): Map<number, Position> {
+  const positions = new Map<number, Position>(
+    nodes.map((node, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1);
+      return [
+        node.id,
+        {
+          x: WIDTH / 2 + (WIDTH / 3) * Math.cos(angle),
+          y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin(angle),
+        },
+      ];
+    }),
+  );
+  const spacing = Math.sqrt((WIDTH * HEIGHT) / Math.max(nodes.length, 1));
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const moves = new Map<number, Position>(
+      nodes.map((node) => [node.id, { x: 0, y: 0 }]),
+    );
+
+    for (const a of nodes) {
+      for (const b of nodes) {
+        if (a.id === b.id) continue;
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        const dx = pa.x - pb.x;
+        const dy = pa.y - pb.y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (spacing * spacing) / distance;
+        moves.get(a.id)!.x += (dx / distance) * force;
+        moves.get(a.id)!.y += (dy / distance) * force;
+      }
+    }
+
+    for (const edge of edges) {
+      const ps = positions.get(edge.source);
+      const pt = positions.get(edge.target);
+      if (!ps || !pt) continue;
+      const dx = ps.x - pt.x;
+      const dy = ps.y - pt.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / spacing;
+      moves.get(edge.source)!.x -= (dx / distance) * force;
+      moves.get(edge.source)!.y -= (dy / distance) * force;
+      moves.get(edge.target)!.x += (dx / distance) * force;
+      moves.get(edge.target)!.y += (dy / distance) * force;
+    }
+
+    // Moves shrink as the layout settles
+    const temperature = (WIDTH / 10) * (1 - iteration / 200);
+    for (const node of nodes) {
+      const move = moves.get(node.id)!;
+      const length = Math.max(Math.hypot(move.x, move.y), 1);
+      const position = positions.get(node.id)!;
+      position.x += (move.x / length) * Math.min(length, temperature);
+      position.y += (move.y / length) * Math.min(length, temperature);
+      position.x = Math.min(WIDTH - 20, Math.max(20, position.x));
+      position.y = Math.min(HEIGHT - 20, Math.max(20, position.y));
+    }
+  }
+
+  return positions;
+}
+
+interface MemoryGraphProps {
+  token: string | null;
+}
+
+export const MemoryGraph: React.FC<MemoryGraphProps> = ({ token }) => {
+  const [graph, setGraph] = useState<{
+    nodes: MemoryGraphNode[];
+    edges: MemoryGraphEdge[];
+  }>({ nodes: [], edges: [] });
+  const [selected, setSelected] = useState<MemoryGraphNode | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchGraph = async () => {
+      setIsLoading(true);
+      try {
+        setGraph(await getMemoryGraph(token));
+        setError(null);
+      } catch (error) {
+        console.error("Error fetching memory graph:", error);
+        setError("Unable to load the memory graph");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchGraph();
+  }, [token]);
+
+  const positions = useMemo(
+    () => layoutGraph(graph.nodes, graph.edges),
+    [graph],
+  );
+
+  return (
+    <div className="bg-gray-900/80 backdrop-blur-sm rounded-xl shadow-sm border border-gray-800 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg text-white" style={{ fontFamily: "SemiBold" }}>
+          Memory Graph
+        </h3>
+        <div className="flex flex-wrap gap-4">
+          {Object.entries(LINK_COLORS).map(([type, color]) => (
+            <span
+              key={type}
+              className="flex items-center text-xs text-gray-400"
+              style={{ fontFamily: "Regular" }}
+            >
+              <span
+                className="w-3 h-0.5 mr-2 inline-block"
+                style={{ backgroundColor: color }}
+              />
+              {type.replace("_", " ")}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {!token ? (
+        <p className="text-gray-400 text-sm" style={{ fontFamily: "Regular" }}>
+          Create an instance to see how its memories are linked.
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm" style={{ fontFamily: "Regular" }}>
+          {error}
+        </p>
+      ) : graph.nodes.length === 0 ? (
+        <p className="text-gray-400 text-sm" style={{ fontFamily: "Regular" }}>
+          No linked memories yet. Links are added with POST /memories/:id/links.
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto bg-gray-800/50 rounded-lg"
+          >
+            <defs>
+              {Object.entries(LINK_COLORS).map(([type, color]) => (
+                <marker
+                  key={type}
+                  id={`arrow-${type}`}
+                  viewBox="0 0 10 10"
+                  refX="18"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                </marker>
+              ))}
+            </defs>
+            {graph.edges.map((edge) => {
+              const source = positions.get(edge.source);
+              const target = positions.get(edge.target);
+              if (!source || !target) return null;
+              return (
+                <line
+                  key={`${edge.source}-${edge.target}-${edge.type}`}
+                  x1={source.x}
+                  y1={source.y}
+                  x2={target.x}
+                  y2={target.y}
+                  stroke={LINK_COLORS[edge.type]}
+                  strokeWidth={1.5}
+                  markerEnd={`url(#arrow-${edge.type})`}
+                />
+              );
+            })}
+            {graph.nodes.map((node) => {
+              const position = positions.get(node.id);
+              if (!position) return null;
+              const isSelected = selected?.id === node.id;
+              return (
+                <circle
+                  key={node.id}
+                  cx={position.x}
+                  cy={position.y}
+                  r={6 + (node.metadata?.importance ?? 0) / 2}
+                  fill={isSelected ? "#F59E0B" : "#E5E7EB"}
+                  stroke="#111827"
+                  strokeWidth={2}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(node)}
+                >
+                  <title>{node.content}</title>
+                </circle>
+              );
+            })}
+          </svg>
+
+          {selected && (
+            <div className="mt-4 bg-gray-800/50 rounded-lg p-4">
+              <p
+                className="text-xs text-gray-400 mb-1"
+                style={{ fontFamily: "Regular" }}
+              >
+                Memory #{selected.id}
+                {selected.metadata?.tags?.length
+                  ? ` · ${selected.metadata.tags.join(", ")}`
+                  : ""}
+              </p>
+              <p className="text-white text-sm" style={{ fontFamily: "Regular" }}>
+                {selected.content}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
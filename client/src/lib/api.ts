@@ -100,3 +100,35 @@ export async function getUserMemoryCount(contractId: string) {
   console.log(response.data);
   return response.data;
 }
+
+export type MemoryLinkType =
+  | "relates_to"
+  | "contradicts"
+  | "supersedes"
+  | "derived_from";
+
+export interface MemoryGraphNode {
+  id: number;
+  content?: string;
+  metadata?: { tags?: string[]; importance?: number; [key: string]: unknown };
+}
+
+export interface MemoryGraphEdge {
+  source: number;
+  target: number;
+  type: MemoryLinkType;
+}
+
+// Memories having links and the links between them, read with the instance token
+export async function getMemoryGraph(
+  contractToken: string,
+  limit = 200,
+): Promise<{ nodes: MemoryGraphNode[]; edges: MemoryGraphEdge[] }> {
+  const response = await axios.get(`${API_BASE_URL}/memories/graph`, {
+    params: { limit },
+    headers: {
+      Authorization: `Bearer ${contractToken}`,
+    },
+  });
+  return response.data.data;
+}
@@ -21,6 +21,11 @@ export class ContextAPIClient {
     if (config.token) {
       this.headers['Authorization'] = `Bearer ${config.token}`;
     }
+
+    // Memories are stored encrypted, and decrypted on retrieval, with a key derived from the secret
+    if (config.memorySecret) {
+      this.headers['X-Memory-Secret'] = config.memorySecret;
+    }
   }
 
   async insertContext(request: InsertContextRequest): Promise<InsertContextResponse> {
@@ -38,6 +43,10 @@ export class ContextAPIClient {
           client: request.metadata?.client || 'mcp-server',
           ...request.metadata,
         },
+        collection: request.collection,
+        contradictions: request.contradictions,
+        // A fact confirmed with supersede was saved and flagged before: merge into that copy
+        ...(request.contradictions === 'supersede' && { dedupe: 'merge' }),
       };
 
       const response = await fetch(config.insertEndpoint, {
@@ -49,6 +58,15 @@ export class ContextAPIClient {
 
       clearTimeout(timeoutId);
 
+      // Refused, e.g. the same context is already saved: the API says why
+      if (response.status === 409) {
+        const conflict = await response.json();
+        return {
+          success: false,
+          message: conflict.error || conflict.message || 'Context refused',
+        };
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -59,7 +77,12 @@ export class ContextAPIClient {
       if (typeof result === 'object' && result !== null) {
         // If it's already in the expected format
         if ('success' in result) {
-          return result as InsertContextResponse;
+          // The created memory is reported in `data`
+          return {
+            ...result,
+            id: result.id ?? result.data?.memoryId,
+            contradictions: result.contradictions ?? result.data?.contradictions,
+          } as InsertContextResponse;
         }
         
         // If it's a different format, normalize it
@@ -108,6 +131,9 @@ export class ContextAPIClient {
         body: JSON.stringify({
           query: request.query,
           k: request.k || 5, // Default to 5 if not provided
+          mode: request.mode,
+          rerank: request.rerank,
+          collection: request.collection,
           filters: {},
         }),
         signal: controller.signal,
@@ -142,7 +168,8 @@ export class ContextAPIClient {
         id: item.id?.toString(),
         content: item.content || '',
         metadata: item.metadata,
-        relevanceScore: item.distance ? (1 - item.distance) : undefined, // Convert distance to relevance score
+        // Prefer the cross-encoder score when reranked, otherwise convert distance to relevance score
+        relevanceScore: item.rerankScore ?? (item.distance ? (1 - item.distance) : undefined),
         distance: item.distance
       }));
 
@@ -9,6 +9,7 @@ const ConfigSchema = z.object({
   insertEndpoint: z.string().url('INSERT_CONTEXT_ENDPOINT must be a valid URL'),
   searchEndpoint: z.string().url('SEARCH_CONTEXT_ENDPOINT must be a valid URL'),
   token: z.string().optional(),
+  memorySecret: z.string().min(16, 'MEMORY_SECRET must be at least 16 characters').optional(),
   apiTimeout: z.number().default(30000),
 });
 
@@ -19,6 +20,7 @@ function loadConfig() {
       insertEndpoint: process.env.INSERT_CONTEXT_ENDPOINT,
       searchEndpoint: process.env.SEARCH_CONTEXT_ENDPOINT,
       token: process.env.TOKEN,
+      memorySecret: process.env.MEMORY_SECRET || undefined,
       apiTimeout: process.env.API_TIMEOUT ? parseInt(process.env.API_TIMEOUT) : 30000,
     });
     
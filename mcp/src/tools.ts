@@ -38,12 +38,26 @@ export class ContextTools {
                 type: 'string',
                 description: 'ISO timestamp (will be auto-generated if not provided)',
               },
+              ttl: {
+                type: 'integer',
+                minimum: 1,
+                description: 'Seconds the context stays relevant, for short-lived facts (e.g. 604800 for "I\'m traveling this week"). Omit it for lasting context',
+              },
               client: {
                 type: 'string',
                 description: 'Client identifier (defaults to "mcp-server")',
               },
             },
-            description: 'Metadata object containing context, tags, timestamp, and client info',
+            description: 'Metadata object containing context, tags, timestamp, ttl, and client info',
+          },
+          collection: {
+            type: 'string',
+            description: 'Collection to store the context in (e.g., "work", "personal" or a project name). It must have been created beforehand; omit it for the default collection',
+          },
+          contradictions: {
+            type: 'string',
+            enum: ['off', 'flag', 'supersede'],
+            description: 'What to do with saved context this content contradicts: "flag" reports it (default), "supersede" replaces it. Only supersede once the user confirmed the new fact',
           },
         },
         required: ['content'],
@@ -70,6 +84,21 @@ export class ContextTools {
             description: 'Number of results to return (required, typically 5-10)',
             default: 5,
           },
+          mode: {
+            type: 'string',
+            enum: ['semantic', 'keyword', 'hybrid'],
+            description: 'How to match the query: semantic (by meaning), keyword (exact tokens such as codenames, emails or error codes) or hybrid (both)',
+            default: 'hybrid',
+          },
+          rerank: {
+            type: 'boolean',
+            description: 'Rescore the top results with a cross-encoder for a more reliable best match (slower). Recommended when only the first result is used',
+            default: false,
+          },
+          collection: {
+            type: 'string',
+            description: 'Collection to search (e.g., "work", "personal" or a project name). Only that collection is searched; omit it for the default collection',
+          },
           filters: {
             type: 'object',
             properties: {
@@ -94,6 +123,24 @@ export class ContextTools {
       const validatedArgs = InsertContextSchema.parse(args);
       const result = await this.apiClient.insertContext(validatedArgs);
       
+      // Saved context says otherwise: the assistant should ask which one is right
+      if (result.success && result.contradictions?.length) {
+        const conflicts = result.contradictions
+          .map((conflict) => `- [ID: ${conflict.memoryId}] ${conflict.content ?? ''}`)
+          .join('\n');
+        const superseded = result.contradictions.every((conflict) => conflict.action === 'superseded');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: superseded
+                ? `✅ Context saved${result.id ? ` (ID: ${result.id})` : ''}. It replaces saved context it contradicted:\n${conflicts}`
+                : `⚠️ Context saved${result.id ? ` (ID: ${result.id})` : ''}, but it likely contradicts saved context:\n${conflicts}\nAsk the user which one is still true. If it's the new one, save it again with contradictions: "supersede".`,
+            },
+          ],
+        };
+      }
+
       if (result.success) {
         return {
           content: [
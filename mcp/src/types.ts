@@ -7,14 +7,20 @@ export const InsertContextSchema = z.object({
     context: z.string().optional(),
     tags: z.array(z.string()).optional(),
     timestamp: z.string().optional(),
+    ttl: z.number().int().positive().optional(), // Seconds until the context expires
     client: z.string().optional(),
   }).optional(),
+  collection: z.string().optional(),
+  contradictions: z.enum(['off', 'flag', 'supersede']).optional(),
 });
 
 // Schema for search context request
 export const SearchContextSchema = z.object({
   query: z.string().min(1, 'Query cannot be empty'),
   k: z.number().min(1).max(100).default(5),
+  mode: z.enum(['semantic', 'keyword', 'hybrid']).default('hybrid'),
+  rerank: z.boolean().default(false),
+  collection: z.string().optional(),
   filters: z.object({
     tags: z.array(z.string()).optional(),
   }).default({}), // Required field but defaults to empty object
@@ -29,6 +35,7 @@ export interface VectorMetadata {
   context?: string;
   tags?: string[];
   timestamp?: string;
+  expiresAt?: string;
   client?: string;
   [key: string]: any; // Allow additional metadata fields
 }
@@ -38,6 +45,7 @@ export interface MemoryResult {
   content?: string;
   metadata?: VectorMetadata;
   distance?: number;
+  rerankScore?: number;
 }
 
 export interface ContextItem {
@@ -48,10 +56,19 @@ export interface ContextItem {
   distance?: number;
 }
 
+// Saved context the inserted one likely contradicts
+export interface ContextContradiction {
+  action: 'flagged' | 'superseded';
+  memoryId: number;
+  content?: string;
+  probability: number;
+}
+
 export interface InsertContextResponse {
   success: boolean;
   id?: string | number;
   message: string;
+  contradictions?: ContextContradiction[];
 }
 
 // Updated to handle both your format and standard format